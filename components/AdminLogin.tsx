@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { adminFetch, setAdminToken } from '../utils/adminClient';
+
+interface AdminLoginProps {
+  onLogin: () => void;
+}
+
+// Connexion au back-office avec le jeton ADMIN_TOKEN
+export default function AdminLogin({ onLogin }: AdminLoginProps) {
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsChecking(true);
+    setError(null);
+
+    try {
+      setAdminToken(token);
+      // Vérifier le jeton sur une route protégée
+      await adminFetch('/api/menu/versions');
+      onLogin();
+    } catch (loginError: any) {
+      setAdminToken(null);
+      setError(loginError?.message || 'Connexion impossible');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-card p-6 w-full max-w-sm space-y-4">
+        <h1 className="text-2xl font-bold text-gray-800 text-center">🔐 Back-office</h1>
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="Jeton d'administration"
+          className="w-full px-3 py-3 rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-500"
+          autoFocus
+          required
+        />
+        {error && <div className="chat-bubble error text-sm">{error}</div>}
+        <button
+          type="submit"
+          disabled={isChecking}
+          className="w-full bg-primary-500 hover:bg-primary-600 disabled:opacity-60 text-white font-semibold py-3 rounded-lg transition-colors mobile-tap"
+        >
+          {isChecking ? 'Vérification...' : 'Se connecter'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { CartState, CartControls, formatPrice } from '../utils/useCart';
+import { Order } from '../utils/orders';
+import { MessageKey, translate, translatePlural } from '../utils/i18n';
+
+interface CartDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  cart: CartState;
+  controls: CartControls;
+  currency: string;
+  onSubmit: () => void;
+  isSubmitting: boolean;
+  submitError: string | null;
+  lastOrder: Order | null;
+  // Langue de l'interface du client
+  language: string;
+  // Table où la commande sera servie (page ouverte depuis un QR code)
+  tableLabel?: string;
+}
+
+export default function CartDrawer({
+  isOpen,
+  onClose,
+  cart,
+  controls,
+  currency,
+  onSubmit,
+  isSubmitting,
+  submitError,
+  lastOrder,
+  language,
+  tableLabel,
+}: CartDrawerProps) {
+  if (!isOpen) return null;
+
+  const t = (key: MessageKey, params?: Record<string, string | number>) =>
+    translate(language, key, params);
+
+  return (
+    <div className="fixed inset-0 z-60 flex justify-end">
+      {/* Fond assombri */}
+      <div className="absolute inset-0 bg-black bg-opacity-40" onClick={onClose} />
+
+      {/* Panneau du panier - plein écran sur mobile */}
+      <aside className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col animate-slide-up safe-top safe-bottom">
+        <div className="flex items-center justify-between px-4 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800">🛒 {t('cart.title')}</h2>
+            {tableLabel && (
+              <p className="text-sm text-gray-500">{t('cart.servedAt', { table: tableLabel })}</p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 transition-colors mobile-tap touch-target"
+            title={t('cart.close')}
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Lignes du panier */}
+        <div className="flex-1 overflow-y-auto scroll-momentum px-4 py-4 space-y-4">
+          {/* Confirmation de la dernière commande envoyée */}
+          {lastOrder && (
+            <div className="chat-bubble user">
+              <h4 className="font-semibold text-success-800 mb-1">{t('cart.sent')}</h4>
+              <p className="text-success-700 text-sm">
+                {t('cart.orderNumber', { number: lastOrder.id.slice(0, 8) })} · {t(`orderStatus.${lastOrder.status}`)} · {formatPrice(lastOrder.total, lastOrder.currency)}
+              </p>
+            </div>
+          )}
+
+          {cart.lines.length === 0 && (
+            <div className="text-center py-12">
+              <div className="text-5xl mb-4">🛒</div>
+              <p className="text-gray-600">{t('cart.empty')}</p>
+            </div>
+          )}
+
+          {cart.lines.map((line) => (
+            <div key={line.lineId} className="bg-gray-50 rounded-xl p-3">
+              <div className="flex justify-between items-start mb-2">
+                <div className="min-w-0">
+                  <h3 className="font-semibold text-gray-800 leading-tight">{line.name}</h3>
+                  {line.optionsLabel && (
+                    <p className="text-sm text-gray-600">{line.optionsLabel}</p>
+                  )}
+                </div>
+                <span className="font-bold text-primary-600 flex-shrink-0 ml-2">
+                  {formatPrice(line.price * line.quantity, currency)}
+                </span>
+              </div>
+
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => controls.updateQuantity(line.lineId, line.quantity - 1)}
+                    className="w-9 h-9 rounded-full bg-white shadow text-lg mobile-tap"
+                    title={t('cart.decrease')}
+                  >
+                    −
+                  </button>
+                  <span className="font-medium w-6 text-center">{line.quantity}</span>
+                  <button
+                    onClick={() => controls.updateQuantity(line.lineId, line.quantity + 1)}
+                    className="w-9 h-9 rounded-full bg-white shadow text-lg mobile-tap"
+                    title={t('cart.increase')}
+                  >
+                    +
+                  </button>
+                </div>
+                <button
+                  onClick={() => controls.updateQuantity(line.lineId, 0)}
+                  className="text-sm text-red-600 hover:text-red-800 mobile-tap"
+                >
+                  {t('cart.remove')}
+                </button>
+              </div>
+
+              <input
+                type="text"
+                value={line.note}
+                onChange={(e) => controls.updateNote(line.lineId, e.target.value)}
+                placeholder={t('cart.notePlaceholder')}
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Total */}
+        <div className="border-t border-gray-200 px-4 py-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-gray-600">
+              {translatePlural(language, 'cart.itemCount', cart.itemCount)}
+            </span>
+            <span className="text-2xl font-bold text-gray-800">
+              {formatPrice(cart.total, currency)}
+            </span>
+          </div>
+          {submitError && (
+            <div className="chat-bubble error text-sm">{submitError}</div>
+          )}
+          {cart.lines.length > 0 && (
+            <button
+              onClick={onSubmit}
+              disabled={isSubmitting}
+              className="w-full bg-primary-500 hover:bg-primary-600 disabled:opacity-60 text-white font-semibold py-3 px-4 rounded-lg transition-colors mobile-tap touch-target"
+            >
+              {isSubmitting ? t('cart.submitting') : t('cart.submit')}
+            </button>
+          )}
+          {cart.lines.length > 0 && (
+            <button
+              onClick={controls.clearCart}
+              className="w-full px-4 py-2 bg-red-100 text-red-700 rounded-lg text-sm hover:bg-red-200 transition-all mobile-tap"
+            >
+              {t('cart.clear')}
+            </button>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useRef } from 'react';
+import { ConversationTurn } from '../utils/session';
+import { MessageKey, translate } from '../utils/i18n';
+
+interface ChatPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Échanges passés, voix et texte confondus
+  turns: ConversationTurn[];
+  // Des échanges plus anciens ne sont plus affichés : le serveur n'en garde que le résumé
+  hasSummarizedTurns: boolean;
+  // Réponse de Fred en cours d'écriture ('' tant qu'aucun texte n'est arrivé), null sinon
+  pendingReply: string | null;
+  onSend: (message: string) => void;
+  onReplay: (message: string) => void;
+  // Langue de l'interface du client
+  language: string;
+}
+
+// Conversation écrite avec Fred : même assistant que la voix, pour une salle bruyante ou un client
+// qui ne peut ou ne veut pas parler
+export default function ChatPanel({
+  isOpen,
+  onClose,
+  turns,
+  hasSummarizedTurns,
+  pendingReply,
+  onSend,
+  onReplay,
+  language,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Suivre le dernier message, y compris pendant que Fred écrit
+  useEffect(() => {
+    if (isOpen) endRef.current?.scrollIntoView({ block: 'end' });
+  }, [isOpen, turns.length, pendingReply]);
+
+  if (!isOpen) return null;
+
+  const t = (key: MessageKey) => translate(language, key);
+  const isReplying = pendingReply !== null;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const message = draft.trim();
+    if (!message || isReplying) return;
+    onSend(message);
+    setDraft('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-60 flex justify-start">
+      {/* Fond assombri */}
+      <div className="absolute inset-0 bg-black bg-opacity-40" onClick={onClose} />
+
+      <aside className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col animate-slide-up safe-top safe-bottom">
+        <div className="flex items-center justify-between px-4 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-800">💬 {t('chat.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 transition-colors mobile-tap touch-target"
+            title={t('chat.close')}
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Historique des échanges */}
+        <div className="flex-1 overflow-y-auto scroll-momentum px-4 py-4 space-y-3">
+          {hasSummarizedTurns && (
+            <p className="text-center text-xs text-gray-500 italic">{t('chat.earlierSummarized')}</p>
+          )}
+
+          {turns.length === 0 && !isReplying && !hasSummarizedTurns && (
+            <div className="chat-bubble assistant">
+              <h4 className="font-semibold text-secondary-800 text-sm mb-1">{t('assistant.name')}</h4>
+              <p className="text-sm">{t('assistant.welcome')}</p>
+            </div>
+          )}
+
+          {turns.map((turn, index) => (
+            turn.role === 'assistant' ? (
+              <div key={index} className="chat-bubble assistant mr-8">
+                <div className="flex items-center justify-between mb-1">
+                  <h4 className="font-semibold text-secondary-800 text-sm">{t('assistant.name')}</h4>
+                  <button
+                    onClick={() => onReplay(turn.content)}
+                    className="text-secondary-600 hover:text-secondary-800 transition-colors mobile-tap p-1 text-sm"
+                    title={t('assistant.replay')}
+                  >
+                    🔊
+                  </button>
+                </div>
+                <p className="text-sm whitespace-pre-line">{turn.content}</p>
+              </div>
+            ) : (
+              <div key={index} className="chat-bubble user ml-8">
+                <h4 className="font-semibold text-success-800 text-sm mb-1">{t('chat.you')}</h4>
+                <p className="text-sm whitespace-pre-line">{turn.content}</p>
+              </div>
+            )
+          ))}
+
+          {/* Réponse en cours */}
+          {isReplying && (
+            <div className="chat-bubble assistant mr-8">
+              <h4 className="font-semibold text-secondary-800 text-sm mb-1">{t('assistant.name')}</h4>
+              {pendingReply ? (
+                <p className="text-sm whitespace-pre-line">{pendingReply}</p>
+              ) : (
+                <div className="flex space-x-1 py-1">
+                  <div className="w-2 h-2 bg-secondary-500 rounded-full animate-bounce"></div>
+                  <div className="w-2 h-2 bg-secondary-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                  <div className="w-2 h-2 bg-secondary-500 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                </div>
+              )}
+            </div>
+          )}
+          <div ref={endRef} />
+        </div>
+
+        {/* Saisie */}
+        <form onSubmit={handleSubmit} className="border-t border-gray-200 px-4 py-3 flex items-end space-x-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              // Entrée envoie, Maj+Entrée passe à la ligne
+              if (e.key === 'Enter' && !e.shiftKey) handleSubmit(e);
+            }}
+            placeholder={t('chat.placeholder')}
+            rows={2}
+            maxLength={500}
+            autoFocus
+            className="flex-1 resize-none px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-secondary-300"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim() || isReplying}
+            className="bg-secondary-500 hover:bg-secondary-600 disabled:bg-gray-400 text-white font-semibold px-4 py-2 rounded-lg transition-colors mobile-tap touch-target"
+          >
+            {t('chat.send')}
+          </button>
+        </form>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { EU_ALLERGENS } from '../utils/menu';
+import { GuestProfile, GUEST_DIETS, GUEST_LANGUAGES } from '../utils/guestProfile';
+import { GuestProfileControls } from '../utils/useGuestProfile';
+import { MessageKey, translate, translateAllergen } from '../utils/i18n';
+
+interface GuestProfilePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: GuestProfile;
+  controls: GuestProfileControls;
+}
+
+// Convertir "oignons, coriandre" en liste
+const parseList = (value: string) =>
+  value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+export default function GuestProfilePanel({
+  isOpen,
+  onClose,
+  profile,
+  controls,
+}: GuestProfilePanelProps) {
+  const [dislikedText, setDislikedText] = useState(profile.dislikedIngredients.join(', '));
+
+  // Resynchroniser le champ texte quand le profil change ailleurs (restauration, Fred)
+  useEffect(() => {
+    setDislikedText(profile.dislikedIngredients.join(', '));
+  }, [profile.dislikedIngredients]);
+
+  if (!isOpen) return null;
+
+  // Le panneau suit la langue du profil, y compris quand le client la change ici
+  const t = (key: MessageKey) => translate(profile.language, key);
+
+  const toggleAllergen = (allergen: string) => {
+    controls.updateProfile({
+      excludedAllergens: profile.excludedAllergens.includes(allergen)
+        ? profile.excludedAllergens.filter(entry => entry !== allergen)
+        : [...profile.excludedAllergens, allergen],
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-60 flex justify-end">
+      {/* Fond assombri */}
+      <div className="absolute inset-0 bg-black bg-opacity-40" onClick={onClose} />
+
+      <aside className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col animate-slide-up safe-top safe-bottom">
+        <div className="flex items-center justify-between px-4 py-4 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-800">👤 {t('profile.title')}</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 transition-colors mobile-tap touch-target"
+            title={t('profile.close')}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto scroll-momentum px-4 py-4 space-y-6">
+          <p className="text-sm text-gray-600">{t('profile.intro')}</p>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-700 mb-2">{t('profile.diet')}</p>
+            <div className="flex flex-wrap gap-2">
+              {GUEST_DIETS.map(diet => (
+                <button
+                  key={diet.value}
+                  onClick={() => controls.updateProfile({ diet: diet.value })}
+                  className={`filter-button ${profile.diet === diet.value ? 'active' : 'inactive'} border border-gray-200`}
+                >
+                  {t(`diet.${diet.value}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-semibold text-gray-700 mb-2">{t('profile.allergies')}</p>
+            <div className="flex flex-wrap gap-2">
+              {EU_ALLERGENS.map(allergen => (
+                <button
+                  key={allergen}
+                  onClick={() => toggleAllergen(allergen)}
+                  className={`filter-button ${profile.excludedAllergens.includes(allergen) ? 'active' : 'inactive'} border border-gray-200`}
+                >
+                  {translateAllergen(profile.language, allergen)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-700">{t('profile.disliked')}</span>
+            <input
+              className="mt-2 w-full px-3 py-2 rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              value={dislikedText}
+              onChange={(e) => setDislikedText(e.target.value)}
+              onBlur={() => controls.updateProfile({ dislikedIngredients: parseList(dislikedText) })}
+              placeholder={t('profile.dislikedPlaceholder')}
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-sm font-semibold text-gray-700">{t('profile.language')}</span>
+            <select
+              className="mt-2 w-full px-3 py-2 rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              value={profile.language}
+              onChange={(e) => controls.updateProfile({ language: e.target.value })}
+            >
+              {GUEST_LANGUAGES.map(language => (
+                <option key={language.value} value={language.value}>{language.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="border-t border-gray-200 px-4 py-4 flex space-x-2">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-primary-500 hover:bg-primary-600 text-white font-semibold py-3 rounded-lg transition-colors mobile-tap"
+          >
+            {t('profile.done')}
+          </button>
+          <button
+            onClick={controls.resetProfile}
+            className="px-4 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors mobile-tap"
+          >
+            {t('profile.reset')}
+          </button>
+        </div>
+      </aside>
+    </div>
+  );
+}
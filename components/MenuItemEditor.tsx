@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { MenuItem, MenuCategory, EU_ALLERGENS } from '../utils/menu';
+
+interface MenuItemEditorProps {
+  item: Partial<MenuItem>;
+  category: string;
+  categories: { [key: string]: MenuCategory };
+  isSaving: boolean;
+  onSave: (fields: Partial<MenuItem>, category: string) => void;
+  onCancel: () => void;
+}
+
+// Options booléennes éditables d'un plat
+const FLAGS: Array<{ key: keyof MenuItem; label: string }> = [
+  { key: 'vegetarian', label: '🥗 Végétarien' },
+  { key: 'vegan', label: '🌱 Vegan' },
+  { key: 'halal', label: '☪️ Halal' },
+  { key: 'popular', label: '⭐ Populaire' },
+  { key: 'spicy', label: '🌶️ Épicé' },
+  { key: 'cheeseRemovable', label: '🧀 Sans fromage possible' },
+];
+
+// Convertir "tomate, basilic" en liste
+const parseList = (value: string) =>
+  value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+export default function MenuItemEditor({
+  item,
+  category,
+  categories,
+  isSaving,
+  onSave,
+  onCancel,
+}: MenuItemEditorProps) {
+  const [draft, setDraft] = useState<Partial<MenuItem>>(item);
+  const [targetCategory, setTargetCategory] = useState(category);
+  const [ingredientsText, setIngredientsText] = useState((item.ingredients || []).join(', '));
+  const [tagsText, setTagsText] = useState((item.tags || []).join(', '));
+  const [modifiersText, setModifiersText] = useState(
+    item.modifierGroups && item.modifierGroups.length > 0 ? JSON.stringify(item.modifierGroups, null, 2) : ''
+  );
+  const [modifiersError, setModifiersError] = useState<string | null>(null);
+  const [translationsText, setTranslationsText] = useState(
+    item.translations && Object.keys(item.translations).length > 0 ? JSON.stringify(item.translations, null, 2) : ''
+  );
+  const [translationsError, setTranslationsError] = useState<string | null>(null);
+
+  const update = (fields: Partial<MenuItem>) => setDraft(prev => ({ ...prev, ...fields }));
+
+  const toggleAllergen = (allergen: string) => {
+    const allergens = draft.allergens || [];
+    update({
+      allergens: allergens.includes(allergen)
+        ? allergens.filter(entry => entry !== allergen)
+        : [...allergens, allergen],
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    // Les règles des options (min, max, identifiants) sont vérifiées par le serveur
+    let modifierGroups: MenuItem['modifierGroups'] | null;
+    try {
+      modifierGroups = modifiersText.trim() ? JSON.parse(modifiersText) : null;
+      setModifiersError(null);
+    } catch (error: any) {
+      setModifiersError(`JSON invalide : ${error?.message}`);
+      return;
+    }
+
+    let translations: MenuItem['translations'] | null;
+    try {
+      translations = translationsText.trim() ? JSON.parse(translationsText) : null;
+      setTranslationsError(null);
+    } catch (error: any) {
+      setTranslationsError(`JSON invalide : ${error?.message}`);
+      return;
+    }
+
+    onSave({
+      ...draft,
+      ingredients: parseList(ingredientsText),
+      tags: parseList(tagsText),
+      // null retire les options d'un plat existant
+      modifierGroups: modifierGroups ?? (item.id ? null : undefined),
+      translations: translations ?? (item.id ? null : undefined),
+    }, targetCategory);
+  };
+
+  const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-card p-4 space-y-4">
+      <h3 className="text-lg font-bold text-gray-800">
+        {item.id ? `Modifier « ${item.name} »` : 'Nouveau plat'}
+      </h3>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="block">
+          <span className="text-sm text-gray-600">Nom</span>
+          <input
+            className={inputClass}
+            value={draft.name || ''}
+            onChange={(e) => update({ name: e.target.value })}
+            required
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Prix</span>
+          <input
+            className={inputClass}
+            type="number"
+            step="0.1"
+            min="0"
+            value={draft.price ?? ''}
+            onChange={(e) => update({ price: Number(e.target.value) })}
+            required
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Catégorie</span>
+          <select className={inputClass} value={targetCategory} onChange={(e) => setTargetCategory(e.target.value)}>
+            {Object.entries(categories).map(([key, cat]) => (
+              <option key={key} value={key}>{cat.icon} {cat.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-sm text-gray-600">Temps de préparation</span>
+          <input
+            className={inputClass}
+            value={draft.preparationTime || ''}
+            onChange={(e) => update({ preparationTime: e.target.value })}
+            placeholder="12 min"
+          />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="text-sm text-gray-600">Description</span>
+        <textarea
+          className={inputClass}
+          rows={2}
+          value={draft.description || ''}
+          onChange={(e) => update({ description: e.target.value })}
+        />
+      </label>
+
+      <label className="block">
+        <span className="text-sm text-gray-600">Ingrédients (séparés par des virgules)</span>
+        <input className={inputClass} value={ingredientsText} onChange={(e) => setIngredientsText(e.target.value)} />
+      </label>
+
+      <label className="block">
+        <span className="text-sm text-gray-600">Tags (séparés par des virgules)</span>
+        <input className={inputClass} value={tagsText} onChange={(e) => setTagsText(e.target.value)} />
+      </label>
+
+      <div>
+        <p className="text-sm text-gray-600 mb-2">Allergènes</p>
+        <div className="flex flex-wrap gap-2">
+          {EU_ALLERGENS.map(allergen => (
+            <button
+              key={allergen}
+              type="button"
+              onClick={() => toggleAllergen(allergen)}
+              className={`filter-button ${(draft.allergens || []).includes(allergen) ? 'active' : 'inactive'} border border-gray-200`}
+            >
+              {allergen}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block">
+        <span className="text-sm text-gray-600">Options du plat (JSON : taille, suppléments, retraits, cuisson)</span>
+        <textarea
+          className={`${inputClass} font-mono text-xs`}
+          rows={modifiersText ? 8 : 2}
+          value={modifiersText}
+          onChange={(e) => setModifiersText(e.target.value)}
+          placeholder='[{"id": "taille", "name": "Taille", "kind": "size", "min": 1, "max": 1, "options": [{"id": "normale", "label": "Normale", "isDefault": true}, {"id": "grande", "label": "Grande", "priceDelta": 4}]}]'
+        />
+        {modifiersError && <p className="text-sm text-red-600 mt-1">{modifiersError}</p>}
+      </label>
+
+      <label className="block">
+        <span className="text-sm text-gray-600">Traductions (JSON par langue : nom et description)</span>
+        <textarea
+          className={`${inputClass} font-mono text-xs`}
+          rows={translationsText ? 6 : 2}
+          value={translationsText}
+          onChange={(e) => setTranslationsText(e.target.value)}
+          placeholder='{"en": {"name": "Margherita Pizza", "description": "Tomato sauce, mozzarella and fresh basil"}}'
+        />
+        {translationsError && <p className="text-sm text-red-600 mt-1">{translationsError}</p>}
+      </label>
+
+      <div className="flex flex-wrap gap-2">
+        {FLAGS.map(flag => (
+          <button
+            key={flag.key}
+            type="button"
+            onClick={() => update({ [flag.key]: !draft[flag.key] } as Partial<MenuItem>)}
+            className={`filter-button ${draft[flag.key] ? 'active' : 'inactive'} border border-gray-200`}
+          >
+            {flag.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="bg-primary-500 hover:bg-primary-600 disabled:opacity-60 text-white font-semibold px-6 py-3 rounded-lg transition-colors mobile-tap"
+        >
+          {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-lg transition-colors mobile-tap"
+        >
+          Annuler
+        </button>
+      </div>
+    </form>
+  );
+}
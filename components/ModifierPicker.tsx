@@ -0,0 +1,62 @@
+import { MenuItem } from '../utils/menu';
+import { toggleModifierOption } from '../utils/modifiers';
+import { formatPrice } from '../utils/useCart';
+import { translate } from '../utils/i18n';
+
+interface ModifierPickerProps {
+  item: MenuItem;
+  selected: string[];
+  onChange: (options: string[]) => void;
+  currency: string;
+  // Langue de l'interface (le plat est déjà traduit)
+  language: string;
+  disabled?: boolean;
+}
+
+// Choix des options d'un plat sur sa carte (taille, suppléments, retraits, cuisson)
+export default function ModifierPicker({
+  item,
+  selected,
+  onChange,
+  currency,
+  language,
+  disabled,
+}: ModifierPickerProps) {
+  if (!item.modifierGroups || item.modifierGroups.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-3">
+      {item.modifierGroups.map(group => (
+        <div key={group.id}>
+          <p className="text-xs text-gray-500 mb-1">
+            {group.name}
+            {group.min > 0
+              ? ` ${translate(language, 'modifiers.required')}`
+              : group.max > 1 ? ` ${translate(language, 'modifiers.max', { max: group.max })}` : ''}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {group.options.map(option => {
+              const isSelected = selected.includes(option.id);
+              return (
+                <button
+                  key={option.id}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onChange(toggleModifierOption(item, selected, option.id))}
+                  className={`px-2 py-1 rounded text-xs border transition-colors mobile-tap ${
+                    isSelected
+                      ? 'bg-primary-500 border-primary-500 text-white'
+                      : 'bg-white border-gray-200 text-gray-700 hover:border-primary-300'
+                  }`}
+                >
+                  {option.label}
+                  {option.priceDelta ? ` ${option.priceDelta > 0 ? '+' : '−'}${formatPrice(Math.abs(option.priceDelta), currency)}` : ''}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import AdminLogin from '../../components/AdminLogin';
+import MenuItemEditor from '../../components/MenuItemEditor';
+import { adminFetch, getAdminToken, setAdminToken } from '../../utils/adminClient';
+import { MenuData, MenuItem } from '../../utils/menu';
+import { useAvailability } from '../../utils/useAvailability';
+import { isItemAvailable } from '../../utils/availability';
+import type { MenuVersionSummary } from '../../utils/menuSource';
+
+// Déplacer un élément d'une liste (réorganisation)
+const moveEntry = <T,>(list: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) return list;
+  const copy = [...list];
+  [copy[index], copy[target]] = [copy[target], copy[index]];
+  return copy;
+};
+
+export default function AdminMenu() {
+  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [menuData, setMenuData] = useState<MenuData | null>(null);
+  const [versions, setVersions] = useState<MenuVersionSummary[]>([]);
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ item: Partial<MenuItem>; category: string } | null>(null);
+  const [newCategory, setNewCategory] = useState({ key: '', name: '', icon: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Disponibilités en direct (mises à jour par le flux SSE)
+  const availability = useAvailability();
+
+  useEffect(() => {
+    setIsLoggedIn(Boolean(getAdminToken()));
+  }, []);
+
+  // Charger le menu et l'historique une fois connecté
+  useEffect(() => {
+    if (!isLoggedIn) return;
+
+    const loadData = async () => {
+      try {
+        const response = await fetch('/api/menu');
+        const data: MenuData = await response.json();
+        setMenuData(data);
+        setSelectedCategory(prev => prev || Object.keys(data.categories)[0] || null);
+        setVersions(await adminFetch('/api/menu/versions'));
+      } catch (error: any) {
+        setNotice({ type: 'error', text: error?.message || 'Erreur lors du chargement' });
+        if (!getAdminToken()) setIsLoggedIn(false);
+      }
+    };
+    loadData();
+  }, [isLoggedIn]);
+
+  // Exécuter une modification et rafraîchir le menu et les versions
+  const runEdit = async (url: string, method: string, body: unknown, successText: string) => {
+    setIsSaving(true);
+    setNotice(null);
+
+    try {
+      const result = await adminFetch<{ menu: MenuData }>(url, { method, body });
+      setMenuData(result.menu);
+      setVersions(await adminFetch('/api/menu/versions'));
+      setNotice({ type: 'success', text: successText });
+      return true;
+    } catch (error: any) {
+      setNotice({ type: 'error', text: error?.message || 'Erreur lors de l\'enregistrement' });
+      if (!getAdminToken()) setIsLoggedIn(false);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveItem = async (fields: Partial<MenuItem>, category: string) => {
+    if (!editing) return;
+    const saved = editing.item.id
+      ? await runEdit(`/api/menu/items/${editing.item.id}`, 'PATCH', { ...fields, category }, 'Plat enregistré')
+      : await runEdit('/api/menu/items', 'POST', { ...fields, category }, 'Plat ajouté');
+    if (saved) {
+      setEditing(null);
+      setSelectedCategory(category);
+    }
+  };
+
+  const deleteItem = (item: MenuItem) => {
+    if (!window.confirm(`Supprimer « ${item.name} » ?`)) return;
+    runEdit(`/api/menu/items/${item.id}`, 'DELETE', undefined, 'Plat supprimé');
+  };
+
+  const toggleItemFlag = (item: MenuItem, flag: 'popular' | 'spicy' | 'cheeseRemovable') => {
+    runEdit(`/api/menu/items/${item.id}`, 'PATCH', { [flag]: !item[flag] }, 'Plat mis à jour');
+  };
+
+  // Mettre un plat en rupture ("86") ou fixer son stock
+  const updateAvailability = async (item: MenuItem, changes: { available?: boolean; stock?: number | null }) => {
+    setNotice(null);
+    try {
+      await adminFetch(`/api/availability/${item.id}`, { method: 'PATCH', body: changes });
+    } catch (error: any) {
+      setNotice({ type: 'error', text: error?.message || 'Erreur lors de la mise à jour du stock' });
+      if (!getAdminToken()) setIsLoggedIn(false);
+    }
+  };
+
+  const moveCategory = (index: number, offset: number) => {
+    if (!menuData) return;
+    const order = moveEntry(Object.keys(menuData.categories), index, offset);
+    runEdit('/api/menu/categories', 'PUT', { order }, 'Catégories réorganisées');
+  };
+
+  const moveItem = (category: string, index: number, offset: number) => {
+    if (!menuData) return;
+    const itemOrder = moveEntry(menuData.menu[category].map(item => item.id), index, offset);
+    runEdit(`/api/menu/categories/${category}`, 'PATCH', { itemOrder }, 'Plats réorganisés');
+  };
+
+  const renameCategory = (key: string) => {
+    if (!menuData) return;
+    const name = window.prompt('Nouveau nom de la catégorie', menuData.categories[key].name);
+    if (name) {
+      runEdit(`/api/menu/categories/${key}`, 'PATCH', { name }, 'Catégorie renommée');
+    }
+  };
+
+  const deleteCategory = async (key: string) => {
+    if (!window.confirm(`Supprimer la catégorie « ${key} » ?`)) return;
+    if (await runEdit(`/api/menu/categories/${key}`, 'DELETE', undefined, 'Catégorie supprimée')) {
+      setSelectedCategory(null);
+    }
+  };
+
+  const addCategory = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (await runEdit('/api/menu/categories', 'POST', newCategory, 'Catégorie ajoutée')) {
+      setSelectedCategory(newCategory.key);
+      setNewCategory({ key: '', name: '', icon: '' });
+    }
+  };
+
+  const restoreVersion = (version: MenuVersionSummary) => {
+    if (!window.confirm(`Revenir à la version du ${new Date(version.createdAt).toLocaleString('fr-FR')} ?`)) return;
+    runEdit(`/api/menu/versions/${version.id}`, 'POST', undefined, 'Version restaurée');
+  };
+
+  if (!isLoggedIn) {
+    return <AdminLogin onLogin={() => setIsLoggedIn(true)} />;
+  }
+
+  if (!menuData) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <h2 className="text-2xl font-bold text-gray-800">Chargement du menu...</h2>
+      </div>
+    );
+  }
+
+  const categoryKeys = Object.keys(menuData.categories);
+  const items = selectedCategory ? menuData.menu[selectedCategory] || [] : [];
+
+  return (
+    <>
+      <Head>
+        <title>FOODVOICE - Back-office</title>
+      </Head>
+
+      <div className="min-h-screen">
+        <header className="bg-white shadow-lg">
+          <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-gray-800">⚙️ Back-office · {menuData.restaurant.name}</h1>
+            <div className="flex items-center space-x-4 text-sm">
+              <Link href="/admin/tables" className="text-gray-600 hover:text-gray-900 mobile-tap">
+                🪑 Tables et QR codes
+              </Link>
+              <button
+                onClick={() => {
+                  setAdminToken(null);
+                  setIsLoggedIn(false);
+                }}
+                className="text-gray-600 hover:text-gray-900 mobile-tap"
+              >
+                Se déconnecter
+              </button>
+            </div>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 py-6 grid gap-6 lg:grid-cols-4">
+          {notice && (
+            <div className={`lg:col-span-4 chat-bubble ${notice.type === 'error' ? 'error' : 'user'} whitespace-pre-line`}>
+              {notice.text}
+            </div>
+          )}
+
+          {/* Catégories */}
+          <section className="bg-white rounded-2xl shadow-card p-4 space-y-2">
+            <h2 className="text-lg font-bold text-gray-800 mb-2">Catégories</h2>
+            {categoryKeys.map((key, index) => (
+              <div
+                key={key}
+                className={`flex items-center justify-between rounded-lg px-2 py-1 ${
+                  selectedCategory === key ? 'bg-primary-50' : ''
+                }`}
+              >
+                <button onClick={() => setSelectedCategory(key)} className="flex-1 text-left mobile-tap">
+                  {menuData.categories[key].icon} {menuData.categories[key].name}
+                  <span className="text-xs text-gray-500 ml-1">({(menuData.menu[key] || []).length})</span>
+                </button>
+                <div className="flex items-center space-x-1 text-sm">
+                  <button onClick={() => moveCategory(index, -1)} disabled={isSaving || index === 0} title="Monter">↑</button>
+                  <button onClick={() => moveCategory(index, 1)} disabled={isSaving || index === categoryKeys.length - 1} title="Descendre">↓</button>
+                  <button onClick={() => renameCategory(key)} disabled={isSaving} title="Renommer">✏️</button>
+                  <button onClick={() => deleteCategory(key)} disabled={isSaving} title="Supprimer">🗑️</button>
+                </div>
+              </div>
+            ))}
+
+            <form onSubmit={addCategory} className="pt-3 border-t border-gray-200 space-y-2">
+              <input
+                value={newCategory.key}
+                onChange={(e) => setNewCategory(prev => ({ ...prev, key: e.target.value }))}
+                placeholder="clé (ex: plats-du-jour)"
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm"
+                required
+              />
+              <div className="flex space-x-2">
+                <input
+                  value={newCategory.icon}
+                  onChange={(e) => setNewCategory(prev => ({ ...prev, icon: e.target.value }))}
+                  placeholder="🍽️"
+                  className="w-16 px-3 py-2 rounded-lg border border-gray-200 text-sm"
+                />
+                <input
+                  value={newCategory.name}
+                  onChange={(e) => setNewCategory(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Nom"
+                  className="flex-1 px-3 py-2 rounded-lg border border-gray-200 text-sm"
+                  required
+                />
+              </div>
+              <button type="submit" disabled={isSaving} className="quick-action w-full">
+                + Ajouter une catégorie
+              </button>
+            </form>
+          </section>
+
+          {/* Plats de la catégorie sélectionnée */}
+          <section className="lg:col-span-2 space-y-4">
+            {editing ? (
+              <MenuItemEditor
+                key={editing.item.id || 'new'}
+                item={editing.item}
+                category={editing.category}
+                categories={menuData.categories}
+                isSaving={isSaving}
+                onSave={saveItem}
+                onCancel={() => setEditing(null)}
+              />
+            ) : (
+              selectedCategory && (
+                <button
+                  onClick={() => setEditing({
+                    item: { price: 0, allergens: [], ingredients: [], tags: [], preparationTime: '10 min' },
+                    category: selectedCategory,
+                  })}
+                  className="w-full bg-primary-500 hover:bg-primary-600 text-white font-semibold py-3 rounded-lg transition-colors mobile-tap"
+                >
+                  + Nouveau plat
+                </button>
+              )
+            )}
+
+            {items.map((item, index) => (
+              <div key={item.id} className="bg-white rounded-2xl shadow-card p-4">
+                <div className="flex justify-between items-start">
+                  <div className="min-w-0">
+                    <h3 className="font-bold text-gray-800">
+                      {item.name}
+                      <span className="text-primary-600 ml-2">{item.price}{menuData.restaurant.currency}</span>
+                    </h3>
+                    <p className="text-sm text-gray-600">{item.ingredients.join(', ')}</p>
+                    {item.allergens.length > 0 && (
+                      <p className="text-xs text-red-700 mt-1">Allergènes : {item.allergens.join(', ')}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1 text-sm flex-shrink-0 ml-2">
+                    <button onClick={() => moveItem(selectedCategory!, index, -1)} disabled={isSaving || index === 0} title="Monter">↑</button>
+                    <button onClick={() => moveItem(selectedCategory!, index, 1)} disabled={isSaving || index === items.length - 1} title="Descendre">↓</button>
+                    <button onClick={() => setEditing({ item, category: selectedCategory! })} disabled={isSaving} title="Modifier">✏️</button>
+                    <button onClick={() => deleteItem(item)} disabled={isSaving} title="Supprimer">🗑️</button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mt-3">
+                  <button
+                    onClick={() => toggleItemFlag(item, 'popular')}
+                    disabled={isSaving}
+                    className={`filter-button ${item.popular ? 'active' : 'inactive'} border border-gray-200`}
+                  >
+                    ⭐ Populaire
+                  </button>
+                  <button
+                    onClick={() => toggleItemFlag(item, 'spicy')}
+                    disabled={isSaving}
+                    className={`filter-button ${item.spicy ? 'active' : 'inactive'} border border-gray-200`}
+                  >
+                    🌶️ Épicé
+                  </button>
+                  <button
+                    onClick={() => toggleItemFlag(item, 'cheeseRemovable')}
+                    disabled={isSaving}
+                    className={`filter-button ${item.cheeseRemovable ? 'active' : 'inactive'} border border-gray-200`}
+                  >
+                    🧀 Sans fromage possible
+                  </button>
+                </div>
+
+                {/* Disponibilité en service */}
+                <div className="flex items-center flex-wrap gap-2 mt-3 pt-3 border-t border-gray-100">
+                  <button
+                    onClick={() => updateAvailability(item, isItemAvailable(availability, item.id)
+                      ? { available: false }
+                      // Remettre en vente un plat épuisé par le stock lève aussi le stock
+                      : { available: true, ...(availability[item.id]?.stock === 0 ? { stock: null } : {}) }
+                    )}
+                    className={`filter-button border border-gray-200 ${
+                      isItemAvailable(availability, item.id) ? 'active' : 'bg-red-500 text-white'
+                    }`}
+                  >
+                    {isItemAvailable(availability, item.id) ? '✅ Disponible' : '🚫 Épuisé (86)'}
+                  </button>
+                  <label className="flex items-center space-x-2 text-sm text-gray-600">
+                    <span>Stock :</span>
+                    <input
+                      key={`${item.id}-${availability[item.id]?.updatedAt || ''}`}
+                      type="number"
+                      min="0"
+                      defaultValue={availability[item.id]?.stock ?? ''}
+                      placeholder="illimité"
+                      onBlur={(e) => {
+                        const stock = e.target.value === '' ? null : Number(e.target.value);
+                        if (stock !== (availability[item.id]?.stock ?? null)) {
+                          updateAvailability(item, { stock });
+                        }
+                      }}
+                      className="w-24 px-2 py-1 rounded-lg border border-gray-200"
+                    />
+                  </label>
+                </div>
+              </div>
+            ))}
+          </section>
+
+          {/* Historique des versions */}
+          <section className="bg-white rounded-2xl shadow-card p-4 space-y-2">
+            <h2 className="text-lg font-bold text-gray-800 mb-2">Historique</h2>
+            {versions.length === 0 && (
+              <p className="text-sm text-gray-500">Aucune modification pour le moment</p>
+            )}
+            {versions.map((version, index) => (
+              <div key={version.id} className="flex items-start justify-between text-sm border-b border-gray-100 pb-2">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800">{version.summary}</p>
+                  <p className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString('fr-FR')}</p>
+                </div>
+                {index > 0 && (
+                  <button
+                    onClick={() => restoreVersion(version)}
+                    disabled={isSaving}
+                    className="text-secondary-600 hover:text-secondary-800 flex-shrink-0 ml-2 mobile-tap"
+                  >
+                    Restaurer
+                  </button>
+                )}
+              </div>
+            ))}
+          </section>
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import AdminLogin from '../../components/AdminLogin';
+import { adminFetch, getAdminToken, setAdminToken } from '../../utils/adminClient';
+import { TableWithLink } from '../../utils/tables';
+
+// Tables du restaurant et planche de QR codes à imprimer
+export default function AdminTables() {
+  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [tables, setTables] = useState<TableWithLink[] | null>(null);
+  const [count, setCount] = useState(10);
+  const [newTable, setNewTable] = useState({ id: '', label: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    setIsLoggedIn(Boolean(getAdminToken()));
+  }, []);
+
+  // Les QR codes sont générés côté serveur, avec les liens signés
+  const loadTables = useCallback(async () => {
+    try {
+      setTables(await adminFetch<TableWithLink[]>('/api/tables?qr=svg'));
+    } catch (error: any) {
+      setNotice({ type: 'error', text: error?.message || 'Erreur lors du chargement' });
+      if (!getAdminToken()) setIsLoggedIn(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isLoggedIn) loadTables();
+  }, [isLoggedIn, loadTables]);
+
+  // Exécuter une modification puis recharger la liste
+  const runEdit = async (url: string, method: string, body: unknown, successText: string) => {
+    setIsSaving(true);
+    setNotice(null);
+
+    try {
+      await adminFetch(url, { method, body });
+      await loadTables();
+      setNotice({ type: 'success', text: successText });
+      return true;
+    } catch (error: any) {
+      setNotice({ type: 'error', text: error?.message || 'Erreur lors de l\'enregistrement' });
+      if (!getAdminToken()) setIsLoggedIn(false);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addNumberedTables = (event: React.FormEvent) => {
+    event.preventDefault();
+    runEdit('/api/tables', 'POST', { count }, `${count} table${count > 1 ? 's' : ''} ajoutée${count > 1 ? 's' : ''}`);
+  };
+
+  const addNamedTable = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const body = { id: newTable.id.trim(), ...(newTable.label.trim() ? { label: newTable.label.trim() } : {}) };
+    if (await runEdit('/api/tables', 'POST', body, 'Table ajoutée')) {
+      setNewTable({ id: '', label: '' });
+    }
+  };
+
+  const renameTable = (table: TableWithLink) => {
+    const label = window.prompt('Nouveau nom de la table', table.label);
+    if (label) {
+      runEdit(`/api/tables/${encodeURIComponent(table.id)}`, 'PATCH', { label }, 'Table renommée');
+    }
+  };
+
+  const deleteTable = (table: TableWithLink) => {
+    if (!window.confirm(`Supprimer « ${table.label} » ? Son QR code ne fonctionnera plus.`)) return;
+    runEdit(`/api/tables/${encodeURIComponent(table.id)}`, 'DELETE', undefined, 'Table supprimée');
+  };
+
+  if (!isLoggedIn) {
+    return <AdminLogin onLogin={() => setIsLoggedIn(true)} />;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>FOODVOICE - Tables et QR codes</title>
+      </Head>
+
+      <div className="min-h-screen">
+        <header className="bg-white shadow-lg print:hidden">
+          <div className="max-w-7xl mx-auto px-4 py-4 flex items-center justify-between">
+            <h1 className="text-2xl font-bold text-gray-800">🪑 Tables et QR codes</h1>
+            <div className="flex items-center space-x-4 text-sm">
+              <Link href="/admin" className="text-gray-600 hover:text-gray-900 mobile-tap">
+                ← Menu
+              </Link>
+              <button
+                onClick={() => {
+                  setAdminToken(null);
+                  setIsLoggedIn(false);
+                }}
+                className="text-gray-600 hover:text-gray-900 mobile-tap"
+              >
+                Se déconnecter
+              </button>
+            </div>
+          </div>
+        </header>
+
+        <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+          {notice && (
+            <div className={`chat-bubble ${notice.type === 'error' ? 'error' : 'user'} whitespace-pre-line print:hidden`}>
+              {notice.text}
+            </div>
+          )}
+
+          <section className="bg-white rounded-2xl shadow-card p-4 grid gap-4 md:grid-cols-3 items-end print:hidden">
+            <form onSubmit={addNumberedTables} className="space-y-2">
+              <label className="block text-sm font-semibold text-gray-700">Ajouter des tables numérotées</label>
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={count}
+                  onChange={(e) => setCount(Number(e.target.value))}
+                  className="w-24 px-3 py-2 rounded-lg border border-gray-200 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="bg-primary-500 hover:bg-primary-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm font-medium mobile-tap"
+                >
+                  Ajouter
+                </button>
+              </div>
+            </form>
+
+            <form onSubmit={addNamedTable} className="space-y-2">
+              <label className="block text-sm font-semibold text-gray-700">Ajouter une table nommée</label>
+              <div className="flex space-x-2">
+                <input
+                  value={newTable.id}
+                  onChange={(e) => setNewTable(prev => ({ ...prev, id: e.target.value }))}
+                  placeholder="id (ex: terrasse-3)"
+                  className="w-36 px-3 py-2 rounded-lg border border-gray-200 text-sm"
+                  required
+                />
+                <input
+                  value={newTable.label}
+                  onChange={(e) => setNewTable(prev => ({ ...prev, label: e.target.value }))}
+                  placeholder="Nom (ex: Terrasse 3)"
+                  className="flex-1 px-3 py-2 rounded-lg border border-gray-200 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="bg-primary-500 hover:bg-primary-600 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm font-medium mobile-tap"
+                >
+                  Ajouter
+                </button>
+              </div>
+            </form>
+
+            <button
+              onClick={() => window.print()}
+              disabled={!tables || tables.length === 0}
+              className="bg-gray-800 hover:bg-gray-900 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm font-medium mobile-tap"
+            >
+              🖨️ Imprimer la planche de QR codes
+            </button>
+          </section>
+
+          {!tables && <p className="text-gray-600">Chargement des tables...</p>}
+
+          {tables && tables.length === 0 && (
+            <p className="text-gray-600 print:hidden">Aucune table : ajoutez-en pour générer leurs QR codes.</p>
+          )}
+
+          {/* Planche à imprimer : une carte par table, à découper et poser sur la table */}
+          {tables && tables.length > 0 && (
+            <section className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-4 print:grid-cols-3 print:gap-2">
+              {tables.map(table => (
+                <div
+                  key={table.id}
+                  className="bg-white rounded-2xl shadow-card p-4 text-center break-inside-avoid print:shadow-none print:border print:border-gray-300 print:rounded-none"
+                >
+                  <p className="text-xl font-bold text-gray-800">{table.label}</p>
+                  {table.qrSvg && (
+                    <div
+                      className="mx-auto my-3 w-40 h-40"
+                      dangerouslySetInnerHTML={{ __html: table.qrSvg }}
+                    />
+                  )}
+                  <p className="text-sm text-gray-600">🎤 Scannez pour commander avec Fred</p>
+                  <p className="text-xs text-gray-400 break-all mt-2 print:hidden">{table.url}</p>
+                  <div className="flex justify-center space-x-3 mt-3 text-sm print:hidden">
+                    <button onClick={() => renameTable(table)} disabled={isSaving} title="Renommer">✏️</button>
+                    <button onClick={() => deleteTable(table)} disabled={isSaving} title="Supprimer">🗑️</button>
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { setItemAvailability } from '../../../utils/availabilityStore';
+import { loadMenu } from '../../../utils/menuSource';
+import { findMenuItem } from '../../../utils/menu';
+import { requireAdmin } from '../../../utils/adminAuth';
+
+// Basculer un plat en rupture ("86") ou fixer son stock : { available?, stock? }
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'PATCH') {
+    res.setHeader('Allow', 'PATCH');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const itemId = Number(req.query.id);
+    if (!findMenuItem(await loadMenu(), itemId)) {
+      return res.status(404).json({ error: 'Plat introuvable' });
+    }
+
+    const { available, stock } = req.body || {};
+
+    if (available !== undefined && typeof available !== 'boolean') {
+      return res.status(400).json({ error: 'Valeur invalide', details: '"available" doit être un booléen' });
+    }
+    if (stock !== undefined && stock !== null && !(Number.isInteger(stock) && stock >= 0)) {
+      return res.status(400).json({ error: 'Stock invalide', details: '"stock" doit être un entier positif ou null' });
+    }
+
+    return res.status(200).json(await setItemAvailability(itemId, { available, stock }));
+
+  } catch (error: any) {
+    console.error('Erreur API Disponibilité:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
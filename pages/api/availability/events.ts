@@ -0,0 +1,48 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAvailability, subscribeToAvailability } from '../../../utils/availabilityStore';
+
+// Le flux reste ouvert : Next.js ne doit pas signaler de réponse manquante
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
+
+// Intervalle du battement de cœur pour garder la connexion ouverte
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// Flux Server-Sent Events des disponibilités (menu client)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // S'abonner avant de lire l'état initial pour ne rien rater
+  const unsubscribe = subscribeToAvailability((entry) => send('availability', entry));
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  });
+
+  try {
+    send('snapshot', await getAvailability());
+  } catch (error) {
+    console.error('Erreur lors du chargement des disponibilités:', error);
+    send('error', { error: 'Impossible de charger les disponibilités' });
+  }
+}
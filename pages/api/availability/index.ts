@@ -0,0 +1,21 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getAvailability } from '../../../utils/availabilityStore';
+
+// Disponibilités des plats (public)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  try {
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json(await getAvailability());
+  } catch (error: any) {
+    console.error('Erreur API Disponibilités:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
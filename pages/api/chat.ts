@@ -1,50 +1,55 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import fetch from 'node-fetch';
-
-// Interface pour la réponse ChatGPT
-interface ChatGPTResponse {
-  choices: Array<{
-    message: {
-      content: string;
-      role: string;
-    };
-    finish_reason: string;
-  }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+import { getAIProvider, AIProviderError, ChatMessage, ToolCall } from '../../utils/ai';
+import { loadMenu } from '../../utils/menuSource';
+import { MenuData, getAllItems, localizeMenu, localizeMenuItem } from '../../utils/menu';
+import { describeFilter, mergeMenuFilters } from '../../utils/menuFilters';
+import { getAvailability } from '../../utils/availabilityStore';
+import { AvailabilityMap, isItemAvailable } from '../../utils/availability';
+import { ChatActions, buildChatTools, applyToolCalls } from '../../utils/chatTools';
+import { ActionRejection, sanitizeChatActions, mergeChatActions } from '../../utils/chatActions';
+import { GuestProfile, isGuestToken, isProfileEmpty, profileToFilters, describeGuestProfile } from '../../utils/guestProfile';
+import { getGuestProfile } from '../../utils/guestProfileStore';
+import { SafetyViolation, extractRestrictions, mergeRestrictions, restrictionsToFilters, guardSentence, guardResponse } from '../../utils/allergenGuard';
+import { ChatSession, SessionViewState, createChatSession } from '../../utils/session';
+import { getSession, updateSession } from '../../utils/sessionStore';
+import { compactSession } from '../../utils/sessionSummary';
+import { resolveTableTicket } from '../../utils/tableStore';
+import { Table, TableTicket, isTableTicket } from '../../utils/tables';
+import { logSafetyViolations } from '../../utils/safetyLog';
+import { takeSentences } from '../../utils/chatStream';
+import { signSpeech, signSpeechSentences } from '../../utils/tts/signing';
+import { SignedSpeech } from '../../utils/tts/types';
+import { Locale, LOCALE_NAMES_FR, resolveLocale } from '../../utils/i18n';
 
+// En mode flux, la réponse reste ouverte après le retour du handler
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
+
+// Ni le menu ni l'historique ne sont acceptés du client : ils sont chargés côté serveur
 interface ChatRequest {
   message: string;
-  menuData?: any;
-  conversationHistory?: Array<{
-    role: 'user' | 'assistant';
-    content: string;
-  }>;
+  // true : réponse en Server-Sent Events (delta, actions, done, error)
+  stream?: boolean;
+  // Jeton du client : son profil alimentaire et sa session de conversation sont chargés côté serveur
+  guestToken?: string;
+  // Langue du client (reconnue dans sa voix ou choisie) ; à défaut, celle de son profil
+  language?: string;
+  // Lien signé du QR code de la table, enregistré dans la session
+  table?: TableTicket;
 }
 
 interface ChatResponse {
   response: string;
-  actions?: {
-    filterCategory?: string;
-    setFilters?: {
-      vegetarian?: boolean;
-      vegan?: boolean;
-      halal?: boolean;
-      noCheese?: boolean;
-      noAllergens?: boolean;
-      popular?: boolean;
-    };
-    customFilters?: {
-      withCheese?: boolean;
-      withMeat?: boolean;
-      spicy?: boolean;
-    };
-    recommendedItems?: number[];
-    showItems?: number[];
+  actions?: ChatActions;
+  // Phrases de la réponse signées pour la voix serveur (/api/speak)
+  speech: SignedSpeech[];
+  // Actions du modèle refusées ou corrigées côté serveur, phrases corrigées par le garde-fou allergènes
+  debug?: {
+    rejected?: ActionRejection[];
+    safety?: SafetyViolation[];
   };
 }
 
@@ -53,6 +58,45 @@ interface ErrorResponse {
   details?: string;
 }
 
+// Nombre maximum d'allers-retours avec le modèle (correction d'outils, réponse finale)
+const MAX_TOOL_ROUNDS = 3;
+
+// Ce que le client a sous les yeux, pour que Fred enchaîne sans qu'il ait à le répéter
+const describeSessionState = (session: ChatSession, menuData: MenuData, language: Locale) => {
+  const items = getAllItems(menuData);
+  const category = session.category === 'all'
+    ? 'tout le menu'
+    : menuData.categories[session.category]?.name || session.category;
+  const filters = session.filters
+    .map(filter => describeFilter(filter, menuData.restaurant.currency))
+    .join(', ');
+  const cart = session.cart.map(line => {
+    const item = items.find(entry => entry.id === line.itemId);
+    const name = item ? localizeMenuItem(item, language).name : `plat ${line.itemId}`;
+    return `${line.quantity} × ${name} (id ${line.itemId})`
+      + `${line.options?.length ? ` [${line.options.join(', ')}]` : ''}${line.note ? ` "${line.note}"` : ''}`;
+  }).join(', ');
+  return `Catégorie affichée : ${category}
+Filtres actifs : ${filters || 'aucun'}
+Panier (pas encore commandé) : ${cart || 'vide'}`;
+};
+
+// Catégorie et filtres après les actions de Fred (le panier est synchronisé par le client)
+const applyActionsToState = (state: SessionViewState, actions: ChatActions): Pick<SessionViewState, 'category' | 'filters'> => ({
+  category: actions.filterCategory || state.category,
+  filters: mergeMenuFilters(actions.setFilters || state.filters, actions.addFilters || []),
+});
+
+// Reprendre une action déjà envoyée, sans perdre le type de sa clé
+const copyAction = <K extends keyof ChatActions>(target: ChatActions, source: ChatActions, key: K) => {
+  target[key] = source[key];
+};
+
+// Événement Server-Sent Events du mode flux
+const writeEvent = (res: NextApiResponse, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<ChatResponse | ErrorResponse>
@@ -62,226 +106,366 @@ export default async function handler(
   }
 
   try {
-    const { message, menuData, conversationHistory = [] }: ChatRequest = req.body;
+    const { message, stream = false, guestToken, language: requestedLanguage, table: ticket }: ChatRequest = req.body;
 
     if (!message) {
       return res.status(400).json({ error: 'Message requis' });
     }
 
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey) {
-      return res.status(500).json({ 
-        error: 'Configuration serveur manquante',
-        details: 'Clé API OpenAI non configurée' 
+    if (req.body?.menuData !== undefined) {
+      console.warn('menuData envoyé par le client ignoré');
+    }
+    if (req.body?.conversationHistory !== undefined) {
+      console.warn('conversationHistory envoyé par le client ignoré (historique tenu par la session)');
+    }
+
+    // Fournisseur d'IA configuré (OpenAI, serveur local ou mock)
+    const provider = getAIProvider();
+
+    // Charger le menu de référence (mis en cache côté serveur)
+    let menuData: MenuData;
+    let availability: AvailabilityMap;
+    let profile: GuestProfile | undefined;
+    // Sans jeton, pas de session : chaque message est traité seul
+    let session: ChatSession | undefined;
+    let table: Table | undefined;
+    try {
+      menuData = await loadMenu();
+      availability = await getAvailability();
+      if (isGuestToken(guestToken)) {
+        profile = await getGuestProfile(guestToken);
+        session = (await getSession(guestToken)) || createChatSession(guestToken);
+      }
+      // Un lien de table invalide est ignoré : Fred répond, la commande sera refusée à l'envoi
+      table = isTableTicket(ticket) ? await resolveTableTicket(ticket) : undefined;
+    } catch (error) {
+      console.error('Erreur lors du chargement du menu:', error);
+      return res.status(500).json({
+        error: 'Menu indisponible',
+        details: 'Impossible de charger le menu du restaurant',
       });
     }
 
+    // Fred ne voit que les plats disponibles ; les ruptures sont listées à part
+    const isAvailable = (itemId: number) => isItemAvailable(availability, itemId);
+    const availableMenu: MenuData = {
+      ...menuData,
+      menu: Object.fromEntries(
+        Object.entries(menuData.menu).map(([key, items]) => [key, items.filter(item => isAvailable(item.id))])
+      ),
+    };
+    // Fred répond dans la langue du client et voit le menu traduit dans cette langue
+    const language = resolveLocale(requestedLanguage || profile?.language);
+    const soldOutNames = getAllItems(menuData)
+      .filter(item => !isAvailable(item.id))
+      .map(item => localizeMenuItem(item, language).name);
+    // Restrictions déclarées dans la conversation ("allergique aux noix") : gardées dans la session,
+    // elles restent appliquées une fois les échanges anciens résumés
+    const history = session?.history || [];
+    const conversationRestrictions = mergeRestrictions(
+      session?.restrictions || { allergens: [], ingredients: [] },
+      extractRestrictions(
+        [...history.filter(entry => entry.role === 'user').map(entry => entry.content), message],
+        menuData
+      )
+    );
+    const restrictions = mergeRestrictions(extractRestrictions([], menuData, profile), conversationRestrictions);
+    const profileFilters = [
+      ...(profile ? profileToFilters(profile) : []),
+      ...restrictionsToFilters(restrictions),
+    ];
+
     // Système prompt pour Fred le serveur digital
     const systemPrompt = `Tu es Fred, un serveur digital intelligent dans un restaurant. Tu dois comprendre les demandes des clients et adapter automatiquement l'interface pour leur montrer exactement ce qu'ils veulent voir.
 
 MENU DISPONIBLE :
-${menuData ? JSON.stringify(menuData, null, 2) : 'Menu non disponible'}
+${JSON.stringify(localizeMenu(availableMenu, language), null, 2)}
+
+PLATS EN RUPTURE (épuisés ce service) :
+${soldOutNames.length > 0 ? soldOutNames.join(', ') : 'Aucun'}
+Ne recommande JAMAIS un plat en rupture et ne l'ajoute jamais au panier. Si le client en demande un, dis-lui gentiment qu'il est épuisé et propose une alternative.
+${profile && !isProfileEmpty(profile) ? `
+PROFIL DU CLIENT (mémorisé, à respecter sans qu'il ait à le répéter) :
+${describeGuestProfile(profile)}
+Ne recommande JAMAIS un plat incompatible avec ce profil (régime, allergènes, ingrédients non désirés). Si le client en demande un, préviens-le clairement.
+` : ''}${restrictions.allergens.length + restrictions.ingredients.length > 0 ? `
+RESTRICTIONS DU CLIENT (sécurité) : ${[...restrictions.allergens, ...restrictions.ingredients].join(', ')}
+Vérifie toujours les allergènes et ingrédients du menu avant d'affirmer qu'un plat est "sans" quelque chose.
+` : ''}${session?.summary ? `
+RÉSUMÉ DES ÉCHANGES PRÉCÉDENTS (les plus récents suivent en entier) :
+${session.summary}
+` : ''}${session ? `
+ÉCRAN ACTUEL DU CLIENT :
+${describeSessionState(session, menuData, language)}
+add_filters complète les filtres actifs. N'ajoute pas au panier un plat qui y est déjà, sauf si le client en redemande.
+` : ''}
+${table ? `TABLE DU CLIENT : ${table.label} (les commandes envoyées depuis cet écran y seront servies)
+` : ''}LANGUE DU CLIENT : ${LOCALE_NAMES_FR[language]}
+Réponds TOUJOURS en ${LOCALE_NAMES_FR[language]}, même si ces consignes sont en français, et cite les plats avec les noms du menu ci-dessus. Les identifiants (plats, catégories, options) et les ingrédients des filtres restent ceux du menu.
 
 INTELLIGENCE AUTONOME :
-Tu dois analyser chaque demande client et décider intelligemment quelles actions prendre pour améliorer son expérience. Tu peux :
+Tu dois analyser chaque demande client et décider intelligemment quelles actions prendre pour améliorer son expérience. Tu disposes d'outils pour :
 
-1. CHANGER LA CATÉGORIE affichée (pizzas, pates, entrees, desserts, boissons, all)
-2. APPLIQUER DES FILTRES (végétarien, vegan, halal, sans fromage, populaire, sans allergènes)
-3. CRÉER DES FILTRES PERSONNALISÉS (avec viande, épicé, crémeux, etc.)
-4. RECOMMANDER des plats spécifiques
+1. CHANGER LA CATÉGORIE affichée (set_category)
+2. REMPLACER LES FILTRES (set_filters) : végétarien, vegan, halal, populaire, épicé ou non, avec/sans fromage, avec/sans un ingrédient, sans un allergène, prix maximum, temps de préparation maximum, tag
+3. AJOUTER DES FILTRES à ceux déjà actifs (add_filters), quand le client précise sa demande
+4. RECOMMANDER des plats spécifiques (recommend_items) ou n'afficher qu'une sélection (show_items)
+5. GÉRER LE PANIER : ajouter ou retirer des plats quand le client commande (add_to_cart, remove_from_cart)
 
 ANALYSE INTELLIGENTE :
 - Si quelqu'un dit "j'ai faim" → montre les plats populaires
 - Si quelqu'un dit "je n'aime pas le fromage" → cache les plats avec fromage
 - Si quelqu'un dit "je veux des pizzas" → montre seulement les pizzas
 - Si quelqu'un dit "je suis végétarien" → filtre les plats végétariens
+- Si quelqu'un dit "sans oignons et moins de 15€" → set_filters avec un ingrédient exclu et un prix maximum
+- Si quelqu'un ajoute "et pas épicé" → add_filters avec spicy à false
 - Si quelqu'un change d'avis → adapte l'affichage accordingly
-
-RÉPONSE INTELLIGENTE :
-Après ton analyse, génère une réponse naturelle ET les actions appropriées au format JSON :
-
-{
-  "response": "ta réponse naturelle et chaleureuse",
-  "actions": {
-    "category": "pizzas|pates|entrees|desserts|boissons|all",
-    "filters": {
-      "vegetarian": true/false,
-      "vegan": true/false,
-      "halal": true/false,
-      "noCheese": true/false,
-      "popular": true/false,
-      "noAllergens": true/false
-    },
-    "customFilters": {
-      "withCheese": true/false,
-      "withMeat": true/false,
-      "spicy": true/false
-    },
-    "recommendedItems": [id1, id2],
-    "reasoning": "pourquoi tu as pris ces décisions"
-  }
-}
+- Si quelqu'un dit "une Margherita grande sans basilic" → add_to_cart avec les options ["grande", "sans-basilic"] (identifiants des modifierGroups du plat)
+- Si quelqu'un dit "ajoute deux Penne Arrabbiata pas trop salées" → add_to_cart avec la quantité 2 et la note "pas trop salées" (aucune option ne correspond)
+- Si quelqu'un dit "enlève le tiramisu" → remove_from_cart sans quantité
 
 EXEMPLES D'INTELLIGENCE :
 
 Demande: "Tu me conseilles quoi ?"
-Analyse: Le client veut des recommandations → je montre les plats populaires
-{
-  "response": "Excellente question ! Je vous recommande nos plats les plus populaires. Notre Pizza Margherita est un classique incontournable, et les Tagliatelles aux Champignons sont divines ! Qu'est-ce qui vous fait envie ?",
-  "actions": {
-    "category": "all",
-    "filters": {"popular": true},
-    "reasoning": "Client demande des conseils → je montre les plats populaires"
-  }
-}
+Outils: set_category("all"), set_filters([{"kind": "flag", "flag": "popular", "value": true}]), recommend_items([4, 10])
+Réponse: "Excellente question ! Je vous recommande nos plats les plus populaires. Notre Pizza Margherita est un classique incontournable, et les Tagliatelles aux Champignons sont divines ! Qu'est-ce qui vous fait envie ?"
 
 Demande: "Je n'aime pas le fromage"
-Analyse: Le client veut éviter le fromage → je cache tous les plats avec fromage
-{
-  "response": "Parfait ! Voici tous nos délicieux plats sans fromage. Je vous recommande les Penne Arrabbiata, c'est savoureux et naturellement sans fromage !",
-  "actions": {
-    "category": "all",
-    "filters": {"noCheese": true},
-    "reasoning": "Client n'aime pas le fromage → je cache les plats avec fromage"
-  }
-}
+Outils: set_category("all"), set_filters([{"kind": "cheese", "value": false}])
+Réponse: "Parfait ! Voici tous nos délicieux plats sans fromage. Je vous recommande les Penne Arrabbiata, c'est savoureux et naturellement sans fromage !"
 
 Demande: "Finalement je prendrais des pâtes"
-Analyse: Le client change d'avis et veut des pâtes → je montre seulement les pâtes
-{
-  "response": "Parfait ! Passons aux pâtes alors. Voici notre sélection de pâtes fraîches maison. Les Spaghetti Carbonara sont un classique, qu'en pensez-vous ?",
-  "actions": {
-    "category": "pates",
-    "filters": {},
-    "reasoning": "Client veut des pâtes → je change vers la catégorie pâtes"
-  }
-}
+Outils: set_category("pates"), set_filters([])
+Réponse: "Parfait ! Passons aux pâtes alors. Voici notre sélection de pâtes fraîches maison. Les Spaghetti Carbonara sont un classique, qu'en pensez-vous ?"
 
-IMPORTANT : 
+IMPORTANT :
 - Sois naturel et chaleureux dans tes réponses
 - Prends des décisions intelligentes basées sur le contexte
-- Adapte toujours l'interface pour faciliter l'expérience client
-- Réponds UNIQUEMENT avec le JSON pur, sans préfixe "json" ou balises markdown
-- Format de réponse EXACT : {"response": "...", "actions": {...}}
-- JAMAIS de json ou  ou "json" au début
-- SEULEMENT le JSON brut qui commence par { et finit par }`;
+- Adapte toujours l'interface pour faciliter l'expérience client, en appelant les outils
+- Écris TOUJOURS ta réponse au client en texte naturel, en plus des appels d'outils
+- N'ajoute au panier QUE si le client le demande explicitement, jamais une simple recommandation
+- Pour personnaliser un plat, utilise ses options (modifierGroups) plutôt qu'une note ; respecte min et max de chaque groupe`;
 
     // Construire l'historique de conversation
-    const messages = [
+    const messages: ChatMessage[] = [
       { role: 'system', content: systemPrompt },
-      ...conversationHistory,
+      ...history,
       { role: 'user', content: message }
     ];
 
-    // Appel à ChatGPT
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-turbo-preview',
-        messages: messages,
-        max_tokens: 500,
-        temperature: 0.7,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1,
-      }),
-    });
+    const tools = buildChatTools(availableMenu);
+    const actions: ChatActions = {};
+    const rejected: ActionRejection[] = [];
+    let assistantResponse = '';
+    // Appels déjà appliqués : un appel répété lors d'une correction n'est pas rejoué
+    const appliedCalls = new Set<string>();
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Erreur ChatGPT:', errorText);
-      return res.status(response.status).json({
-        error: 'Erreur du service IA',
-        details: `ChatGPT: ${response.status}`,
+    // Mode flux : le texte et les actions partent dès qu'ils sont connus
+    const send = (event: string, data: unknown) => writeEvent(res, event, data);
+    if (stream) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
       });
     }
 
-    const chatData = await response.json() as ChatGPTResponse;
-    const assistantResponse = chatData.choices[0]?.message?.content;
+    // Appliquer un appel d'outil dès sa réception : validation du schéma, puis du menu
+    const handleToolCall = (call: ToolCall) => {
+      if (appliedCalls.has(`${call.name}:${call.arguments}`)) {
+        return { call, errors: [] };
+      }
+
+      const partial: ChatActions = {};
+      const [outcome] = applyToolCalls([call], tools, partial);
+      if (outcome.errors.length > 0) {
+        console.warn(`Appel d'outil invalide (${call.name}):`, outcome.errors.join('; '));
+        rejected.push({ action: call.name, value: call.arguments, reason: outcome.errors.join('; ') });
+        return outcome;
+      }
+      appliedCalls.add(`${call.name}:${call.arguments}`);
+
+      // Confronter aux actions déjà envoyées pour garder catégorie et plats mis en avant cohérents
+      const input: ChatActions = { ...partial };
+      const context: Array<'filterCategory' | 'recommendedItems' | 'showItems'> =
+        partial.filterCategory ? ['recommendedItems', 'showItems'] : ['filterCategory'];
+      const injected = context.filter(key => !partial[key] && actions[key] !== undefined);
+      injected.forEach(key => copyAction(input, actions, key));
+
+      const sanitized = sanitizeChatActions(input, menuData, availability, profileFilters);
+      // Ne renvoyer le contexte que s'il a dû être corrigé
+      injected
+        .filter(key => JSON.stringify(sanitized.actions[key]) === JSON.stringify(actions[key]))
+        .forEach(key => delete sanitized.actions[key]);
+      if (sanitized.rejected.length > 0) {
+        console.warn('Actions IA corrigées ou refusées:', JSON.stringify(sanitized.rejected));
+        rejected.push(...sanitized.rejected);
+      }
+      if (Object.keys(sanitized.actions).length > 0) {
+        mergeChatActions(actions, sanitized.actions);
+        if (stream) send('actions', sanitized.actions);
+      }
+      return outcome;
+    };
+
+    try {
+      // Boucle d'outils : les appels invalides sont renvoyés au modèle pour correction
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const request = {
+          messages,
+          tools,
+          maxTokens: 500,
+          temperature: 0.7,
+          presencePenalty: 0.1,
+          frequencyPenalty: 0.1,
+        };
+
+        // Seul le premier texte produit est transmis : un texte déjà prononcé ne se retire pas.
+        // Il part phrase par phrase, chacune vérifiée par le garde-fou allergènes.
+        const forwardText = stream && !assistantResponse;
+        let pendingText = '';
+        const forwardSentences = (flush: boolean) => {
+          const { sentences, rest } = takeSentences(pendingText);
+          pendingText = flush ? '' : rest;
+          [...sentences, ...(flush && rest.trim() ? [rest.trim()] : [])].forEach(sentence => {
+            // Chaque phrase part signée : la page peut la faire dire par la voix serveur
+            const { text } = guardSentence(sentence, menuData, restrictions, language);
+            send('delta', { text: `${text} `, sig: signSpeech(text) });
+          });
+        };
+
+        const outcomes: ReturnType<typeof handleToolCall>[] = [];
+        const completion = stream
+          ? await provider.chatStream(request, event => {
+            if (event.type === 'content' && forwardText) {
+              pendingText += event.text;
+              forwardSentences(false);
+            }
+            if (event.type === 'toolCall') outcomes.push(handleToolCall(event.call));
+          })
+          : await provider.chat(request);
+        if (forwardText) forwardSentences(true);
+        if (!stream) {
+          (completion.toolCalls || []).forEach(call => outcomes.push(handleToolCall(call)));
+        }
+
+        assistantResponse = assistantResponse || completion.content.trim();
+        const toolCalls = completion.toolCalls || [];
+
+        if (toolCalls.length === 0) break;
+
+        // Tout est valide et Fred a répondu : terminé
+        const invalidCalls = outcomes.filter(outcome => outcome.errors.length > 0);
+        if (invalidCalls.length === 0 && assistantResponse) break;
+
+        // Renvoyer le résultat de chaque outil pour obtenir une correction ou la réponse finale
+        messages.push({ role: 'assistant', content: completion.content, toolCalls });
+        toolCalls.forEach(call => {
+          const outcome = outcomes.find(entry => entry.call.id === call.id);
+          messages.push({
+            role: 'tool',
+            toolCallId: call.id,
+            content: outcome && outcome.errors.length > 0
+              ? `Erreur, appel ignoré : ${outcome.errors.join('; ')}. Corrige l'appel si besoin.`
+              : 'ok',
+          });
+        });
+      }
+    } catch (error: any) {
+      if (!stream) throw error;
+      console.error('Erreur API Chat (flux):', error);
+      send('error', {
+        error: error instanceof AIProviderError ? error.message : 'Erreur interne du serveur',
+        details: error instanceof AIProviderError ? error.details : undefined,
+      });
+      return res.end();
+    }
 
     if (!assistantResponse) {
+      if (stream) {
+        send('error', { error: 'Réponse IA vide', details: 'Aucune réponse générée par l\'assistant' });
+        return res.end();
+      }
       return res.status(500).json({
         error: 'Réponse IA vide',
         details: 'Aucune réponse générée par l\'assistant',
       });
     }
 
-    // Parser la réponse JSON intelligente
-    let parsedResponse;
-    try {
-      // Nettoyer la réponse ChatGPT
-      let cleanedResponse = assistantResponse.trim();
-      
-      // Supprimer les préfixes courants
-      cleanedResponse = cleanedResponse.replace(/^```json\s*/, ''); // ```json
-      cleanedResponse = cleanedResponse.replace(/\s*```$/, ''); // ```
-      cleanedResponse = cleanedResponse.replace(/^json\s*/, ''); // json
-      cleanedResponse = cleanedResponse.replace(/^"json\s*/, ''); // "json
-      cleanedResponse = cleanedResponse.replace(/^\s*```\s*/, ''); // ```
-      
-      // Trouver le premier { et le dernier }
-      const firstBrace = cleanedResponse.indexOf('{');
-      const lastBrace = cleanedResponse.lastIndexOf('}');
-      
-      if (firstBrace !== -1 && lastBrace !== -1 && firstBrace < lastBrace) {
-        cleanedResponse = cleanedResponse.substring(firstBrace, lastBrace + 1);
-      }
-      
-      console.log('Réponse nettoyée pour parsing:', cleanedResponse);
-      
-      parsedResponse = JSON.parse(cleanedResponse);
-      console.log('JSON parsé avec succès:', parsedResponse);
-      
-    } catch (error) {
-      console.error('Erreur de parsing JSON:', error);
-      console.log('Réponse originale:', assistantResponse);
-      
-      // Fallback : traiter comme texte normal
-      return res.status(200).json({
-        response: assistantResponse,
-        actions: undefined,
+    // Garde-fou allergènes : les affirmations contredites par le menu sont réécrites et journalisées
+    const guarded = guardResponse(assistantResponse, menuData, restrictions, language);
+    if (guarded.violations.length > 0) {
+      await logSafetyViolations({
+        message,
+        originalResponse: assistantResponse,
+        correctedResponse: guarded.text,
+        violations: guarded.violations,
       });
     }
 
-    // Construire les actions à partir de la réponse intelligente
-    const actions: ChatResponse['actions'] = {};
-    
-    if (parsedResponse.actions) {
-      // Catégorie
-      if (parsedResponse.actions.category) {
-        actions.filterCategory = parsedResponse.actions.category;
-      }
-      
-      // Filtres standards
-      if (parsedResponse.actions.filters) {
-        actions.setFilters = parsedResponse.actions.filters;
-      }
-      
-      // Filtres personnalisés
-      if (parsedResponse.actions.customFilters) {
-        actions.customFilters = parsedResponse.actions.customFilters;
-      }
-      
-      // Recommandations
-      if (parsedResponse.actions.recommendedItems) {
-        actions.recommendedItems = parsedResponse.actions.recommendedItems;
-      }
-      
-      // Log du raisonnement de l'IA
-      if (parsedResponse.actions.reasoning) {
-        console.log('Raisonnement de l\'IA:', parsedResponse.actions.reasoning);
+    const debug = rejected.length > 0 || guarded.violations.length > 0
+      ? {
+        ...(rejected.length > 0 ? { rejected } : {}),
+        ...(guarded.violations.length > 0 ? { safety: guarded.violations } : {}),
       }
+      : undefined;
+
+    // Mémoriser l'échange avant de répondre : le message suivant du client doit le trouver
+    if (session) {
+      await updateSession(session.token, current => ({
+        ...current,
+        ...applyActionsToState(current, actions),
+        ...(table ? { tableId: table.id } : {}),
+        history: [
+          ...current.history,
+          { role: 'user', content: message },
+          { role: 'assistant', content: guarded.text },
+        ],
+        restrictions: mergeRestrictions(current.restrictions, conversationRestrictions),
+      }));
     }
 
-    return res.status(200).json({
-      response: parsedResponse.response,
-      actions: Object.keys(actions).length > 0 ? actions : undefined,
-    });
+    if (stream) {
+      send('done', { response: guarded.text, speech: signSpeechSentences(guarded.text), debug });
+      res.end();
+    } else {
+      res.status(200).json({
+        response: guarded.text,
+        speech: signSpeechSentences(guarded.text),
+        actions: Object.keys(actions).length > 0 ? actions : undefined,
+        debug,
+      });
+    }
+
+    // Condenser les anciens échanges une fois la réponse partie, sans faire attendre le client
+    if (session) {
+      await compactSession(session.token, provider).catch(error => {
+        console.error('Erreur lors du résumé de la session:', error);
+      });
+    }
 
   } catch (error: any) {
+    // Flux déjà ouvert (statut 200 envoyé) : l'erreur part comme événement pour que le client s'arrête
+    if (res.headersSent) {
+      console.error('Erreur API Chat (flux):', error);
+      if (!res.writableEnded) {
+        writeEvent(res, 'error', {
+          error: 'Erreur interne du serveur',
+          details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+        });
+        res.end();
+      }
+      return;
+    }
+
+    if (error instanceof AIProviderError) {
+      return res.status(error.status).json({
+        error: error.message,
+        details: error.details,
+      });
+    }
+
     console.error('Erreur API Chat:', error);
     return res.status(500).json({
       error: 'Erreur interne du serveur',
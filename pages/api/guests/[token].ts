@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getGuestProfile, saveGuestProfile, deleteGuestProfile } from '../../../utils/guestProfileStore';
+import { GuestProfile, isGuestToken, validateGuestProfile, pickGuestProfile } from '../../../utils/guestProfile';
+
+interface ErrorResponse {
+  error: string;
+  details?: string;
+}
+
+// Profil alimentaire d'un client, identifié par son jeton (GET, PUT, DELETE)
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<GuestProfile | ErrorResponse>
+) {
+  const token = String(req.query.token);
+  if (!isGuestToken(token)) {
+    return res.status(400).json({ error: 'Jeton client invalide' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const profile = await getGuestProfile(token);
+      if (!profile) {
+        return res.status(404).json({ error: 'Profil introuvable' });
+      }
+      return res.status(200).json(profile);
+    }
+
+    if (req.method === 'PUT') {
+      const errors = validateGuestProfile(req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Profil invalide', details: errors.join('; ') });
+      }
+      return res.status(200).json(await saveGuestProfile(token, pickGuestProfile(req.body)));
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteGuestProfile(token);
+      return res.status(204).end();
+    }
+
+    res.setHeader('Allow', 'GET, PUT, DELETE');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+
+  } catch (error: any) {
+    console.error('Erreur API Profil client:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
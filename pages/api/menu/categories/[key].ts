@@ -0,0 +1,83 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { editMenu, sendMenuEditResult } from '../../../../utils/menuSource';
+import { requireAdmin } from '../../../../utils/adminAuth';
+import { CATEGORY_KEY_PATTERN, getCategoryItems, isMenuCategory } from '../../../../utils/menu';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'PATCH, DELETE');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const key = String(req.query.key);
+  if (!CATEGORY_KEY_PATTERN.test(key)) {
+    return res.status(400).json({
+      error: 'Clé de catégorie invalide',
+      details: 'Minuscules, chiffres et tirets uniquement (ex: "plats-du-jour")',
+    });
+  }
+
+  try {
+    // Supprimer une catégorie vide
+    if (req.method === 'DELETE') {
+      const result = await editMenu((menu) => {
+        if (!isMenuCategory(menu, key)) {
+          return { status: 404, error: 'Catégorie introuvable' };
+        }
+        if (getCategoryItems(menu, key).length > 0) {
+          return {
+            status: 409,
+            error: 'Catégorie non vide',
+            details: 'Supprimez ou déplacez d\'abord les plats de cette catégorie',
+          };
+        }
+        delete menu.categories[key];
+        delete menu.menu[key];
+      }, `Suppression de la catégorie "${key}"`);
+
+      return sendMenuEditResult(res, result);
+    }
+
+    // Modifier une catégorie et/ou réordonner ses plats : { name, icon, description, itemOrder }
+    const { name, icon, description, itemOrder } = req.body || {};
+
+    const result = await editMenu((menu) => {
+      if (!isMenuCategory(menu, key)) {
+        return { status: 404, error: 'Catégorie introuvable' };
+      }
+      const category = menu.categories[key];
+
+      if (name !== undefined) category.name = name;
+      if (icon !== undefined) category.icon = icon;
+      if (description !== undefined) category.description = description;
+
+      if (itemOrder !== undefined) {
+        const items = getCategoryItems(menu, key);
+        const isPermutation = Array.isArray(itemOrder)
+          && itemOrder.length === items.length
+          && items.every(item => itemOrder.includes(item.id));
+
+        if (!isPermutation) {
+          return {
+            status: 400,
+            error: 'Ordre invalide',
+            details: 'Le champ "itemOrder" doit lister chaque plat de la catégorie exactement une fois',
+          };
+        }
+
+        menu.menu[key] = itemOrder.map((id: number) => items.find(item => item.id === id)!);
+      }
+    }, `Modification de la catégorie "${key}"`);
+
+    return sendMenuEditResult(res, result);
+
+  } catch (error: any) {
+    console.error('Erreur API Catégorie:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { editMenu, sendMenuEditResult } from '../../../../utils/menuSource';
+import { requireAdmin } from '../../../../utils/adminAuth';
+import { CATEGORY_KEY_PATTERN, isMenuCategory } from '../../../../utils/menu';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'PUT') {
+    res.setHeader('Allow', 'POST, PUT');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    // Créer une catégorie (ajoutée à la fin)
+    if (req.method === 'POST') {
+      const { key, name, icon = '🍽️', description = '' } = req.body || {};
+
+      if (typeof key !== 'string' || !CATEGORY_KEY_PATTERN.test(key)) {
+        return res.status(400).json({
+          error: 'Clé de catégorie invalide',
+          details: 'Minuscules, chiffres et tirets uniquement (ex: "plats-du-jour")',
+        });
+      }
+
+      const result = await editMenu((menu) => {
+        if (isMenuCategory(menu, key)) {
+          return { status: 409, error: 'Catégorie déjà existante', details: key };
+        }
+        menu.categories[key] = { name, icon, description };
+        menu.menu[key] = [];
+      }, `Ajout de la catégorie "${name || key}"`);
+
+      return sendMenuEditResult(res, result, 201);
+    }
+
+    // Réordonner les catégories : { order: ["entrees", "pizzas", ...] }
+    const { order } = req.body || {};
+
+    const result = await editMenu((menu) => {
+      const currentKeys = Object.keys(menu.categories);
+      const isPermutation = Array.isArray(order)
+        && order.length === currentKeys.length
+        && currentKeys.every(key => order.includes(key));
+
+      if (!isPermutation) {
+        return {
+          status: 400,
+          error: 'Ordre invalide',
+          details: 'Le champ "order" doit lister chaque catégorie exactement une fois',
+        };
+      }
+
+      const categories: typeof menu.categories = {};
+      const items: typeof menu.menu = {};
+      order.forEach((key: string) => {
+        categories[key] = menu.categories[key];
+        items[key] = menu.menu[key] || [];
+      });
+      menu.categories = categories;
+      menu.menu = items;
+    }, 'Réorganisation des catégories');
+
+    return sendMenuEditResult(res, result);
+
+  } catch (error: any) {
+    console.error('Erreur API Catégories:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { loadMenu, editMenu, sendMenuEditResult } from '../../../utils/menuSource';
+import { requireAdmin } from '../../../utils/adminAuth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    // Menu public (validé côté serveur)
+    if (req.method === 'GET') {
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(200).json(await loadMenu());
+    }
+
+    if (req.method !== 'PUT') {
+      res.setHeader('Allow', 'GET, PUT');
+      return res.status(405).json({ error: 'Méthode non autorisée' });
+    }
+
+    // Remplacer le menu complet (import, édition avancée)
+    if (!requireAdmin(req, res)) return;
+
+    const { restaurant, categories, menu } = req.body || {};
+    const result = await editMenu((draft) => {
+      draft.restaurant = restaurant;
+      draft.categories = categories;
+      draft.menu = menu;
+    }, 'Remplacement complet du menu');
+
+    return sendMenuEditResult(res, result);
+
+  } catch (error: any) {
+    console.error('Erreur API Menu:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { editMenu, sendMenuEditResult } from '../../../../utils/menuSource';
+import { requireAdmin } from '../../../../utils/adminAuth';
+import { MenuData, MenuItem, getCategoryItems, isMenuCategory, pickEditableItemFields } from '../../../../utils/menu';
+
+// Champs facultatifs qu'une modification peut retirer en les passant à null
+type ClearableItemField = 'cheeseRemovable' | 'modifierGroups' | 'translations';
+
+// Corps d'une modification de plat : champs partiels et, éventuellement, nouvelle catégorie
+type ItemPatchBody = Partial<Omit<MenuItem, 'id' | ClearableItemField>>
+  & { [Field in ClearableItemField]?: MenuItem[Field] | null }
+  & { category?: string };
+
+// Retrouver la catégorie et la position d'un plat
+const locateItem = (menu: MenuData, itemId: number) => {
+  for (const category of Object.keys(menu.menu)) {
+    const index = menu.menu[category].findIndex(item => item.id === itemId);
+    if (index !== -1) {
+      return { category, index };
+    }
+  }
+  return null;
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'PATCH, DELETE');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const itemId = Number(req.query.id);
+
+  try {
+    // Supprimer un plat
+    if (req.method === 'DELETE') {
+      const result = await editMenu((menu) => {
+        const location = locateItem(menu, itemId);
+        if (!location) {
+          return { status: 404, error: 'Plat introuvable' };
+        }
+        menu.menu[location.category].splice(location.index, 1);
+      }, `Suppression du plat ${itemId}`);
+
+      return sendMenuEditResult(res, result);
+    }
+
+    // Modifier un plat (champs partiels) et éventuellement le changer de catégorie
+    const { category, ...body }: ItemPatchBody = req.body || {};
+    const fields = pickEditableItemFields(body);
+
+    const result = await editMenu((menu) => {
+      const location = locateItem(menu, itemId);
+      if (!location) {
+        return { status: 404, error: 'Plat introuvable' };
+      }
+
+      const updated = { ...menu.menu[location.category][location.index], ...fields };
+
+      // "cheeseRemovable: null", "modifierGroups: null" et "translations: null" retirent le champ
+      if (body.cheeseRemovable === null) {
+        delete updated.cheeseRemovable;
+      }
+      if (body.modifierGroups === null) {
+        delete updated.modifierGroups;
+      }
+      if (body.translations === null) {
+        delete updated.translations;
+      }
+
+      if (category !== undefined && category !== location.category) {
+        if (!isMenuCategory(menu, category)) {
+          return { status: 400, error: 'Catégorie inconnue', details: String(category) };
+        }
+        menu.menu[location.category].splice(location.index, 1);
+        menu.menu[category] = [...getCategoryItems(menu, category), updated];
+      } else {
+        menu.menu[location.category][location.index] = updated;
+      }
+    }, `Modification du plat ${itemId}`);
+
+    return sendMenuEditResult(res, result);
+
+  } catch (error: any) {
+    console.error('Erreur API Plat:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { editMenu, sendMenuEditResult } from '../../../../utils/menuSource';
+import { requireAdmin } from '../../../../utils/adminAuth';
+import { MenuItem, getAllItems, getCategoryItems, isMenuCategory, pickEditableItemFields } from '../../../../utils/menu';
+
+// Valeurs par défaut d'un nouveau plat
+const NEW_ITEM_DEFAULTS: Omit<MenuItem, 'id' | 'name' | 'price'> = {
+  image: '',
+  description: '',
+  ingredients: [],
+  allergens: [],
+  tags: [],
+  vegetarian: false,
+  vegan: false,
+  halal: false,
+  popular: false,
+  spicy: false,
+  preparationTime: '10 min',
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    // Créer un plat dans une catégorie : { category, name, price, ... }
+    const { category, ...body } = req.body || {};
+    const fields = pickEditableItemFields(body);
+
+    const result = await editMenu((menu) => {
+      if (!isMenuCategory(menu, category)) {
+        return { status: 400, error: 'Catégorie inconnue', details: String(category) };
+      }
+
+      // Nouvel identifiant : le plus grand existant + 1
+      const nextId = getAllItems(menu).reduce((max, item) => Math.max(max, item.id), 0) + 1;
+
+      menu.menu[category] = [
+        ...getCategoryItems(menu, category),
+        { ...NEW_ITEM_DEFAULTS, name: '', price: 0, ...fields, id: nextId },
+      ];
+    }, `Ajout du plat "${fields.name || 'sans nom'}"`);
+
+    return sendMenuEditResult(res, result, 201);
+
+  } catch (error: any) {
+    console.error('Erreur API Plats:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
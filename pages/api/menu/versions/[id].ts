@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getMenuVersion, restoreMenuVersion, sendMenuEditResult } from '../../../../utils/menuSource';
+import { requireAdmin } from '../../../../utils/adminAuth';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const id = String(req.query.id);
+
+  try {
+    // Consulter une version
+    if (req.method === 'GET') {
+      const version = await getMenuVersion(id);
+      if (!version) {
+        return res.status(404).json({ error: 'Version introuvable' });
+      }
+      return res.status(200).json(version);
+    }
+
+    // Revenir à cette version
+    return sendMenuEditResult(res, await restoreMenuVersion(id));
+
+  } catch (error: any) {
+    console.error('Erreur API Version:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
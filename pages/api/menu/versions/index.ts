@@ -0,0 +1,23 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { listMenuVersions } from '../../../../utils/menuSource';
+import { requireAdmin } from '../../../../utils/adminAuth';
+
+// Historique des versions du menu
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    return res.status(200).json(await listMenuVersions());
+  } catch (error: any) {
+    console.error('Erreur API Versions:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderStore } from '../../../utils/orderStore';
+import { publishOrderEvent } from '../../../utils/orderEvents';
+import { Order, isOrderStatus, countItemQuantities } from '../../../utils/orders';
+import { restoreStock } from '../../../utils/availabilityStore';
+import { requireAdmin } from '../../../utils/adminAuth';
+
+interface ErrorResponse {
+  error: string;
+  details?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Order | ErrorResponse>
+) {
+  // Lecture et suivi des commandes : réservés à l'équipe (cuisine, salle)
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const store = getOrderStore();
+    const id = String(req.query.id);
+
+    if (req.method === 'GET') {
+      const order = await store.get(id);
+      if (!order) {
+        return res.status(404).json({ error: 'Commande introuvable' });
+      }
+      return res.status(200).json(order);
+    }
+
+    if (req.method !== 'PATCH') {
+      res.setHeader('Allow', 'GET, PATCH');
+      return res.status(405).json({ error: 'Méthode non autorisée' });
+    }
+
+    // Faire avancer la commande dans son cycle de vie
+    const { status } = req.body || {};
+
+    if (!isOrderStatus(status)) {
+      return res.status(400).json({
+        error: 'Statut invalide',
+        details: 'Statuts possibles: received, preparing, ready, served, paid, cancelled',
+      });
+    }
+
+    // Vérifiée et appliquée sous verrou : deux appuis simultanés ne partent pas du même statut
+    const result = await store.transition(id, status);
+
+    if (result.outcome === 'not_found') {
+      return res.status(404).json({ error: 'Commande introuvable' });
+    }
+    if (result.outcome === 'invalid_transition') {
+      return res.status(409).json({
+        error: 'Transition impossible',
+        details: `Impossible de passer de "${result.order.status}" à "${status}"`,
+      });
+    }
+
+    // Commande annulée : ses portions redeviennent disponibles
+    if (status === 'cancelled') {
+      await restoreStock(countItemQuantities(result.order.lines)).catch(error => {
+        console.error('Impossible de rendre le stock de la commande annulée:', error);
+      });
+    }
+
+    publishOrderEvent({ type: 'updated', order: result.order });
+
+    return res.status(200).json(result.order);
+
+  } catch (error: any) {
+    console.error('Erreur API Commande:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
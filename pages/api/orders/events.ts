@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getOrderStore } from '../../../utils/orderStore';
+import { subscribeToOrderEvents } from '../../../utils/orderEvents';
+import { OrderStatus } from '../../../utils/orders';
+import { requireAdmin } from '../../../utils/adminAuth';
+
+// Le flux reste ouvert : Next.js ne doit pas signaler de réponse manquante
+export const config = {
+  api: {
+    externalResolver: true,
+  },
+};
+
+// Statuts encore utiles à l'écran cuisine
+const ACTIVE_STATUSES: OrderStatus[] = ['received', 'preparing', 'ready'];
+
+// Intervalle du battement de cœur pour garder la connexion ouverte
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// Flux Server-Sent Events des commandes (écran cuisine, jeton d'administration requis)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // S'abonner avant de lire l'état initial pour ne rien rater
+  const unsubscribe = subscribeToOrderEvents((event) => send('order', event));
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  });
+
+  try {
+    const orders = await getOrderStore().list({ status: ACTIVE_STATUSES });
+    send('snapshot', orders);
+  } catch (error) {
+    console.error('Erreur lors du chargement des commandes:', error);
+    send('error', { error: 'Impossible de charger les commandes' });
+  }
+}
@@ -0,0 +1,161 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { randomUUID } from 'crypto';
+import { loadMenu } from '../../../utils/menuSource';
+import { findMenuItem } from '../../../utils/menu';
+import { getOrderStore } from '../../../utils/orderStore';
+import { publishOrderEvent } from '../../../utils/orderEvents';
+import { withDefaultOptions, validateModifierSelection, resolveModifiers, getUnitPrice } from '../../../utils/modifiers';
+import { consumeStock, restoreStock } from '../../../utils/availabilityStore';
+import { resolveTableTicket } from '../../../utils/tableStore';
+import { Table, isTableTicket } from '../../../utils/tables';
+import { Order, OrderLine, CreateOrderRequest, isOrderStatus, countItemQuantities } from '../../../utils/orders';
+import { requireAdmin } from '../../../utils/adminAuth';
+
+interface ErrorResponse {
+  error: string;
+  details?: string;
+  // Plats épuisés (409), pour que la page les nomme dans la langue du client
+  itemIds?: number[];
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Order | Order[] | ErrorResponse>
+) {
+  try {
+    const store = getOrderStore();
+
+    // Lister les commandes (filtrables par ?status=received,preparing) : réservé à l'équipe
+    if (req.method === 'GET') {
+      if (!requireAdmin(req, res)) return;
+      const statusParam = typeof req.query.status === 'string' ? req.query.status : '';
+      const status = statusParam.split(',').filter(isOrderStatus);
+      const orders = await store.list(status.length > 0 ? { status } : undefined);
+      return res.status(200).json(orders);
+    }
+
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'GET, POST');
+      return res.status(405).json({ error: 'Méthode non autorisée' });
+    }
+
+    // Créer une commande à partir du panier (seule route publique)
+    const { lines, table: ticket }: CreateOrderRequest = req.body || {};
+
+    if (!Array.isArray(lines) || lines.length === 0) {
+      return res.status(400).json({
+        error: 'Commande vide',
+        details: 'Le champ "lines" doit contenir au moins un plat',
+      });
+    }
+
+    // Table vérifiée avant tout : une commande ne part jamais vers une table usurpée
+    let table: Table | undefined;
+    if (ticket !== undefined) {
+      table = isTableTicket(ticket) ? await resolveTableTicket(ticket) : undefined;
+      if (!table) {
+        return res.status(400).json({
+          error: 'Table invalide',
+          details: 'Lien de table invalide ou table supprimée : scannez à nouveau le QR code',
+        });
+      }
+    }
+
+    // Les prix et noms viennent toujours du menu serveur, jamais du client
+    const menuData = await loadMenu();
+    const orderLines: OrderLine[] = [];
+
+    for (const line of lines) {
+      const item = findMenuItem(menuData, Number(line?.itemId));
+      const quantity = Math.floor(Number(line?.quantity));
+
+      if (!item) {
+        return res.status(400).json({
+          error: 'Plat inconnu',
+          details: `Aucun plat avec l'id ${line?.itemId}`,
+        });
+      }
+      if (!Number.isFinite(quantity) || quantity <= 0) {
+        return res.status(400).json({
+          error: 'Quantité invalide',
+          details: `Quantité invalide pour ${item.name}`,
+        });
+      }
+
+      if (line.options !== undefined && !(Array.isArray(line.options) && line.options.every(option => typeof option === 'string'))) {
+        return res.status(400).json({
+          error: 'Options invalides',
+          details: `Liste d'options attendue pour ${item.name}`,
+        });
+      }
+      const options = withDefaultOptions(item, line.options || []);
+      const optionErrors = validateModifierSelection(item, options);
+      if (optionErrors.length > 0) {
+        return res.status(400).json({
+          error: 'Options invalides',
+          details: `${item.name} : ${optionErrors.join(', ')}`,
+        });
+      }
+      const modifiers = resolveModifiers(item, options);
+
+      orderLines.push({
+        itemId: item.id,
+        name: item.name,
+        unitPrice: getUnitPrice(item, options),
+        quantity,
+        note: typeof line.note === 'string' ? line.note.trim().slice(0, 200) : '',
+        ...(modifiers.length > 0 ? { options: modifiers } : {}),
+      });
+    }
+
+    // Réserver les portions : refuser si un plat est en rupture
+    const quantities = countItemQuantities(orderLines);
+    const { unavailable } = await consumeStock(quantities);
+
+    if (unavailable.length > 0) {
+      const names = orderLines
+        .filter(line => unavailable.includes(line.itemId))
+        .map(line => line.name);
+      return res.status(409).json({
+        error: 'Plat indisponible',
+        details: `Plus disponible : ${Array.from(new Set(names)).join(', ')}`,
+        itemIds: unavailable,
+      });
+    }
+
+    const now = new Date().toISOString();
+    const total = orderLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+    // Portions rendues si la commande n'a pas pu être enregistrée
+    let order: Order;
+    try {
+      order = await store.create({
+        id: randomUUID(),
+        tableId: table?.id,
+        tableLabel: table?.label,
+        lines: orderLines,
+        total: Math.round(total * 100) / 100,
+        currency: menuData.restaurant?.currency || '€',
+        status: 'received',
+        statusHistory: [{ status: 'received', at: now }],
+        createdAt: now,
+        updatedAt: now,
+      });
+    } catch (error) {
+      await restoreStock(quantities);
+      throw error;
+    }
+
+    console.log('Nouvelle commande:', order.id, `(${orderLines.length} ligne(s))`, table ? table.label : 'sans table');
+    publishOrderEvent({ type: 'created', order });
+
+    return res.status(201).json(order);
+
+  } catch (error: any) {
+    console.error('Erreur API Commandes:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
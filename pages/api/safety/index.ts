@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { readSafetyLog } from '../../../utils/safetyLog';
+import { requireAdmin } from '../../../utils/adminAuth';
+
+// Relecture des réponses corrigées par le garde-fou allergènes (?limit=100)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+    return res.status(200).json(await readSafetyLog(limit));
+
+  } catch (error: any) {
+    console.error('Erreur API Sécurité:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getSession, updateSession, deleteSession } from '../../../utils/sessionStore';
+import { ChatSession, validateSessionState, pickSessionState } from '../../../utils/session';
+import { isGuestToken } from '../../../utils/guestProfile';
+
+interface ErrorResponse {
+  error: string;
+  details?: string;
+}
+
+// Session de conversation d'un client (GET, PUT, DELETE).
+// L'historique n'est écrit que par /api/chat ; le client synchronise panier, filtres et catégorie.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ChatSession | ErrorResponse>
+) {
+  const token = String(req.query.token);
+  if (!isGuestToken(token)) {
+    return res.status(400).json({ error: 'Jeton client invalide' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const session = await getSession(token);
+      if (!session) {
+        return res.status(404).json({ error: 'Session introuvable' });
+      }
+      return res.status(200).json(session);
+    }
+
+    if (req.method === 'PUT') {
+      const errors = validateSessionState(req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'État de session invalide', details: errors.join('; ') });
+      }
+      const state = pickSessionState(req.body);
+      return res.status(200).json(await updateSession(token, session => ({ ...session, ...state })));
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteSession(token);
+      return res.status(204).end();
+    }
+
+    res.setHeader('Allow', 'GET, PUT, DELETE');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+
+  } catch (error: any) {
+    console.error('Erreur API Session:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AIProviderError } from '../../utils/ai';
+import { getSpeechBackend } from '../../utils/tts';
+import { synthesizeWithCache } from '../../utils/tts/cache';
+import { isValidSpeechSignature } from '../../utils/tts/signing';
+import { SPOKEN_MESSAGE_KEYS, SpokenMessageKey } from '../../utils/tts/types';
+import { isSupportedLocale, translate } from '../../utils/i18n';
+
+interface ErrorResponse {
+  error: string;
+  details?: string;
+}
+
+// Longueur maximale d'une phrase à synthétiser (la page envoie phrase par phrase)
+const MAX_SPEECH_LENGTH = 600;
+
+const isSpokenMessageKey = (value: unknown): value is SpokenMessageKey =>
+  typeof value === 'string' && (SPOKEN_MESSAGE_KEYS as readonly string[]).includes(value);
+
+// Audio d'une phrase avec la voix de Fred, pour un texte produit par le serveur uniquement :
+// - GET /api/speak?text=...&sig=...&lang=fr : phrase de Fred signée par /api/chat
+// - GET /api/speak?key=assistant.welcome&lang=fr : message fixe du catalogue
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Buffer | ErrorResponse>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  const { key, sig } = req.query;
+  const language = typeof req.query.lang === 'string' ? req.query.lang : 'fr';
+
+  if (!isSupportedLocale(language)) {
+    return res.status(400).json({ error: 'Langue invalide', details: 'Langue de l\'interface attendue (ex: "fr")' });
+  }
+
+  const text = isSpokenMessageKey(key)
+    ? translate(language, key)
+    : typeof req.query.text === 'string' ? req.query.text.trim() : '';
+
+  if (!text) {
+    return res.status(400).json({ error: 'Texte manquant', details: 'Le paramètre "text" ou "key" est requis' });
+  }
+  if (text.length > MAX_SPEECH_LENGTH) {
+    return res.status(400).json({ error: 'Texte trop long', details: `${MAX_SPEECH_LENGTH} caractères maximum` });
+  }
+  if (!isSpokenMessageKey(key) && !(typeof sig === 'string' && isValidSpeechSignature(text, sig))) {
+    return res.status(403).json({
+      error: 'Texte non autorisé',
+      details: 'Seules les phrases produites par le serveur peuvent être synthétisées',
+    });
+  }
+
+  try {
+    // La voix suit la langue du client
+    const backend = getSpeechBackend(language);
+    const result = await synthesizeWithCache(backend, { text, language });
+
+    // Le même texte donne toujours le même audio : le navigateur peut le garder
+    res.setHeader('Content-Type', result.contentType);
+    res.setHeader('Content-Length', result.audio.length);
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.setHeader('ETag', `"${result.key}"`);
+    res.setHeader('X-Speech-Cache', result.cached ? 'hit' : 'miss');
+    return res.status(200).send(result.audio);
+
+  } catch (error: any) {
+    if (error instanceof AIProviderError) {
+      return res.status(error.status).json({
+        error: error.message,
+        details: error.details,
+      });
+    }
+
+    console.error('Erreur API Synthèse vocale:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
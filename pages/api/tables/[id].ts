@@ -0,0 +1,55 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '../../../utils/adminAuth';
+import { renameTable, deleteTable } from '../../../utils/tableStore';
+import { Table, validateTableInput } from '../../../utils/tables';
+
+interface ErrorResponse {
+  error: string;
+  details?: string;
+}
+
+// Renommer (PATCH { label }) ou supprimer une table ; son lien reste le même tant qu'elle existe
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Table | ErrorResponse>
+) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'PATCH, DELETE');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  const id = String(req.query.id);
+
+  try {
+    if (req.method === 'DELETE') {
+      if (!(await deleteTable(id))) {
+        return res.status(404).json({ error: 'Table introuvable' });
+      }
+      return res.status(204).end();
+    }
+
+    const { label } = req.body || {};
+    const errors = [
+      ...validateTableInput({ label }),
+      ...(label === undefined ? ['label requis'] : []),
+    ];
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Table invalide', details: errors.join('; ') });
+    }
+
+    const table = await renameTable(id, label);
+    if (!table) {
+      return res.status(404).json({ error: 'Table introuvable' });
+    }
+    return res.status(200).json(table);
+
+  } catch (error: any) {
+    console.error('Erreur API Table:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
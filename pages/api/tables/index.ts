@@ -0,0 +1,85 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import QRCode from 'qrcode';
+import { requireAdmin } from '../../../utils/adminAuth';
+import { listTables, createTable, createNumberedTables } from '../../../utils/tableStore';
+import { buildTableUrl, getPublicBaseUrl, isTableSigningConfigured } from '../../../utils/tableLinks';
+import { Table, TableWithLink, MAX_TABLES_PER_BATCH, validateTableInput } from '../../../utils/tables';
+
+interface ErrorResponse {
+  error: string;
+  details?: string;
+}
+
+// Ajouter à chaque table son lien signé et, pour la planche à imprimer, son QR code
+const withLinks = async (req: NextApiRequest, tables: Table[], includeQr: boolean): Promise<TableWithLink[]> => {
+  const baseUrl = getPublicBaseUrl(req);
+  return Promise.all(tables.map(async table => {
+    const url = buildTableUrl(baseUrl, table.id);
+    return {
+      ...table,
+      url,
+      ...(includeQr ? { qrSvg: await QRCode.toString(url, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' }) } : {}),
+    };
+  }));
+};
+
+// Tables du restaurant (administration) : liste (?qr=svg pour les QR codes) et création.
+// Création : { count } pour les tables numérotées suivantes, ou { id, label } pour une table nommée.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TableWithLink[] | ErrorResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Méthode non autorisée' });
+  }
+
+  if (!requireAdmin(req, res)) return;
+
+  if (!isTableSigningConfigured()) {
+    return res.status(500).json({
+      error: 'Configuration serveur manquante',
+      details: 'Secret de signature des tables (TABLE_SIGNING_SECRET) non configuré',
+    });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(await withLinks(req, await listTables(), req.query.qr === 'svg'));
+    }
+
+    const body = req.body || {};
+
+    if (body.count !== undefined) {
+      const count = Number(body.count);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_TABLES_PER_BATCH) {
+        return res.status(400).json({
+          error: 'Nombre de tables invalide',
+          details: `Entre 1 et ${MAX_TABLES_PER_BATCH} tables à la fois`,
+        });
+      }
+      return res.status(201).json(await withLinks(req, await createNumberedTables(count), false));
+    }
+
+    const errors = [
+      ...validateTableInput(body),
+      ...(body.id === undefined ? ['id ou count requis'] : []),
+    ];
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Table invalide', details: errors.join('; ') });
+    }
+
+    const table = await createTable(body.id, body.label);
+    if (!table) {
+      return res.status(409).json({ error: 'Table existante', details: `La table "${body.id}" existe déjà` });
+    }
+    return res.status(201).json(await withLinks(req, [table], false));
+
+  } catch (error: any) {
+    console.error('Erreur API Tables:', error);
+    return res.status(500).json({
+      error: 'Erreur interne du serveur',
+      details: process.env.NODE_ENV === 'development' ? error?.message : 'Erreur inattendue',
+    });
+  }
+}
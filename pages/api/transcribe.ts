@@ -1,8 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import formidable from 'formidable';
 import fs from 'fs';
-import FormData from 'form-data';
-import fetch from 'node-fetch';
+import { getAIProvider, AIProviderError, TranscriptionResult } from '../../utils/ai';
+import { loadMenu } from '../../utils/menuSource';
+import { MenuData } from '../../utils/menu';
+import { TranscriptCorrection, buildTranscriptionPrompt, correctTranscript } from '../../utils/transcriptCorrection';
+import { toLanguageCode } from '../../utils/i18n';
 
 // Configuration pour désactiver le parser par défaut de Next.js
 export const config = {
@@ -12,8 +15,15 @@ export const config = {
 };
 
 interface TranscribeResponse {
+  // Texte corrigé contre le menu (identique à rawText si rien n'a été corrigé)
   text: string;
+  rawText: string;
+  corrections: TranscriptCorrection[];
+  matchedItemIds: number[];
+  // Code langue ISO 639-1 : reconnu dans la voix, sinon celui du navigateur
   language?: string;
+  // true si la langue a été reconnue dans la voix (elle peut alors changer la langue de l'interface)
+  isLanguageDetected: boolean;
   confidence?: number;
 }
 
@@ -22,18 +32,6 @@ interface ErrorResponse {
   details?: string;
 }
 
-// Interface pour la réponse de Whisper API
-interface WhisperResponse {
-  text: string;
-  language?: string;
-  confidence?: number;
-  segments?: Array<{
-    start: number;
-    end: number;
-    text: string;
-  }>;
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse<TranscribeResponse | ErrorResponse>
@@ -44,15 +42,8 @@ export default async function handler(
   }
 
   try {
-    // Vérifier que la clé API OpenAI est configurée
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey) {
-      console.error('Clé API OpenAI manquante');
-      return res.status(500).json({ 
-        error: 'Configuration serveur manquante',
-        details: 'Clé API OpenAI non configurée' 
-      });
-    }
+    // Fournisseur de transcription configuré (OpenAI, serveur local ou mock)
+    const provider = getAIProvider();
 
     // Parser le fichier audio avec formidable
     const form = formidable({
@@ -72,54 +63,38 @@ export default async function handler(
       });
     }
 
-    // Préparer les données pour l'API Whisper
-    const formData = new FormData();
-    formData.append('file', fs.createReadStream(audioFile.filepath), {
-      filename: audioFile.originalFilename || 'audio.webm',
-      contentType: audioFile.mimetype || 'audio/webm',
-    });
-    formData.append('model', 'whisper-1');
-    
-    // Détecter la langue du navigateur si disponible
-    const browserLang = req.headers['accept-language']?.split(',')[0]?.split('-')[0];
-    if (browserLang && ['en', 'fr', 'es', 'de', 'it', 'pt', 'ru', 'ja', 'ko', 'zh'].includes(browserLang)) {
-      formData.append('language', browserLang);
-    }
-
-    // Paramètres additionnels pour améliorer la transcription
-    formData.append('response_format', 'verbose_json');
-    formData.append('temperature', '0'); // Plus déterministe
-
-    console.log('Envoi vers Whisper API...');
+    // Langue du navigateur : simple repli, la langue parlée est reconnue par Whisper
+    // (un client étranger sur un téléphone français reste compris)
+    const browserLang = toLanguageCode(req.headers['accept-language']?.split(',')[0]);
 
-    // Appel à l'API Whisper d'OpenAI
-    const whisperResponse = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        ...formData.getHeaders(),
-      },
-      body: formData,
-    });
-
-    // Nettoyer le fichier temporaire
+    // Menu pour orienter puis corriger la transcription (facultatif : sans menu, texte brut)
+    let menuData: MenuData | null = null;
     try {
-      fs.unlinkSync(audioFile.filepath);
-    } catch (cleanupError) {
-      console.warn('Impossible de supprimer le fichier temporaire:', cleanupError);
+      menuData = await loadMenu();
+    } catch (menuError) {
+      console.warn('Menu indisponible, transcription sans correction:', menuError);
     }
 
-    if (!whisperResponse.ok) {
-      const errorText = await whisperResponse.text();
-      console.error('Erreur Whisper API:', errorText);
-      
-      return res.status(whisperResponse.status).json({
-        error: 'Erreur lors de la transcription',
-        details: `API Whisper: ${whisperResponse.status} - ${errorText}`,
+    console.log(`Envoi vers ${provider.name} pour transcription...`);
+
+    let transcription: TranscriptionResult;
+    try {
+      transcription = await provider.transcribe({
+        filePath: audioFile.filepath,
+        filename: audioFile.originalFilename || 'audio.webm',
+        contentType: audioFile.mimetype || 'audio/webm',
+        prompt: menuData && process.env.TRANSCRIPTION_MENU_PROMPT !== 'false'
+          ? buildTranscriptionPrompt(menuData)
+          : undefined,
       });
+    } finally {
+      // Nettoyer le fichier temporaire
+      try {
+        fs.unlinkSync(audioFile.filepath);
+      } catch (cleanupError) {
+        console.warn('Impossible de supprimer le fichier temporaire:', cleanupError);
+      }
     }
-
-    const transcription = await whisperResponse.json() as WhisperResponse;
     
     // Vérifier que la transcription contient du texte
     if (!transcription.text || transcription.text.trim() === '') {
@@ -129,16 +104,39 @@ export default async function handler(
       });
     }
 
-    console.log('Transcription réussie:', transcription.text);
+    // Noms de plats mal compris ("brusquetta") ramenés au vocabulaire du menu
+    const rawText = transcription.text.trim();
+    const corrected = menuData
+      ? correctTranscript(rawText, menuData)
+      : { correctedText: rawText, corrections: [], matchedItemIds: [] };
+
+    // Whisper donne le nom de la langue ("french") : ramené au code ISO ("fr")
+    const detectedLanguage = toLanguageCode(transcription.language);
+
+    console.log(`Transcription réussie (${detectedLanguage || 'langue inconnue'}):`, rawText);
+    if (corrected.corrections.length > 0) {
+      console.log('Transcription corrigée:', corrected.correctedText);
+    }
 
     // Retourner la transcription avec métadonnées
     return res.status(200).json({
-      text: transcription.text.trim(),
-      language: transcription.language || browserLang,
+      text: corrected.correctedText,
+      rawText,
+      corrections: corrected.corrections,
+      matchedItemIds: corrected.matchedItemIds,
+      language: detectedLanguage || browserLang,
+      isLanguageDetected: Boolean(detectedLanguage),
       confidence: transcription.confidence || undefined,
     });
 
   } catch (error: any) {
+    if (error instanceof AIProviderError) {
+      return res.status(error.status).json({
+        error: error.message,
+        details: error.details,
+      });
+    }
+
     console.error('Erreur lors de la transcription:', error);
     
     // Gestion des erreurs spécifiques
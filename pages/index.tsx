@@ -1,74 +1,134 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import Head from 'next/head';
 import { useVoiceRecorder } from '../utils/useVoiceRecorder';
+import { useSpeech } from '../utils/useSpeech';
+import { useCart, formatPrice } from '../utils/useCart';
+import CartDrawer from '../components/CartDrawer';
+import GuestProfilePanel from '../components/GuestProfilePanel';
+import ChatPanel from '../components/ChatPanel';
+import ModifierPicker from '../components/ModifierPicker';
+import { Order } from '../utils/orders';
+import { GuestTable, TableTicket } from '../utils/tables';
+import { MenuItem, MenuData, getAllItems, localizeMenu } from '../utils/menu';
+import { useAvailability } from '../utils/useAvailability';
+import { isItemAvailable } from '../utils/availability';
+import type { ChatActions } from '../utils/chatTools';
+import { readChatStream } from '../utils/chatStream';
+import { SignedSpeech, SPOKEN_MESSAGE_KEYS } from '../utils/tts/types';
+import { useGuestProfile } from '../utils/useGuestProfile';
+import { useChatSession } from '../utils/useChatSession';
+import { ConversationTurn } from '../utils/session';
+import { useMenuView } from '../utils/useMenuView';
+import { MenuViewState } from '../utils/menuView';
+import { isProfileEmpty, profileToFilters } from '../utils/guestProfile';
+import { withDefaultOptions, validateModifierSelection, getUnitPrice } from '../utils/modifiers';
+import { MenuFilter, PRESET_FILTERS, applyMenuFilters, searchMenuItems, describeFilter, filterKey, mergeMenuFilters } from '../utils/menuFilters';
+import { MessageKey, isSupportedLocale, resolveLocale, translate, translatePlural, translateAllergen } from '../utils/i18n';
 
-// Types pour TypeScript
-interface MenuItem {
-  id: number;
-  name: string;
-  price: number;
-  image: string;
-  description: string;
-  ingredients: string[];
-  allergens: string[];
-  tags: string[];
-  vegetarian: boolean;
-  vegan: boolean;
-  halal: boolean;
-  popular: boolean;
-  spicy: boolean;
-  preparationTime: string;
-  cheeseRemovable?: boolean;
-}
+// Pause avant de reprendre l'écoute en mode mains libres (évite de capter la fin de la voix de Fred)
+const HANDS_FREE_RESUME_DELAY_MS = 400;
 
-interface MenuData {
-  restaurant: {
-    name: string;
-    description: string;
-    currency: string;
-  };
-  categories: {
-    [key: string]: {
-      name: string;
-      icon: string;
-      description: string;
-    };
-  };
-  menu: {
-    [key: string]: MenuItem[];
-  };
+// Nombre de mots à partir duquel la langue reconnue dans la voix change celle de l'interface
+// ("OK", "merci" sont trop courts pour que Whisper reconnaisse la langue sans se tromper)
+const MIN_WORDS_FOR_LANGUAGE_SWITCH = 3;
+
+interface HomeProps {
+  // Table du client, quand la page est ouverte depuis son QR code (/t/[id])
+  table?: GuestTable;
 }
 
-export default function Home() {
-  const [currentCategory, setCurrentCategory] = useState('all');
-  const [menuData, setMenuData] = useState<MenuData | null>(null);
+export default function Home({ table }: HomeProps) {
+  // Vue du menu (catégorie, filtres, sélection de Fred, recherche), synchronisée avec l'URL :
+  // un lien la partage, et le retour du navigateur annule les changements de Fred un à un
+  const { state: menuView, controls: menuViewControls } = useMenuView();
+  const { updateView } = menuViewControls;
+  const {
+    category: currentCategory,
+    filters: activeFilters,
+    recommended: recommendedIds,
+    shown: shownIds,
+    search: searchQuery,
+  } = menuView.view;
+  // Une réponse de Fred ne fait qu'une étape de l'historique, même si ses actions arrivent en plusieurs fois
+  const isNewFredStepRef = useRef(true);
+  // Menu tel que servi par l'API (français et traductions)
+  const [sourceMenu, setSourceMenu] = useState<MenuData | null>(null);
   const [filteredItems, setFilteredItems] = useState<MenuItem[]>([]);
-  const [activeFilters, setActiveFilters] = useState({
-    vegetarian: false,
-    vegan: false,
-    halal: false,
-    noAllergens: false,
-    popular: false,
-    noCheese: false
-  });
+  // Options choisies sur chaque carte, par plat
+  const [modifierSelections, setModifierSelections] = useState<Record<number, string[]>>({});
   const [showTranscript, setShowTranscript] = useState(false);
   const [assistantMessage, setAssistantMessage] = useState<string>('');
-  const [conversationHistory, setConversationHistory] = useState<Array<{
-    role: 'user' | 'assistant';
-    content: string;
-  }>>([]);
+  // Échanges avec Fred (voix et texte) et réponse en cours d'écriture, pour la conversation écrite
+  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+  // Session retrouvée dont le début n'existe plus qu'en résumé côté serveur
+  const [hasSummarizedTurns, setHasSummarizedTurns] = useState(false);
+  const [pendingReply, setPendingReply] = useState<string | null>(null);
+  const [isChatOpen, setIsChatOpen] = useState(false);
   const [isThinking, setIsThinking] = useState(false);
+  const [isCartOpen, setIsCartOpen] = useState(false);
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [isSubmittingOrder, setIsSubmittingOrder] = useState(false);
+  const [orderError, setOrderError] = useState<string | null>(null);
+  const [lastOrder, setLastOrder] = useState<Order | null>(null);
+
+  // Mode mains libres : l'écoute reprend seule après chaque réponse de Fred
+  const [isHandsFree, setIsHandsFree] = useState(false);
+
+  // Profil alimentaire du client (mémorisé d'une visite à l'autre)
+  const { state: guest, controls: guestControls } = useGuestProfile();
+  const profileFilters = useMemo(() => profileToFilters(guest.profile), [guest.profile]);
+
+  // Lien signé de la table, joint aux messages pour Fred et aux commandes pour la cuisine
+  const tableTicket: TableTicket | undefined = table && { tableId: table.tableId, sig: table.sig };
+
+  // Session de conversation tenue par le serveur (historique, panier, filtres), retrouvée au rechargement
+  const { state: chatSession, controls: sessionControls } = useChatSession(guest.token);
+  const { syncState: syncSessionState } = sessionControls;
+
+  // Langue du client : celle de son profil, mise à jour par la langue reconnue dans sa voix
+  const language = resolveLocale(guest.profile.language);
+  const t = (key: MessageKey, params?: Record<string, string | number>) => translate(language, key, params);
+
+  // Menu affiché dans la langue du client
+  const menuData = useMemo(() => sourceMenu && localizeMenu(sourceMenu, language), [sourceMenu, language]);
 
   // Hook vocal
-  const { state: voiceState, controls: voiceControls } = useVoiceRecorder();
+  const { state: voiceState, controls: voiceControls } = useVoiceRecorder({ handsFree: isHandsFree, language });
+
+  // Panier (persisté dans le navigateur)
+  const { state: cart, controls: cartControls } = useCart();
+
+  // Disponibilités en direct (plats en rupture grisés)
+  const availability = useAvailability();
+
+  // Voix de Fred (voix serveur, sinon synthèse du navigateur), dans la langue du client
+  const { state: speech, controls: speechControls } = useSpeech(language);
+  const { speak: speakMessage, stop: stopSpeaking } = speechControls;
+  const isFredSpeaking = speech.isSpeaking;
+  // Le message de bienvenue enchaîne sur l'enregistrement quand Fred a fini, même hors mains libres
+  const recordAfterSpeechRef = useRef(false);
+  // Phrases signées de chaque réponse reçue, pour la réécouter avec la voix serveur
+  const signedRepliesRef = useRef(new Map<string, SignedSpeech[]>());
+
+  // Réécouter un message : phrases signées ou message du catalogue, sinon voix du navigateur
+  // (réponses retrouvées avec la session, dont la page n'a pas reçu les signatures)
+  const replayMessage = (message: string) => {
+    const sentences = signedRepliesRef.current.get(message);
+    const key = SPOKEN_MESSAGE_KEYS.find(candidate => t(candidate) === message);
+    if (sentences && sentences.length > 0) {
+      sentences.forEach((sentence, index) => speakMessage(sentence.text, index > 0, { sig: sentence.sig }));
+    } else {
+      speakMessage(message, false, key ? { key } : undefined);
+    }
+  };
 
   // Charger les données du menu
   useEffect(() => {
     const loadMenuData = async () => {
       try {
-        const response = await fetch('/data/menu.json');
+        const response = await fetch('/api/menu');
         const data = await response.json();
-        setMenuData(data);
+        setSourceMenu(data);
       } catch (error) {
         console.error('Erreur lors du chargement du menu:', error);
       }
@@ -81,111 +141,182 @@ export default function Home() {
     if (!menuData) return;
 
     let items: MenuItem[] = [];
-    
+
+    // Sélection de Fred : liste explicite, dans l'ordre donné
+    if (shownIds) {
+      const allItems = getAllItems(menuData);
+      items = shownIds
+        .map(itemId => allItems.find(item => item.id === itemId))
+        .filter((item): item is MenuItem => Boolean(item));
+      setFilteredItems(items);
+      return;
+    }
+
     // Filtrer par catégorie
     if (currentCategory === 'all') {
-      items = Object.values(menuData.menu).flat();
+      items = getAllItems(menuData);
     } else {
       items = menuData.menu[currentCategory] || [];
     }
 
-    // Appliquer les filtres standards
-    if (activeFilters.vegetarian) {
-      items = items.filter(item => item.vegetarian);
-    }
-    if (activeFilters.vegan) {
-      items = items.filter(item => item.vegan);
-    }
-    if (activeFilters.halal) {
-      items = items.filter(item => item.halal);
-    }
-    if (activeFilters.popular) {
-      items = items.filter(item => item.popular);
-    }
-    if (activeFilters.noAllergens) {
-      items = items.filter(item => item.allergens.length === 0);
-    }
-    
-    // CORRECTION : Filtre sans fromage - CACHER les plats avec fromage
-    if (activeFilters.noCheese) {
-      items = items.filter(item => {
-        // Garder seulement les plats qui :
-        // 1. N'ont pas de lait dans les allergènes, OU
-        // 2. Peuvent être préparés sans fromage (cheeseRemovable = true)
-        return !item.allergens.includes('lait') || item.cheeseRemovable === true;
-      });
-    }
+    // Appliquer le profil du client, les filtres actifs (puces et actions de Fred) puis la recherche
+    items = searchMenuItems(applyMenuFilters(items, [...profileFilters, ...activeFilters]), searchQuery);
 
     console.log('Filtres appliqués:', activeFilters);
     console.log('Items filtrés:', items);
     
+    // Plats conseillés épinglés en tête ; les plats en rupture restent visibles mais passent en fin de liste
+    const isRecommended = (item: MenuItem) => recommendedIds.includes(item.id);
+    const isAvailable = (item: MenuItem) => isItemAvailable(availability, item.id);
+    items = [
+      ...recommendedIds
+        .map(itemId => items.find(item => item.id === itemId))
+        .filter((item): item is MenuItem => Boolean(item) && isAvailable(item)),
+      ...items.filter(item => !isRecommended(item) && isAvailable(item)),
+      ...items.filter(item => !isAvailable(item)),
+    ];
+
     setFilteredItems(items);
-  }, [menuData, currentCategory, activeFilters]);
+  }, [menuData, currentCategory, activeFilters, searchQuery, profileFilters, availability, recommendedIds, shownIds]);
 
-  // Détecter la langue du navigateur
-  const getBrowserLanguage = () => {
-    const lang = navigator.language.split('-')[0];
-    return ['fr', 'en', 'es', 'de', 'it'].includes(lang) ? lang : 'fr';
-  };
+  // Faire défiler jusqu'au premier plat conseillé
+  useEffect(() => {
+    if (recommendedIds.length === 0) return;
+    const frame = requestAnimationFrame(() => {
+      document.getElementById(`dish-${recommendedIds[0]}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [recommendedIds]);
 
-  // Message de salutation selon la langue
-  const getWelcomeMessage = () => {
-    const lang = getBrowserLanguage();
-    const messages = {
-      fr: "Bonjour, je suis Fred votre serveur digital ! Je suis là pour vous aider, vous orienter et vous expliquer le menu. Alors dites-moi, qu'est-ce qui vous ferait plaisir aujourd'hui ?",
-      en: "Hello, I'm Fred your digital waiter! I'm here to help you, guide you and explain the menu. So tell me, what would you like today?",
-      es: "¡Hola, soy Fred tu camarero digital! Estoy aquí para ayudarte, orientarte y explicarte la carta. Entonces dime, ¿qué te gustaría hoy?",
-      de: "Hallo, ich bin Fred, Ihr digitaler Kellner! Ich bin hier, um Ihnen zu helfen, Sie zu führen und das Menü zu erklären. Also sagen Sie mir, was hätten Sie heute gerne?",
-      it: "Ciao, sono Fred il vostro cameriere digitale! Sono qui per aiutarvi, guidarvi e spiegarvi il menu. Allora ditemi, cosa vi farebbe piacere oggi?"
-    };
-    return messages[lang as keyof typeof messages] || messages.fr;
-  };
+  // Session retrouvée : reprendre l'écran et la dernière réponse de Fred là où le client les avait laissés.
+  // Un lien partagé ("desserts vegan") l'emporte sur l'écran de la session.
+  useEffect(() => {
+    const session = chatSession.session;
+    if (!session || !menuView.isRestored) return;
+    if (!menuView.isFromLink) {
+      updateView({ category: session.category, filters: session.filters });
+    }
+    setConversation(session.history);
+    setHasSummarizedTurns(session.summarizedCount > 0);
+    const lastReply = [...session.history].reverse().find(turn => turn.role === 'assistant');
+    if (lastReply) setAssistantMessage(lastReply.content);
+  }, [chatSession.session, menuView.isRestored, menuView.isFromLink, updateView]);
+
+  // Tenir la session à jour de ce que le client voit et de son panier
+  useEffect(() => {
+    if (!chatSession.isLoaded) return;
+    syncSessionState({
+      category: currentCategory,
+      filters: activeFilters,
+      cart: cart.lines.map(line => ({
+        itemId: line.itemId,
+        quantity: line.quantity,
+        note: line.note,
+        options: line.options,
+      })),
+    });
+  }, [chatSession.isLoaded, currentCategory, activeFilters, cart.lines, syncSessionState]);
+
+  // Langue de la page pour le navigateur (lecteurs d'écran, traduction automatique)
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
 
   // Gérer le clic sur le bouton vocal
   const handleVoiceClick = async () => {
     if (voiceState.isRecording) {
+      // Arrêter à la main quitte le mode mains libres (sinon l'écoute reprendrait aussitôt)
+      setIsHandsFree(false);
       await voiceControls.stopRecording();
     } else {
-      // Première utilisation : dire le message de bienvenue
+      // Première utilisation : dire le message de bienvenue, l'enregistrement démarre
+      // à la fin du message ou dès que le client prend la parole
       if (!assistantMessage) {
-        const welcomeMsg = getWelcomeMessage();
+        const welcomeMsg = t('assistant.welcome');
         setAssistantMessage(welcomeMsg);
-        speakMessage(welcomeMsg);
+        recordAfterSpeechRef.current = true;
+        speakMessage(welcomeMsg, false, { key: 'assistant.welcome' });
+        await voiceControls.listenForBargeIn(stopSpeaking);
+        return;
       }
+      // Le client veut parler : Fred se tait
+      stopSpeaking();
       await voiceControls.startRecording();
     }
   };
 
-  // Synthèse vocale simple avec Web Speech API
-  const speakMessage = (message: string) => {
-    if ('speechSynthesis' in window) {
-      // Arrêter toute synthèse en cours
-      window.speechSynthesis.cancel();
-      
-      const utterance = new SpeechSynthesisUtterance(message);
-      utterance.lang = navigator.language;
-      utterance.rate = 0.9;
-      utterance.pitch = 1;
-      utterance.volume = 0.8;
-      
-      window.speechSynthesis.speak(utterance);
+  // Mains libres : reprendre l'écoute quand Fred a fini de répondre et de parler
+  const { startRecording } = voiceControls;
+  useEffect(() => {
+    if (!isHandsFree || voiceState.error) return;
+    if (voiceState.isRecording || voiceState.isProcessing || isThinking || isFredSpeaking) return;
+    const timer = setTimeout(() => startRecording(), HANDS_FREE_RESUME_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isHandsFree, voiceState.error, voiceState.isRecording, voiceState.isProcessing, isThinking, isFredSpeaking, startRecording]);
+
+  // Écouter le client dès que Fred parle, quel que soit le mode, pour qu'il puisse l'interrompre
+  const { listenForBargeIn, stopListeningForBargeIn } = voiceControls;
+  useEffect(() => {
+    if (isFredSpeaking && !voiceState.isRecording && !voiceState.isProcessing) {
+      listenForBargeIn(stopSpeaking);
     }
-  };
+  }, [isFredSpeaking, voiceState.isRecording, voiceState.isProcessing, listenForBargeIn, stopSpeaking]);
+
+  // Le client a pris la parole (interruption ou appui) : la bienvenue ne lancera plus l'enregistrement
+  useEffect(() => {
+    if (voiceState.isRecording) recordAfterSpeechRef.current = false;
+  }, [voiceState.isRecording]);
+
+  // Fred a fini sans être interrompu : en mains libres ou après la bienvenue, l'écoute devient
+  // un enregistrement ; sinon le micro se referme jusqu'au prochain appui
+  useEffect(() => {
+    if (!voiceState.isListeningForBargeIn || isFredSpeaking || isThinking) return;
+    if (isHandsFree || recordAfterSpeechRef.current) {
+      recordAfterSpeechRef.current = false;
+      startRecording();
+    } else {
+      stopListeningForBargeIn();
+    }
+  }, [voiceState.isListeningForBargeIn, isFredSpeaking, isThinking, isHandsFree, startRecording, stopListeningForBargeIn]);
 
   // Traiter la transcription reçue
   useEffect(() => {
     if (voiceState.transcript) {
       setShowTranscript(true);
       console.log('Transcription reçue:', voiceState.transcript);
+
+      // Le client parle une autre langue : l'interface, la voix de Fred et sa réponse suivent
+      let spokenLanguage = language;
+      const wordCount = voiceState.transcript.trim().split(/\s+/).length;
+      if (isSupportedLocale(voiceState.transcriptLanguage) && wordCount >= MIN_WORDS_FOR_LANGUAGE_SWITCH) {
+        spokenLanguage = voiceState.transcriptLanguage;
+        if (spokenLanguage !== guest.profile.language) {
+          guestControls.updateProfile({ language: spokenLanguage });
+        }
+      }
+
       // Traitement intelligent avec ChatGPT
-      processUserInputWithAI(voiceState.transcript);
+      processUserInputWithAI(voiceState.transcript, spokenLanguage);
     }
   }, [voiceState.transcript]);
 
-  // Traitement intelligent avec ChatGPT
-  const processUserInputWithAI = async (userMessage: string) => {
+  // Traitement intelligent avec ChatGPT, réponse en flux
+  const processUserInputWithAI = async (userMessage: string, replyLanguage: string = language) => {
     setIsThinking(true);
-    
+    isNewFredStepRef.current = true;
+    setConversation(prev => [...prev, { role: 'user', content: userMessage }]);
+    setPendingReply('');
+
+    // Texte affiché au fil de l'eau ; le serveur envoie phrase par phrase, chacune dite à son arrivée
+    let streamedText = '';
+    let hasStartedSpeaking = false;
+
+    const speakSentence = (sentence: string, sig?: string) => {
+      if (!sentence) return;
+      speakMessage(sentence, hasStartedSpeaking, sig ? { sig } : undefined);
+      hasStartedSpeaking = true;
+    };
+
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
@@ -194,8 +325,10 @@ export default function Home() {
         },
         body: JSON.stringify({
           message: userMessage,
-          menuData: menuData,
-          conversationHistory: conversationHistory,
+          guestToken: guest.token,
+          language: replyLanguage,
+          table: tableTicket,
+          stream: true,
         }),
       });
 
@@ -203,122 +336,209 @@ export default function Home() {
         throw new Error('Erreur lors de la communication avec l\'assistant');
       }
 
-      const data = await response.json();
-      
-      // Mettre à jour l'historique de conversation
-      const newHistory = [
-        ...conversationHistory,
-        { role: 'user' as const, content: userMessage },
-        { role: 'assistant' as const, content: data.response },
-      ];
-      setConversationHistory(newHistory);
-      
-      // Afficher la réponse
-      setAssistantMessage(data.response);
-      speakMessage(data.response);
-      
-      // Exécuter les actions suggérées par l'IA
-      if (data.actions) {
-        executeAIActions(data.actions);
+      let finalResponse = '';
+      let finalSpeech: SignedSpeech[] = [];
+      await readChatStream(response, {
+        onDelta: (text, sig) => {
+          streamedText += text;
+          setIsThinking(false);
+          setAssistantMessage(streamedText);
+          setPendingReply(streamedText);
+          speakSentence(text.trim(), sig);
+        },
+        // Exécuter les actions suggérées par l'IA dès leur réception
+        onActions: (actions) => executeAIActions(actions),
+        onDone: (data) => {
+          // Actions refusées ou corrigées par le serveur (diagnostic)
+          if (data.debug?.rejected) {
+            console.warn('Actions IA rejetées par le serveur:', data.debug.rejected);
+          }
+          if (data.debug?.safety) {
+            console.warn('Réponse corrigée par le garde-fou allergènes:', data.debug.safety);
+          }
+          finalResponse = data.response;
+          finalSpeech = data.speech || [];
+        },
+        onError: (data) => {
+          throw new Error(data.details || data.error);
+        },
+      });
+
+      if (!finalResponse) {
+        throw new Error('Réponse incomplète de l\'assistant');
       }
-      
+
+      // Réponse produite sans flux de texte (ex: après correction d'outils)
+      if (!streamedText) {
+        finalSpeech.forEach(sentence => speakSentence(sentence.text, sentence.sig));
+      }
+      signedRepliesRef.current.set(finalResponse, finalSpeech);
+      setAssistantMessage(finalResponse);
+      setConversation(prev => [...prev, { role: 'assistant', content: finalResponse }]);
+
     } catch (error) {
       console.error('Erreur lors du traitement IA:', error);
-      const fallbackMessage = "Désolé, j'ai un petit problème technique. Pouvez-vous répéter votre demande ?";
+      const fallbackMessage = translate(replyLanguage, 'assistant.fallback');
       setAssistantMessage(fallbackMessage);
-      speakMessage(fallbackMessage);
+      setConversation(prev => [...prev, { role: 'assistant', content: fallbackMessage }]);
+      speakMessage(fallbackMessage, false, { key: 'assistant.fallback' });
     } finally {
       setIsThinking(false);
+      setPendingReply(null);
     }
   };
 
   // Exécuter les actions suggérées par l'IA
-  const executeAIActions = (actions: any) => {
+  const executeAIActions = (actions: ChatActions) => {
     console.log('Actions reçues de l\'IA:', actions);
+
+    // Changements de vue de cette réponse : une seule étape de l'historique du navigateur
+    const changes: Partial<MenuViewState> = {};
     
     // PRIORITÉ 1 : Changer de catégorie EN PREMIER
     if (actions.filterCategory) {
       console.log('Changement de catégorie vers:', actions.filterCategory);
-      setCurrentCategory(actions.filterCategory);
+      changes.category = actions.filterCategory;
     }
     
-    // PRIORITÉ 2 : Réinitialiser les filtres puis appliquer les nouveaux
+    // PRIORITÉ 2 : Remplacer les filtres actifs ou en ajouter (appliqué avec la vue courante, plus bas)
     if (actions.setFilters) {
       console.log('Application des filtres:', actions.setFilters);
-      
-      // Réinitialiser TOUS les filtres d'abord
-      setActiveFilters({
-        vegetarian: false,
-        vegan: false,
-        halal: false,
-        noAllergens: false,
-        popular: false,
-        noCheese: false
-      });
-      
-      // Puis appliquer les nouveaux filtres après un délai
-      setTimeout(() => {
-        setActiveFilters(prev => ({
-          ...prev,
-          ...actions.setFilters
-        }));
-      }, 100);
     }
-    
-    // PRIORITÉ 3 : Gérer les filtres personnalisés intelligents
-    if (actions.customFilters) {
-      console.log('Filtres personnalisés:', actions.customFilters);
-      
-      // Filtre pour les plats avec fromage
-      if (actions.customFilters.withCheese) {
-        // Réinitialiser les filtres et ne montrer que les plats avec fromage
-        setActiveFilters({
-          vegetarian: false,
-          vegan: false,
-          halal: false,
-          noAllergens: false,
-          popular: false,
-          noCheese: false // Pas de filtre sans fromage
-        });
-        
-        // Changer vers "Tout" pour voir tous les plats avec fromage
-        setCurrentCategory('all');
-        
-        // TODO: Implémenter un filtre "avec fromage" plus tard
-      }
-    }
-    
-    // PRIORITÉ 4 : Gérer les recommandations spécifiques
+
+    // PRIORITÉ 3 : Mettre en avant les plats conseillés, ou n'afficher qu'une sélection
     if (actions.recommendedItems) {
       console.log('Plats recommandés:', actions.recommendedItems);
-      // TODO: Mettre en évidence les plats recommandés
+      changes.recommended = actions.recommendedItems;
     }
-    
+
     if (actions.showItems) {
       console.log('Plats à afficher:', actions.showItems);
-      // TODO: Afficher seulement ces plats spécifiques
+      changes.shown = actions.showItems;
+    } else if (actions.filterCategory || actions.setFilters || actions.addFilters) {
+      // Une nouvelle catégorie ou de nouveaux filtres referment la sélection
+      changes.shown = null;
+    }
+
+    if (Object.keys(changes).length > 0 || actions.setFilters || actions.addFilters) {
+      updateView(view => ({
+        ...changes,
+        ...(actions.setFilters || actions.addFilters
+          ? { filters: mergeMenuFilters(actions.setFilters || view.filters, actions.addFilters || []) }
+          : {}),
+      }), isNewFredStepRef.current ? 'push' : 'replace');
+      isNewFredStepRef.current = false;
+    }
+
+    // PRIORITÉ 5 : Modifier le panier à la voix
+    if (actions.addToCart || actions.removeFromCart) {
+      const allItems = menuData ? getAllItems(menuData) : [];
+
+      (actions.addToCart || []).forEach(entry => {
+        const item = allItems.find(menuItem => menuItem.id === entry.itemId);
+        if (item && isItemAvailable(availability, item.id)) {
+          cartControls.addItem(item, entry.quantity || 1, entry.note, entry.options);
+        }
+      });
+
+      (actions.removeFromCart || []).forEach(entry => {
+        cartControls.removeItem(entry.itemId, entry.quantity);
+      });
     }
   };
 
-  const toggleFilter = (filterKey: keyof typeof activeFilters) => {
-    setActiveFilters(prev => ({
-      ...prev,
-      [filterKey]: !prev[filterKey]
+  // Envoyer le panier en cuisine
+  const submitOrder = async () => {
+    if (cart.lines.length === 0) return;
+
+    setIsSubmittingOrder(true);
+    setOrderError(null);
+
+    try {
+      const response = await fetch('/api/orders', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          lines: cart.lines.map(line => ({
+            itemId: line.itemId,
+            quantity: line.quantity,
+            note: line.note,
+            options: line.options,
+          })),
+          table: tableTicket,
+        }),
+      });
+
+      if (!response.ok) {
+        // Plat passé en rupture entre-temps : le nommer au client, dans sa langue
+        const errorData = await response.json().catch(() => ({}));
+        if (response.status === 409 && Array.isArray(errorData.itemIds) && menuData) {
+          const names = getAllItems(menuData)
+            .filter(item => errorData.itemIds.includes(item.id))
+            .map(item => item.name);
+          setOrderError(t('order.unavailable', { items: names.join(', ') }));
+          return;
+        }
+        throw new Error('Erreur lors de l\'envoi de la commande');
+      }
+
+      const order: Order = await response.json();
+      setLastOrder(order);
+      cartControls.clearCart();
+
+    } catch (error) {
+      console.error('Erreur lors de l\'envoi de la commande:', error);
+      setOrderError(t('order.error'));
+    } finally {
+      setIsSubmittingOrder(false);
+    }
+  };
+
+  // Choix manuel d'une catégorie : retour à la navigation normale
+  const selectCategory = (category: string) => {
+    updateView({ category, shown: null, recommended: [] }, 'push');
+  };
+
+  // Quitter la sélection de Fred et revenir au menu complet
+  const showFullMenu = () => {
+    updateView({ category: 'all', shown: null }, 'push');
+  };
+
+  const isFilterActive = (filter: MenuFilter) =>
+    activeFilters.some(active => filterKey(active) === filterKey(filter));
+
+  const toggleFilter = (filter: MenuFilter) => {
+    updateView(view => ({
+      shown: null,
+      filters: view.filters.some(active => filterKey(active) === filterKey(filter))
+        ? view.filters.filter(active => filterKey(active) !== filterKey(filter))
+        : mergeMenuFilters(view.filters, [filter]),
     }));
   };
 
+  // Recherche saisie : l'URL suit sans créer une étape par lettre
+  const changeSearch = (search: string) => {
+    updateView({ search, shown: null });
+  };
+
   const getCategoryTitle = () => {
-    if (!menuData) return 'Chargement...';
+    if (!menuData) return t('menu.loadingShort');
+
+    if (shownIds) {
+      return t('menu.fredSelection');
+    }
     
     if (currentCategory === 'all') {
-      return 'Notre Menu';
+      return t('menu.ourMenu');
     }
     
     return menuData.categories[currentCategory]?.name || 'Menu';
   };
 
   const getActiveFiltersCount = () => {
-    return Object.values(activeFilters).filter(Boolean).length;
+    return activeFilters.length;
   };
 
   if (!menuData) {
@@ -326,7 +546,7 @@ export default function Home() {
       <div className="min-h-screen bg-gradient-to-br from-orange-50 to-red-50 flex items-center justify-center">
         <div className="text-center">
           <div className="text-6xl mb-4">🍽️</div>
-          <h2 className="text-2xl font-bold text-gray-800">Chargement du menu...</h2>
+          <h2 className="text-2xl font-bold text-gray-800">{t('menu.loading')}</h2>
         </div>
       </div>
     );
@@ -335,8 +555,8 @@ export default function Home() {
   return (
     <>
       <Head>
-        <title>FOODVOICE - Menu Interactif</title>
-        <meta name="description" content="Menu interactif avec assistant vocal" />
+        <title>{t('app.title')}</title>
+        <meta name="description" content={t('app.description')} />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
         <link rel="icon" href="/favicon.ico" />
       </Head>
@@ -352,6 +572,22 @@ export default function Home() {
               <p className="text-gray-600 text-base xs:text-lg">
                 {menuData.restaurant.description}
               </p>
+              {table && (
+                <p className="mt-2 inline-block bg-primary-50 text-primary-700 px-3 py-1 rounded-full text-sm font-semibold">
+                  📍 {table.label}
+                </p>
+              )}
+              <button
+                onClick={() => setIsProfileOpen(true)}
+                className="mt-3 inline-flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-full text-sm transition-colors mobile-tap"
+              >
+                <span>👤</span>
+                <span>
+                  {isProfileEmpty(guest.profile)
+                    ? t('profile.button')
+                    : profileFilters.map(filter => describeFilter(filter, menuData.restaurant.currency, language)).join(' · ')}
+                </span>
+              </button>
             </div>
           </div>
         </header>
@@ -361,19 +597,19 @@ export default function Home() {
           <div className="max-w-7xl mx-auto px-4">
             <div className="flex overflow-x-auto space-x-1 py-3 xs:py-4 scrollbar-hide scroll-momentum">
               <button
-                onClick={() => setCurrentCategory('all')}
+                onClick={() => selectCategory('all')}
                 className={`category-button ${
                   currentCategory === 'all' ? 'active' : 'inactive'
                 }`}
               >
                 <span>🍽️</span>
-                <span className="font-medium">Tout</span>
+                <span className="font-medium">{t('menu.all')}</span>
               </button>
               
               {Object.entries(menuData.categories).map(([key, category]) => (
                 <button
                   key={key}
-                  onClick={() => setCurrentCategory(key)}
+                  onClick={() => selectCategory(key)}
                   className={`category-button ${
                     currentCategory === key ? 'active' : 'inactive'
                   }`}
@@ -388,43 +624,51 @@ export default function Home() {
 
         {/* Filtres avancés - mobile optimisé */}
         <div className="bg-gray-50 border-b border-gray-200">
-          <div className="max-w-7xl mx-auto px-4 py-3">
+          <div className="max-w-7xl mx-auto px-4 py-3 space-y-3">
+            <div className="relative">
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => changeSearch(e.target.value)}
+                placeholder={t('menu.search')}
+                className="w-full pl-9 pr-3 py-2 rounded-full border border-gray-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary-300"
+              />
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">🔍</span>
+            </div>
             <div className="flex items-center space-x-2 overflow-x-auto scrollbar-hide scroll-momentum">
-              <span className="text-sm text-gray-600 whitespace-nowrap flex-shrink-0">Filtres:</span>
+              <span className="text-sm text-gray-600 whitespace-nowrap flex-shrink-0">{t('filters.label')}</span>
               
-              {[
-                { key: 'vegetarian', label: 'Végétarien', icon: '🥗' },
-                { key: 'vegan', label: 'Vegan', icon: '🌱' },
-                { key: 'halal', label: 'Halal', icon: '☪️' },
-                { key: 'popular', label: 'Populaire', icon: '⭐' },
-                { key: 'noCheese', label: 'Sans fromage', icon: '🚫🧀' },
-                { key: 'noAllergens', label: 'Sans allergènes', icon: '✅' },
-              ].map((filter) => (
+              {PRESET_FILTERS.map(({ filter, icon }) => (
                 <button
-                  key={filter.key}
-                  onClick={() => toggleFilter(filter.key as keyof typeof activeFilters)}
-                  className={`filter-button ${
-                    activeFilters[filter.key as keyof typeof activeFilters] ? 'active' : 'inactive'
-                  }`}
+                  key={filterKey(filter)}
+                  onClick={() => toggleFilter(filter)}
+                  className={`filter-button ${isFilterActive(filter) ? 'active' : 'inactive'}`}
                 >
-                  <span className="text-xs">{filter.icon}</span>
-                  <span>{filter.label}</span>
+                  <span className="text-xs">{icon}</span>
+                  <span>{describeFilter(filter, menuData.restaurant.currency, language)}</span>
                 </button>
               ))}
+
+              {/* Filtres posés par Fred hors des puces prédéfinies */}
+              {activeFilters
+                .filter(filter => !PRESET_FILTERS.some(preset => filterKey(preset.filter) === filterKey(filter)))
+                .map(filter => (
+                  <button
+                    key={filterKey(filter)}
+                    onClick={() => toggleFilter(filter)}
+                    className="filter-button active"
+                  >
+                    <span>{describeFilter(filter, menuData.restaurant.currency, language)}</span>
+                    <span className="text-xs">✕</span>
+                  </button>
+                ))}
               
               {getActiveFiltersCount() > 0 && (
                 <button
-                  onClick={() => setActiveFilters({
-                    vegetarian: false,
-                    vegan: false,
-                    halal: false,
-                    noAllergens: false,
-                    popular: false,
-                    noCheese: false
-                  })}
+                  onClick={() => updateView({ filters: [] })}
                   className="ml-2 px-3 py-1 bg-red-100 text-red-700 rounded-full text-sm hover:bg-red-200 transition-all mobile-tap flex-shrink-0"
                 >
-                  Effacer ({getActiveFiltersCount()})
+                  {t('filters.clear', { count: getActiveFiltersCount() })}
                 </button>
               )}
             </div>
@@ -447,11 +691,11 @@ export default function Home() {
                   {assistantMessage && (
                     <div className="chat-bubble assistant">
                       <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-semibold text-secondary-800 text-sm xs:text-base">Fred (Assistant)</h4>
+                        <h4 className="font-semibold text-secondary-800 text-sm xs:text-base">{t('assistant.name')}</h4>
                         <button
-                          onClick={() => speakMessage(assistantMessage)}
+                          onClick={() => replayMessage(assistantMessage)}
                           className="text-secondary-600 hover:text-secondary-800 transition-colors mobile-tap p-1"
-                          title="Réécouter le message"
+                          title={t('assistant.replay')}
                         >
                           🔊
                         </button>
@@ -464,7 +708,7 @@ export default function Home() {
                   {voiceState.transcript && showTranscript && (
                     <div className="chat-bubble user">
                       <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-semibold text-success-800 text-sm xs:text-base">Vous avez dit :</h4>
+                        <h4 className="font-semibold text-success-800 text-sm xs:text-base">{t('assistant.youSaid')}</h4>
                         <button
                           onClick={() => {
                             setShowTranscript(false);
@@ -482,7 +726,7 @@ export default function Home() {
                   {/* Erreurs */}
                   {voiceState.error && (
                     <div className="chat-bubble error">
-                      <h4 className="font-semibold text-red-800 mb-2 text-sm xs:text-base">Erreur :</h4>
+                      <h4 className="font-semibold text-red-800 mb-2 text-sm xs:text-base">{t('assistant.error')}</h4>
                       <p className="text-red-700 text-sm xs:text-base">{voiceState.error}</p>
                     </div>
                   )}
@@ -497,9 +741,17 @@ export default function Home() {
               {getCategoryTitle()}
             </h2>
             <p className="text-gray-600 text-sm xs:text-base">
-              {filteredItems.length} plat{filteredItems.length > 1 ? 's' : ''} disponible{filteredItems.length > 1 ? 's' : ''}
-              {getActiveFiltersCount() > 0 && ` (${getActiveFiltersCount()} filtre${getActiveFiltersCount() > 1 ? 's' : ''} actif${getActiveFiltersCount() > 1 ? 's' : ''})`}
+              {translatePlural(language, 'menu.dishCount', filteredItems.length)}
+              {!shownIds && getActiveFiltersCount() > 0 && ` ${translatePlural(language, 'menu.activeFilters', getActiveFiltersCount())}`}
             </p>
+            {shownIds && (
+              <button
+                onClick={showFullMenu}
+                className="mt-3 bg-secondary-100 hover:bg-secondary-200 text-secondary-700 px-4 py-2 rounded-full text-sm font-medium transition-colors mobile-tap"
+              >
+                {t('menu.backToFullMenu')}
+              </button>
+            )}
           </div>
 
           {/* Message si aucun résultat */}
@@ -507,118 +759,151 @@ export default function Home() {
             <div className="text-center py-12">
               <div className="text-5xl xs:text-6xl mb-4">🤷‍♂️</div>
               <h3 className="text-lg xs:text-xl font-semibold text-gray-800 mb-2">
-                Aucun plat ne correspond à vos critères
+                {t('menu.noResults')}
               </h3>
               <p className="text-gray-600 mb-4 text-sm xs:text-base">
-                Essayez de modifier vos filtres ou votre catégorie
+                {t('menu.noResultsHint')}
               </p>
               <button
-                onClick={() => {
-                  setCurrentCategory('all');
-                  setActiveFilters({
-                    vegetarian: false,
-                    vegan: false,
-                    halal: false,
-                    noAllergens: false,
-                    popular: false,
-                    noCheese: false
-                  });
-                }}
+                onClick={() => updateView({ category: 'all', shown: null, filters: [], search: '' }, 'push')}
                 className="bg-primary-500 hover:bg-primary-600 text-white px-6 py-3 rounded-lg font-medium transition-colors mobile-tap"
               >
-                Voir tout le menu
+                {t('menu.showAll')}
               </button>
             </div>
           )}
 
           {/* Grille des plats - mobile-first */}
           <div className="food-grid">
-            {filteredItems.map((item) => (
-              <div key={item.id} className="food-card animate-fade-in-up">
-                {/* Image du plat */}
-                <div className="h-44 xs:h-48 bg-gradient-to-br from-orange-200 to-red-200 flex items-center justify-center relative">
-                  <div className="text-5xl xs:text-6xl">🍽️</div>
-                  
-                  {/* Badges - repositionnés pour mobile */}
-                  <div className="absolute top-2 xs:top-3 left-2 xs:left-3 flex flex-wrap gap-1">
-                    {item.popular && (
-                      <span className="food-badge popular">
-                        ⭐ Populaire
-                      </span>
-                    )}
-                    {item.spicy && (
-                      <span className="food-badge spicy">
-                        🌶️ Épicé
-                      </span>
-                    )}
-                    {item.vegetarian && (
-                      <span className="food-badge vegetarian">
-                        🥗 Végé
-                      </span>
-                    )}
-                    {item.vegan && (
-                      <span className="food-badge vegan">
-                        🌱 Vegan
-                      </span>
-                    )}
-                  </div>
+            {filteredItems.map((item) => {
+              const isAvailable = isItemAvailable(availability, item.id);
+              const isRecommended = recommendedIds.includes(item.id);
+              const selectedOptions = withDefaultOptions(item, modifierSelections[item.id] || []);
+              const optionErrors = validateModifierSelection(item, selectedOptions);
 
-                  {/* Temps de préparation */}
-                  <div className="absolute top-2 xs:top-3 right-2 xs:right-3">
-                    <span className="bg-black bg-opacity-50 text-white px-2 py-1 rounded-full text-xs">
-                      ⏱️ {item.preparationTime}
-                    </span>
-                  </div>
-                </div>
+              return (
+                <div
+                  key={item.id}
+                  id={`dish-${item.id}`}
+                  className={`food-card animate-fade-in-up ${isRecommended ? 'recommended' : ''} ${isAvailable ? '' : 'opacity-50 grayscale'}`}
+                >
+                  {/* Image du plat */}
+                  <div className="h-44 xs:h-48 bg-gradient-to-br from-orange-200 to-red-200 flex items-center justify-center relative">
+                    <div className="text-5xl xs:text-6xl">🍽️</div>
 
-                {/* Contenu - optimisé mobile */}
-                <div className="p-4 xs:p-6">
-                  <div className="flex justify-between items-start mb-3">
-                    <h3 className="text-lg xs:text-xl font-bold text-gray-800 leading-tight">
-                      {item.name}
-                    </h3>
-                    <span className="text-xl xs:text-2xl font-bold text-primary-600 flex-shrink-0 ml-2">
-                      {item.price}{menuData.restaurant.currency}
-                    </span>
-                  </div>
-                  
-                  <p className="text-gray-600 text-sm leading-relaxed mb-4">
-                    {item.description}
-                  </p>
-
-                  {/* Allergènes - compacts sur mobile */}
-                  {item.allergens.length > 0 && (
-                    <div className="mb-4">
-                      <p className="text-xs text-gray-500 mb-1">Allergènes:</p>
-                      <div className="flex flex-wrap gap-1">
-                        {item.allergens.map((allergen) => (
-                          <span
-                            key={allergen}
-                            className="bg-red-100 text-red-700 px-2 py-1 rounded text-xs"
-                          >
-                            {allergen}
-                          </span>
-                        ))}
+                    {/* Plat en rupture */}
+                    {!isAvailable && (
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <span className="bg-gray-900 bg-opacity-80 text-white px-4 py-2 rounded-full font-semibold">
+                          {t('dish.soldOut')}
+                        </span>
                       </div>
+                    )}
+                  
+                    {/* Badges - repositionnés pour mobile */}
+                    <div className="absolute top-2 xs:top-3 left-2 xs:left-3 flex flex-wrap gap-1">
+                      {isRecommended && (
+                        <span className="food-badge recommended">
+                          🤖 {t('dish.recommended')}
+                        </span>
+                      )}
+                      {item.popular && (
+                        <span className="food-badge popular">
+                          ⭐ {t('dish.popular')}
+                        </span>
+                      )}
+                      {item.spicy && (
+                        <span className="food-badge spicy">
+                          🌶️ {t('dish.spicy')}
+                        </span>
+                      )}
+                      {item.vegetarian && (
+                        <span className="food-badge vegetarian">
+                          🥗 {t('dish.vegetarian')}
+                        </span>
+                      )}
+                      {item.vegan && (
+                        <span className="food-badge vegan">
+                          🌱 {t('dish.vegan')}
+                        </span>
+                      )}
                     </div>
-                  )}
 
-                  {/* Options spéciales */}
-                  {item.cheeseRemovable && (
-                    <div className="mb-4">
-                      <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded text-xs">
-                        🧀 Sans fromage possible
+                    {/* Temps de préparation */}
+                    <div className="absolute top-2 xs:top-3 right-2 xs:right-3">
+                      <span className="bg-black bg-opacity-50 text-white px-2 py-1 rounded-full text-xs">
+                        ⏱️ {item.preparationTime}
+                      </span>
+                    </div>
+                  </div>
+
+                  {/* Contenu - optimisé mobile */}
+                  <div className="p-4 xs:p-6">
+                    <div className="flex justify-between items-start mb-3">
+                      <h3 className="text-lg xs:text-xl font-bold text-gray-800 leading-tight">
+                        {item.name}
+                      </h3>
+                      <span className="text-xl xs:text-2xl font-bold text-primary-600 flex-shrink-0 ml-2">
+                        {formatPrice(getUnitPrice(item, selectedOptions), menuData.restaurant.currency)}
                       </span>
                     </div>
-                  )}
                   
-                  {/* Bouton Commander - mobile optimisé */}
-                  <button className="w-full bg-primary-500 hover:bg-primary-600 text-white font-semibold py-3 px-4 rounded-lg transition-colors mobile-tap touch-target">
-                    Commander
-                  </button>
+                    <p className="text-gray-600 text-sm leading-relaxed mb-4">
+                      {item.description}
+                    </p>
+
+                    {/* Allergènes - compacts sur mobile */}
+                    {item.allergens.length > 0 && (
+                      <div className="mb-4">
+                        <p className="text-xs text-gray-500 mb-1">{t('dish.allergens')}</p>
+                        <div className="flex flex-wrap gap-1">
+                          {item.allergens.map((allergen) => (
+                            <span
+                              key={allergen}
+                              className="bg-red-100 text-red-700 px-2 py-1 rounded text-xs"
+                            >
+                              {translateAllergen(language, allergen)}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Options spéciales */}
+                    {item.cheeseRemovable && (
+                      <div className="mb-4">
+                        <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded text-xs">
+                          🧀 {t('dish.cheeseRemovable')}
+                        </span>
+                      </div>
+                    )}
+                  
+                    {/* Options du plat */}
+                    <ModifierPicker
+                      item={item}
+                      selected={selectedOptions}
+                      onChange={(options) => setModifierSelections(prev => ({ ...prev, [item.id]: options }))}
+                      currency={menuData.restaurant.currency}
+                      language={language}
+                      disabled={!isAvailable}
+                    />
+
+                    {/* Bouton Commander - mobile optimisé */}
+                    <button
+                      onClick={() => {
+                        cartControls.addItem(item, 1, undefined, selectedOptions);
+                        setModifierSelections(prev => ({ ...prev, [item.id]: [] }));
+                      }}
+                      disabled={!isAvailable || optionErrors.length > 0}
+                      title={optionErrors.join(', ') || undefined}
+                      className="w-full bg-primary-500 hover:bg-primary-600 disabled:bg-gray-400 text-white font-semibold py-3 px-4 rounded-lg transition-colors mobile-tap touch-target"
+                    >
+                      {isAvailable ? t('dish.order') : t('dish.soldOut')}
+                    </button>
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </main>
 
@@ -660,38 +945,53 @@ export default function Home() {
             <div className="text-center max-w-xs">
               <p className="text-xs xs:text-sm font-medium text-gray-700 bg-white px-3 xs:px-4 py-1 xs:py-2 rounded-full shadow-lg glass">
                 {voiceState.isProcessing
-                  ? 'Traitement...'
+                  ? t('voice.processing')
                   : isThinking
-                  ? 'Fred réfléchit...'
+                  ? t('voice.thinking')
+                  : voiceState.isListeningForBargeIn
+                  ? t('voice.bargeIn')
+                  : voiceState.isRecording && isHandsFree
+                  ? voiceState.isSpeaking ? t('voice.hearingYou') : t('voice.handsFreeListening')
                   : voiceState.isRecording
-                  ? 'En écoute... (tapez pour arrêter)'
+                  ? t('voice.listening')
                   : assistantMessage
-                  ? 'Parlez-moi !'
-                  : 'Tapez pour commencer'
+                  ? t('voice.talkToMe')
+                  : t('voice.tapToStart')
                 }
               </p>
             </div>
 
+            {/* Mode mains libres : arrêt automatique en fin de phrase */}
+            <button
+              onClick={() => setIsHandsFree(!isHandsFree)}
+              className={`text-xs px-3 py-1 rounded-full shadow mobile-tap ${
+                isHandsFree ? 'bg-secondary-500 text-white' : 'bg-white text-gray-600'
+              }`}
+              title={t('voice.handsFreeHint')}
+            >
+              🙌 {isHandsFree ? t('voice.handsFreeOn') : t('voice.handsFreeOff')}
+            </button>
+
             {/* Raccourcis rapides - avec IA */}
             {!voiceState.isRecording && !voiceState.isProcessing && !isThinking && (
               <div className="hidden xs:flex space-x-2 mt-2 xs:mt-3">
                 <button
-                  onClick={() => processUserInputWithAI('Je veux des pizzas')}
+                  onClick={() => processUserInputWithAI(t('quick.pizzas.request'))}
                   className="quick-action"
                 >
-                  🍕 Pizzas
+                  🍕 {t('quick.pizzas')}
                 </button>
                 <button
-                  onClick={() => processUserInputWithAI('Montrez-moi les pâtes')}
+                  onClick={() => processUserInputWithAI(t('quick.pasta.request'))}
                   className="quick-action"
                 >
-                  🍝 Pâtes
+                  🍝 {t('quick.pasta')}
                 </button>
                 <button
-                  onClick={() => processUserInputWithAI('Je suis végétarien')}
+                  onClick={() => processUserInputWithAI(t('quick.vegetarian.request'))}
                   className="quick-action"
                 >
-                  🥗 Végé
+                  🥗 {t('quick.vegetarian')}
                 </button>
               </div>
             )}
@@ -704,11 +1004,69 @@ export default function Home() {
                   <div className="w-2 h-2 bg-secondary-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
                   <div className="w-2 h-2 bg-secondary-500 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
                 </div>
-                <span className="text-xs text-gray-600">Fred réfléchit...</span>
+                <span className="text-xs text-gray-600">{t('voice.thinking')}</span>
               </div>
             )}
           </div>
         </div>
+
+        {/* Bouton de la conversation écrite */}
+        <button
+          onClick={() => setIsChatOpen(true)}
+          className="fixed bottom-4 xs:bottom-6 left-4 z-30 safe-bottom bg-white shadow-voice-button rounded-full px-4 py-3 flex items-center space-x-2 mobile-tap touch-target"
+          title={t('chat.open')}
+        >
+          <span className="text-xl">💬</span>
+          <span className="hidden xs:inline font-semibold text-gray-800">{t('chat.open')}</span>
+        </button>
+
+        {/* Bouton panier flottant */}
+        {(cart.itemCount > 0 || lastOrder) && (
+          <button
+            onClick={() => setIsCartOpen(true)}
+            className="fixed bottom-4 xs:bottom-6 right-4 z-30 safe-bottom bg-white shadow-voice-button rounded-full px-4 py-3 flex items-center space-x-2 mobile-tap touch-target"
+          >
+            <span className="text-xl">🛒</span>
+            <span className="bg-primary-500 text-white text-xs font-bold rounded-full px-2 py-1">
+              {cart.itemCount}
+            </span>
+            <span className="hidden xs:inline font-semibold text-gray-800">
+              {formatPrice(cart.total, menuData.restaurant.currency)}
+            </span>
+          </button>
+        )}
+
+        <CartDrawer
+          isOpen={isCartOpen}
+          onClose={() => setIsCartOpen(false)}
+          cart={cart}
+          controls={cartControls}
+          currency={menuData.restaurant.currency}
+          onSubmit={submitOrder}
+          isSubmitting={isSubmittingOrder}
+          submitError={orderError}
+          lastOrder={lastOrder}
+          language={language}
+          tableLabel={table?.label}
+        />
+
+        <ChatPanel
+          isOpen={isChatOpen}
+          onClose={() => setIsChatOpen(false)}
+          turns={conversation}
+          hasSummarizedTurns={hasSummarizedTurns}
+          pendingReply={pendingReply}
+          onSend={(message) => processUserInputWithAI(message)}
+          onReplay={replayMessage}
+          language={language}
+        />
+
+        <GuestProfilePanel
+          isOpen={isProfileOpen}
+          onClose={() => setIsProfileOpen(false)}
+          profile={guest.profile}
+          controls={guestControls}
+        />
       </div>
     </>
   );
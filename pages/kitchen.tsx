@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react';
+import Head from 'next/head';
+import AdminLogin from '../components/AdminLogin';
+import { adminFetch, getAdminToken, subscribeAdminEvents } from '../utils/adminClient';
+import { Order, OrderStatus, ORDER_STATUS_LABELS } from '../utils/orders';
+import { MenuData, getAllItems, parsePreparationMinutes } from '../utils/menu';
+import { describeModifiers } from '../utils/modifiers';
+
+// Statuts affichés sur l'écran cuisine
+const KITCHEN_STATUSES: OrderStatus[] = ['received', 'preparing', 'ready'];
+
+// Action principale proposée selon le statut du ticket
+const NEXT_ACTION: Partial<Record<OrderStatus, { status: OrderStatus; label: string }>> = {
+  received: { status: 'preparing', label: '🔥 Lancer' },
+  preparing: { status: 'ready', label: '✅ Prête' },
+  ready: { status: 'served', label: '🍽️ Servie' },
+};
+
+const NO_TABLE = 'Sans table';
+
+// Afficher un temps restant en mm:ss (négatif = en retard)
+const formatCountdown = (remainingMs: number) => {
+  const totalSeconds = Math.round(Math.abs(remainingMs) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${remainingMs < 0 ? '+' : ''}${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export default function Kitchen() {
+  const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [orders, setOrders] = useState<Record<string, Order>>({});
+  const [prepMinutes, setPrepMinutes] = useState<Record<number, number>>({});
+  const [isConnected, setIsConnected] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setIsLoggedIn(Boolean(getAdminToken()));
+  }, []);
+
+  // Charger les temps de préparation depuis le menu
+  useEffect(() => {
+    const loadMenuData = async () => {
+      try {
+        const response = await fetch('/api/menu');
+        const data: MenuData = await response.json();
+        const minutesById: Record<number, number> = {};
+        getAllItems(data).forEach(item => {
+          const minutes = parsePreparationMinutes(item.preparationTime);
+          if (minutes !== null) {
+            minutesById[item.id] = minutes;
+          }
+        });
+        setPrepMinutes(minutesById);
+      } catch (error) {
+        console.error('Erreur lors du chargement du menu:', error);
+      }
+    };
+    loadMenuData();
+  }, []);
+
+  // Recevoir les commandes en direct (Server-Sent Events, jeton d'administration requis)
+  useEffect(() => {
+    if (!isLoggedIn) return;
+
+    return subscribeAdminEvents('/api/orders/events', {
+      onOpen: () => setIsConnected(true),
+      onError: () => {
+        setIsConnected(false);
+        if (!getAdminToken()) setIsLoggedIn(false);
+      },
+      onEvent: (event, data) => {
+        if (event === 'snapshot') {
+          const byId: Record<string, Order> = {};
+          (data as Order[]).forEach(order => {
+            byId[order.id] = order;
+          });
+          setOrders(byId);
+        }
+        if (event === 'order') {
+          const { order }: { order: Order } = data;
+          setOrders(prev => ({ ...prev, [order.id]: order }));
+        }
+      },
+    });
+  }, [isLoggedIn]);
+
+  // Rafraîchir les comptes à rebours chaque seconde
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Faire avancer un ticket (la mise à jour revient par le flux SSE)
+  const bumpOrder = async (order: Order, status: OrderStatus) => {
+    try {
+      await adminFetch(`/api/orders/${order.id}`, { method: 'PATCH', body: { status } });
+    } catch (error) {
+      console.error('Erreur lors de la mise à jour du ticket:', error);
+      if (!getAdminToken()) setIsLoggedIn(false);
+    }
+  };
+
+  // Début de préparation : passage en "preparing", sinon création
+  const getStartTime = (order: Order) => {
+    const started = order.statusHistory.find(entry => entry.status === 'preparing');
+    return new Date(started ? started.at : order.createdAt).getTime();
+  };
+
+  // Regrouper les tickets actifs par table
+  const activeOrders = Object.values(orders)
+    .filter(order => KITCHEN_STATUSES.includes(order.status))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const ordersByTable = activeOrders.reduce<Record<string, Order[]>>((groups, order) => {
+    const table = order.tableId || NO_TABLE;
+    groups[table] = [...(groups[table] || []), order];
+    return groups;
+  }, {});
+
+  if (!isLoggedIn) {
+    return <AdminLogin onLogin={() => setIsLoggedIn(true)} />;
+  }
+
+  return (
+    <>
+      <Head>
+        <title>FOODVOICE - Cuisine</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-900 text-white">
+        <header className="flex items-center justify-between px-4 py-4 border-b border-gray-700">
+          <h1 className="text-2xl font-bold">👨‍🍳 Écran cuisine</h1>
+          <div className="flex items-center space-x-4 text-sm">
+            <span>{activeOrders.length} ticket{activeOrders.length > 1 ? 's' : ''}</span>
+            <span className={isConnected ? 'text-success-400' : 'text-red-400'}>
+              {isConnected ? '● En direct' : '● Déconnecté'}
+            </span>
+          </div>
+        </header>
+
+        <main className="p-4 space-y-6">
+          {activeOrders.length === 0 && (
+            <div className="text-center py-24 text-gray-400">
+              <div className="text-6xl mb-4">🍳</div>
+              <p className="text-xl">Aucune commande en attente</p>
+            </div>
+          )}
+
+          {Object.entries(ordersByTable).map(([table, tableOrders]) => (
+            <section key={table}>
+              <h2 className="text-lg font-semibold text-gray-300 mb-3">
+                {table === NO_TABLE ? table : tableOrders[0].tableLabel || `Table ${table}`}
+              </h2>
+
+              <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+                {tableOrders.map(order => {
+                  const startTime = getStartTime(order);
+                  const nextAction = NEXT_ACTION[order.status];
+
+                  return (
+                    <div
+                      key={order.id}
+                      className={`rounded-xl p-4 flex flex-col ${
+                        order.status === 'ready'
+                          ? 'bg-success-900 opacity-75'
+                          : order.status === 'preparing'
+                          ? 'bg-gray-700'
+                          : 'bg-gray-800 border-2 border-primary-500'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-3">
+                        <span className="font-mono text-sm text-gray-400">#{order.id.slice(0, 8)}</span>
+                        <span className="text-xs uppercase tracking-wide font-semibold">
+                          {ORDER_STATUS_LABELS[order.status]}
+                        </span>
+                      </div>
+
+                      <ul className="space-y-2 flex-1">
+                        {order.lines.map((line, index) => {
+                          const minutes = prepMinutes[line.itemId];
+                          const remainingMs = minutes !== undefined
+                            ? startTime + minutes * 60000 - now
+                            : null;
+
+                          return (
+                            <li key={`${line.itemId}-${index}`} className="flex justify-between items-start">
+                              <div className="min-w-0">
+                                <p className="font-semibold">
+                                  {line.quantity} × {line.name}
+                                </p>
+                                {line.options && describeModifiers(line.options) && (
+                                  <p className="text-sm text-gray-300">{describeModifiers(line.options)}</p>
+                                )}
+                                {line.note && (
+                                  <p className="text-sm text-yellow-300 italic">{line.note}</p>
+                                )}
+                              </div>
+                              {remainingMs !== null && order.status !== 'ready' && (
+                                <span
+                                  className={`font-mono text-sm flex-shrink-0 ml-2 ${
+                                    order.status === 'received'
+                                      ? 'text-gray-400'
+                                      : remainingMs < 0
+                                      ? 'text-red-400 font-bold'
+                                      : 'text-success-400'
+                                  }`}
+                                >
+                                  ⏱️ {order.status === 'received'
+                                    ? `${minutes}:00`
+                                    : formatCountdown(remainingMs)}
+                                </span>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ul>
+
+                      {nextAction && (
+                        <button
+                          onClick={() => bumpOrder(order, nextAction.status)}
+                          className="mt-4 w-full bg-primary-500 hover:bg-primary-600 text-white font-semibold py-3 rounded-lg transition-colors mobile-tap touch-target"
+                        >
+                          {nextAction.label}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </main>
+      </div>
+    </>
+  );
+}
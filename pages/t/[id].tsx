@@ -0,0 +1,29 @@
+import { GetServerSideProps } from 'next';
+import Home from '../index';
+import { resolveTableTicket } from '../../utils/tableStore';
+import { GuestTable, isTableTicket } from '../../utils/tables';
+
+interface TablePageProps {
+  table: GuestTable;
+}
+
+// Menu ouvert depuis le QR code d'une table (/t/12?sig=…) : le lien est vérifié côté serveur
+export const getServerSideProps: GetServerSideProps<TablePageProps> = async ({ params, query }) => {
+  const ticket = {
+    tableId: String(params?.id),
+    sig: typeof query.sig === 'string' ? query.sig : '',
+  };
+  const table = isTableTicket(ticket) ? await resolveTableTicket(ticket) : undefined;
+
+  // Lien modifié ou table supprimée : menu sans table plutôt qu'une page d'erreur
+  if (!table) {
+    console.warn('Lien de table invalide:', ticket.tableId);
+    return { redirect: { destination: '/', permanent: false } };
+  }
+
+  return { props: { table: { ...ticket, label: table.label } } };
+};
+
+export default function TablePage({ table }: TablePageProps) {
+  return <Home table={table} />;
+}
@@ -0,0 +1,183 @@
+// Vérifier les règles de sécurité : npm run check:safety
+// Garde-fou allergènes (restrictions, affirmations, plats cités) et correction des transcriptions,
+// en français et dans les langues traduites.
+// Les cas citent les plats et identifiants d'un menu figé (fixtures/safety-menu.json) : une modification
+// du menu depuis le back-office ne doit pas les faire échouer
+import fs from 'fs';
+import path from 'path';
+import { validateMenu, formatMenuErrors, MenuData } from '../utils/menu';
+import { extractRestrictions, guardSentence, GuestRestrictions } from '../utils/allergenGuard';
+import { correctTranscript } from '../utils/transcriptCorrection';
+
+const fixturePath = path.join(__dirname, 'fixtures', 'safety-menu.json');
+
+const NO_RESTRICTIONS: GuestRestrictions = { allergens: [], ingredients: [] };
+
+interface RestrictionCase {
+  message: string;
+  allergens?: string[];
+  ingredients?: string[];
+}
+
+// Restrictions lues dans un message du client
+const RESTRICTION_CASES: RestrictionCase[] = [
+  { message: 'Je suis allergique aux noix', allergens: ['fruits à coque'] },
+  { message: 'Pas de basilic pour moi', ingredients: ['basilic'] },
+  { message: 'Je voudrais une pizza' },
+  { message: "I'm allergic to peanuts", allergens: ['arachides'] },
+  { message: 'I have a nut allergy', allergens: ['fruits à coque'] },
+  { message: 'No milk please', allergens: ['lait'] },
+  { message: 'Something gluten-free', allergens: ['gluten'] },
+  { message: 'Soy alérgico a los frutos secos', allergens: ['fruits à coque'] },
+  { message: 'Sin gluten, por favor', allergens: ['gluten'] },
+  { message: 'Ich habe eine Laktoseintoleranz', allergens: ['lait'] },
+  { message: 'Bitte ohne Ei', allergens: ['œufs'] },
+  { message: 'Sono allergica alle uova', allergens: ['œufs'] },
+  { message: 'Senza glutine, grazie', allergens: ['gluten'] },
+];
+
+interface SentenceCase {
+  sentence: string;
+  restrictions?: GuestRestrictions;
+  // Violations attendues, sous la forme "type:itemId:restriction"
+  violations: string[];
+}
+
+// Phrases de Fred : plats cités malgré une restriction et affirmations d'absence contredites par le menu
+const SENTENCE_CASES: SentenceCase[] = [
+  { sentence: 'La Panna Cotta est sans lait.', violations: ['false_claim:12:lait'] },
+  { sentence: 'The Panna Cotta is dairy-free.', violations: ['false_claim:12:lait'] },
+  { sentence: 'Our Tiramisu is dairy-free and contains no milk.', violations: ['false_claim:11:lait'] },
+  { sentence: 'La Panna Cotta no lleva leche.', violations: ['false_claim:12:lait'] },
+  { sentence: 'Die Panna Cotta ist laktosefrei.', violations: ['false_claim:12:lait'] },
+  { sentence: 'La Panna Cotta è senza latte.', violations: ['false_claim:12:lait'] },
+  // Le fromage de la Margherita peut être retiré
+  { sentence: 'La Pizza Margherita existe sans fromage.', violations: [] },
+  { sentence: 'The Margherita Pizza can be made without cheese.', violations: [] },
+  {
+    sentence: 'Je vous conseille les Penne Arrabbiata.',
+    restrictions: { allergens: ['gluten'], ingredients: [] },
+    violations: ['unsafe_dish:9:gluten'],
+  },
+  {
+    sentence: 'I recommend the Penne Arrabbiata.',
+    restrictions: { allergens: ['gluten'], ingredients: [] },
+    violations: ['unsafe_dish:9:gluten'],
+  },
+  // Un mot propre à un seul plat suffit à le désigner
+  {
+    sentence: 'Une Margherita ?',
+    restrictions: { allergens: ['gluten'], ingredients: [] },
+    violations: ['unsafe_dish:4:gluten'],
+  },
+  // "végétarienne" ne désigne pas la Pizza Végétarienne
+  {
+    sentence: 'Nous avons une option végétarienne.',
+    restrictions: { allergens: ['lait'], ingredients: [] },
+    violations: [],
+  },
+  // Le basilic se retire de la Margherita, pas de la Bruschetta
+  {
+    sentence: 'La Pizza Margherita est un classique.',
+    restrictions: { allergens: [], ingredients: ['basilic'] },
+    violations: [],
+  },
+  {
+    sentence: 'La Bruschetta Tricolore est un classique.',
+    restrictions: { allergens: [], ingredients: ['basilic'] },
+    violations: ['unsafe_dish:2:basilic'],
+  },
+];
+
+interface TranscriptCase {
+  transcript: string;
+  // Texte attendu après correction (inchangé si absent)
+  corrected?: string;
+  itemIds: number[];
+}
+
+// Transcriptions de Whisper : seul le mot mal compris est réécrit, les mots courants restent tels quels
+const TRANSCRIPT_CASES: TranscriptCase[] = [
+  { transcript: 'je voudrais une brusquetta', corrected: 'je voudrais une Bruschetta', itemIds: [2] },
+  { transcript: 'des spaghetti carbonnara', corrected: 'des spaghetti Carbonara', itemIds: [8] },
+  { transcript: 'une pizza margarita', corrected: 'une pizza Margherita', itemIds: [4] },
+  { transcript: "un plat d'aubergine", itemIds: [] },
+  { transcript: 'merci beaucoup', itemIds: [] },
+  { transcript: 'je voudrais du pain', itemIds: [] },
+  { transcript: "c'est pimenté ?", itemIds: [] },
+  // Même clé en français et en anglais : l'orthographe du menu français l'emporte
+  { transcript: 'a mushroom tagliatele please', corrected: 'a mushroom Tagliatelles please', itemIds: [10] },
+  { transcript: 'one tiramissu', corrected: 'one Tiramisu', itemIds: [11] },
+];
+
+const sorted = (values: string[] = []) => JSON.stringify([...values].sort());
+
+const runChecks = (fixture: MenuData) => {
+  const failures: string[] = [];
+
+  RESTRICTION_CASES.forEach(({ message, allergens, ingredients }) => {
+    const found = extractRestrictions([message], fixture);
+    if (sorted(found.allergens) !== sorted(allergens) || sorted(found.ingredients) !== sorted(ingredients)) {
+      failures.push(`Restriction "${message}" : ${JSON.stringify(found)}`);
+    }
+  });
+
+  SENTENCE_CASES.forEach(({ sentence, restrictions, violations }) => {
+    const found = guardSentence(sentence, fixture, restrictions || NO_RESTRICTIONS).violations
+      .map(violation => `${violation.type}:${violation.itemId}:${violation.restriction}`);
+    if (sorted(found) !== sorted(violations)) {
+      failures.push(`Phrase "${sentence}" : ${JSON.stringify(found)}, attendu ${JSON.stringify(violations)}`);
+    }
+  });
+
+  TRANSCRIPT_CASES.forEach(({ transcript, corrected, itemIds }) => {
+    const result = correctTranscript(transcript, fixture);
+    const expected = corrected || transcript;
+    if (result.correctedText !== expected || sorted(result.matchedItemIds.map(String)) !== sorted(itemIds.map(String))) {
+      failures.push(`Transcription "${transcript}" : "${result.correctedText}" ${JSON.stringify(result.matchedItemIds)}, attendu "${expected}" ${JSON.stringify(itemIds)}`);
+    }
+  });
+
+  return failures;
+};
+
+// Lire et valider un menu ; null (erreur affichée) s'il est illisible ou invalide
+const readMenu = (filePath: string): MenuData | null => {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    console.error(`❌ Impossible de lire ${filePath}`);
+    console.error(`  ${error?.message}`);
+    return null;
+  }
+
+  const errors = validateMenu(data);
+  if (errors.length > 0) {
+    console.error(`❌ ${filePath} : ${errors.length} erreur(s)`);
+    console.error(formatMenuErrors(errors));
+    return null;
+  }
+
+  return data as MenuData;
+};
+
+const main = () => {
+  const fixture = readMenu(fixturePath);
+  if (!fixture) return 1;
+
+  const total = RESTRICTION_CASES.length + SENTENCE_CASES.length + TRANSCRIPT_CASES.length;
+  const failures = runChecks(fixture);
+
+  if (failures.length > 0) {
+    console.error(`❌ ${failures.length} cas sur ${total} en échec`);
+    failures.forEach(failure => console.error(`  ${failure}`));
+    return 1;
+  }
+
+  console.log(`✅ ${total} cas vérifiés sur ${fixturePath}`);
+  return 0;
+};
+
+process.exitCode = main();
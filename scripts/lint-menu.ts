@@ -0,0 +1,33 @@
+// Vérifier le menu : npm run lint:menu [chemin/vers/menu.json]
+import fs from 'fs';
+import path from 'path';
+import { validateMenu, formatMenuErrors, getAllItems, MenuData } from '../utils/menu';
+
+const menuPath = path.resolve(process.argv[2] || path.join('public', 'data', 'menu.json'));
+
+const main = () => {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(fs.readFileSync(menuPath, 'utf-8'));
+  } catch (error: any) {
+    console.error(`❌ Impossible de lire ${menuPath}`);
+    console.error(`  ${error?.message}`);
+    return 1;
+  }
+
+  const errors = validateMenu(data);
+
+  if (errors.length > 0) {
+    console.error(`❌ ${menuPath} : ${errors.length} erreur(s)`);
+    console.error(formatMenuErrors(errors));
+    return 1;
+  }
+
+  const menuData = data as MenuData;
+  console.log(`✅ ${menuPath} est valide`);
+  console.log(`  ${Object.keys(menuData.categories).length} catégorie(s), ${getAllItems(menuData).length} plat(s)`);
+  return 0;
+};
+
+process.exitCode = main();
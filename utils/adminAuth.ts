@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { timingSafeEqual } from 'crypto';
+
+// Vérifier le jeton d'administration (en-tête Authorization: Bearer <ADMIN_TOKEN>).
+// Envoie la réponse d'erreur et retourne false si l'accès est refusé.
+export const requireAdmin = (req: NextApiRequest, res: NextApiResponse): boolean => {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    res.status(500).json({
+      error: 'Configuration serveur manquante',
+      details: 'Jeton d\'administration (ADMIN_TOKEN) non configuré',
+    });
+    return false;
+  }
+
+  const header = req.headers.authorization || '';
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  const expectedBuffer = Buffer.from(adminToken);
+  const providedBuffer = Buffer.from(provided);
+  const isValid = providedBuffer.length === expectedBuffer.length
+    && timingSafeEqual(providedBuffer, expectedBuffer);
+
+  if (!isValid) {
+    res.status(401).json({ error: 'Accès non autorisé' });
+    return false;
+  }
+
+  return true;
+};
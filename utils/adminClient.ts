@@ -0,0 +1,85 @@
+import { readEventStream } from './chatStream';
+
+// Accès au back-office depuis le navigateur
+
+const ADMIN_TOKEN_KEY = 'foodvoice-admin-token';
+
+// Délai avant de rouvrir un flux d'événements coupé
+const EVENTS_RETRY_DELAY_MS = 3000;
+
+export const getAdminToken = () =>
+  typeof window === 'undefined' ? null : window.sessionStorage.getItem(ADMIN_TOKEN_KEY);
+
+export const setAdminToken = (token: string | null) => {
+  if (token) {
+    window.sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } else {
+    window.sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+};
+
+// Appel authentifié ; lève une erreur avec le message de l'API en cas d'échec
+const authorizationHeader = () => ({ 'Authorization': `Bearer ${getAdminToken() || ''}` });
+
+export const adminFetch = async <T = any>(url: string, options: { method?: string; body?: unknown } = {}): Promise<T> => {
+  const response = await fetch(url, {
+    method: options.method || 'GET',
+    headers: {
+      ...authorizationHeader(),
+      ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      setAdminToken(null);
+    }
+    const message = [data.error, data.details].filter(Boolean).join(' — ');
+    throw new Error(message || `Erreur ${response.status}`);
+  }
+
+  return data;
+};
+
+export interface AdminEventHandlers {
+  onEvent: (event: string, data: any) => void;
+  onOpen?: () => void;
+  onError?: (error: Error) => void;
+}
+
+// Flux Server-Sent Events authentifié (EventSource ne sait pas envoyer le jeton), rouvert s'il est coupé.
+// Un jeton refusé arrête le flux. Retourne la fonction de fermeture.
+export const subscribeAdminEvents = (url: string, handlers: AdminEventHandlers): (() => void) => {
+  const controller = new AbortController();
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = async () => {
+    try {
+      const response = await fetch(url, { headers: authorizationHeader(), signal: controller.signal });
+      if (response.status === 401) {
+        setAdminToken(null);
+        handlers.onError?.(new Error('Accès non autorisé'));
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Erreur ${response.status}`);
+      }
+      handlers.onOpen?.();
+      await readEventStream(response, handlers.onEvent);
+      throw new Error('Flux interrompu');
+    } catch (error: any) {
+      if (controller.signal.aborted) return;
+      handlers.onError?.(error instanceof Error ? error : new Error(String(error)));
+      retryTimer = setTimeout(connect, EVENTS_RETRY_DELAY_MS);
+    }
+  };
+  connect();
+
+  return () => {
+    controller.abort();
+    if (retryTimer) clearTimeout(retryTimer);
+  };
+};
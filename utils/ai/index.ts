@@ -0,0 +1,55 @@
+import { AIProvider, AIProviderError } from './types';
+import { createOpenAICompatibleProvider } from './openai';
+import { createMockProvider } from './mock';
+
+export * from './types';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Fournisseur d'IA choisi par AI_PROVIDER (usage serveur uniquement) :
+// - "openai" (défaut) : API OpenAI, clé OPENAI_API_KEY
+// - "openai-compatible" : serveur local (llama.cpp, Ollama...), AI_BASE_URL
+// - "mock" : réponses scriptées, sans réseau ni clé
+export const getAIProvider = (): AIProvider => {
+  const providerName = process.env.AI_PROVIDER || 'openai';
+
+  switch (providerName) {
+    case 'mock':
+      return createMockProvider({
+        scriptPath: process.env.AI_MOCK_SCRIPT,
+        transcript: process.env.AI_MOCK_TRANSCRIPT,
+        transcriptLanguage: process.env.AI_MOCK_TRANSCRIPT_LANGUAGE,
+      });
+
+    case 'openai-compatible': {
+      const baseUrl = process.env.AI_BASE_URL;
+      if (!baseUrl) {
+        throw new AIProviderError(500, 'Configuration serveur manquante', 'URL du serveur IA (AI_BASE_URL) non configurée');
+      }
+      return createOpenAICompatibleProvider({
+        name: 'openai-compatible',
+        baseUrl,
+        apiKey: process.env.AI_API_KEY,
+        chatModel: process.env.AI_CHAT_MODEL || 'llama3',
+        transcriptionModel: process.env.AI_TRANSCRIPTION_MODEL || 'whisper-1',
+      });
+    }
+
+    case 'openai': {
+      const openaiApiKey = process.env.OPENAI_API_KEY;
+      if (!openaiApiKey) {
+        throw new AIProviderError(500, 'Configuration serveur manquante', 'Clé API OpenAI non configurée');
+      }
+      return createOpenAICompatibleProvider({
+        name: 'ChatGPT',
+        baseUrl: OPENAI_BASE_URL,
+        apiKey: openaiApiKey,
+        chatModel: process.env.AI_CHAT_MODEL || 'gpt-4-turbo-preview',
+        transcriptionModel: process.env.AI_TRANSCRIPTION_MODEL || 'whisper-1',
+      });
+    }
+
+    default:
+      throw new AIProviderError(500, 'Configuration serveur manquante', `Fournisseur IA inconnu: ${providerName}`);
+  }
+};
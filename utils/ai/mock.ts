@@ -0,0 +1,162 @@
+import fs from 'fs';
+import {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatStreamEvent,
+  TranscriptionResult,
+} from './types';
+
+// Appel d'outil scripté ; les arguments sont sérialisés en JSON comme chez OpenAI
+export interface MockToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Réponse scriptée : texte seul, ou texte accompagné d'appels d'outils
+export type MockReply = string | { content: string; toolCalls?: MockToolCall[] };
+
+// Règle du script : si le dernier message client correspond, renvoyer "reply"
+export interface MockScriptRule {
+  match: string;
+  reply: MockReply;
+}
+
+// Script par défaut, avec les outils déclarés par /api/chat
+const DEFAULT_SCRIPT: MockScriptRule[] = [
+  {
+    match: 'margherita.*grande|grande.*margherita',
+    reply: {
+      content: 'C\'est noté : une Margherita grande, sans basilic. Autre chose ?',
+      toolCalls: [
+        { name: 'add_to_cart', arguments: { items: [{ itemId: 4, options: ['grande', 'sans basilic'] }] } },
+      ],
+    },
+  },
+  {
+    match: 'pizza',
+    reply: {
+      content: 'Voici nos pizzas artisanales ! La Margherita est un grand classique.',
+      toolCalls: [
+        { name: 'set_category', arguments: { category: 'pizzas' } },
+        { name: 'set_filters', arguments: { filters: [] } },
+        { name: 'recommend_items', arguments: { itemIds: [4] } },
+      ],
+    },
+  },
+  {
+    match: 'p[âa]tes',
+    reply: {
+      content: 'Voici nos pâtes fraîches maison. Les Spaghetti Carbonara sont délicieuses !',
+      toolCalls: [
+        { name: 'set_category', arguments: { category: 'pates' } },
+        { name: 'set_filters', arguments: { filters: [] } },
+      ],
+    },
+  },
+  {
+    match: 'v[ée]g[ée]tarien',
+    reply: {
+      content: 'Très bien ! Voici tous nos plats végétariens.',
+      toolCalls: [
+        { name: 'set_category', arguments: { category: 'all' } },
+        { name: 'set_filters', arguments: { filters: [{ kind: 'flag', flag: 'vegetarian', value: true }] } },
+      ],
+    },
+  },
+  {
+    match: 'oignon',
+    reply: {
+      content: 'C\'est noté, voici nos plats sans oignons à moins de 15 €.',
+      toolCalls: [
+        {
+          name: 'set_filters',
+          arguments: {
+            filters: [
+              { kind: 'ingredient', ingredient: 'oignons', mode: 'exclude' },
+              { kind: 'maxPrice', amount: 15 },
+            ],
+          },
+        },
+      ],
+    },
+  },
+  {
+    match: 'conseil|recommand',
+    reply: {
+      content: 'Je vous recommande nos plats les plus populaires !',
+      toolCalls: [
+        { name: 'set_category', arguments: { category: 'all' } },
+        { name: 'set_filters', arguments: { filters: [{ kind: 'flag', flag: 'popular', value: true }] } },
+        { name: 'recommend_items', arguments: { itemIds: [4, 10] } },
+      ],
+    },
+  },
+];
+
+const DEFAULT_REPLY: MockReply = 'Je suis Fred (mode démo). Demandez-moi des pizzas, des pâtes ou un conseil !';
+
+const DEFAULT_TRANSCRIPT = 'Je voudrais une pizza';
+
+// Délai entre deux mots en mode flux, pour simuler la génération
+const STREAM_WORD_DELAY_MS = 30;
+
+// Charger un script personnalisé (AI_MOCK_SCRIPT = chemin vers un JSON)
+const loadScript = (scriptPath?: string): MockScriptRule[] => {
+  if (!scriptPath) return DEFAULT_SCRIPT;
+  return JSON.parse(fs.readFileSync(scriptPath, 'utf-8'));
+};
+
+// Fournisseur factice et déterministe : développement et tests hors ligne, sans clé API
+export const createMockProvider = (
+  options: { scriptPath?: string; transcript?: string; transcriptLanguage?: string } = {}
+): AIProvider => {
+  const script = loadScript(options.scriptPath);
+
+  const chat = async (request: ChatCompletionRequest): Promise<ChatCompletionResult> => {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const text = lastUserMessage?.content || '';
+    const rule = script.find(entry => new RegExp(entry.match, 'i').test(text));
+    const reply = rule ? rule.reply : DEFAULT_REPLY;
+
+    if (typeof reply === 'string') {
+      return { content: reply };
+    }
+
+    return {
+      content: reply.content,
+      toolCalls: reply.toolCalls?.map((call, index) => ({
+        id: `mock-${index}`,
+        name: call.name,
+        arguments: JSON.stringify(call.arguments),
+      })),
+    };
+  };
+
+  // Rejouer la réponse scriptée mot par mot, puis les appels d'outils
+  const chatStream = async (
+    request: ChatCompletionRequest,
+    onEvent: (event: ChatStreamEvent) => void
+  ): Promise<ChatCompletionResult> => {
+    const result = await chat(request);
+    for (const word of result.content.match(/\S+\s*/g) || []) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_WORD_DELAY_MS));
+      onEvent({ type: 'content', text: word });
+    }
+    (result.toolCalls || []).forEach(call => onEvent({ type: 'toolCall', call }));
+    return result;
+  };
+
+  const transcribe = async (): Promise<TranscriptionResult> => ({
+    text: options.transcript || DEFAULT_TRANSCRIPT,
+    language: options.transcriptLanguage || 'french',
+    confidence: 1,
+  });
+
+  return {
+    name: 'mock',
+    chat,
+    chatStream,
+    transcribe,
+  };
+};
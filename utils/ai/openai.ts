@@ -0,0 +1,286 @@
+import fs from 'fs';
+import FormData from 'form-data';
+import fetch from 'node-fetch';
+import {
+  AIProvider,
+  AIProviderError,
+  ChatCompletionRequest,
+  ChatCompletionResult,
+  ChatMessage,
+  ChatStreamEvent,
+  ToolCall,
+  TranscriptionRequest,
+  TranscriptionResult,
+} from './types';
+
+// Réponse de l'API chat/completions
+interface ChatGPTResponse {
+  choices: Array<{
+    message: {
+      content: string | null;
+      role: string;
+      tool_calls?: Array<{
+        id: string;
+        type: 'function';
+        function: {
+          name: string;
+          arguments: string;
+        };
+      }>;
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// Fragment d'une réponse chat/completions en flux (stream: true)
+interface ChatGPTStreamChunk {
+  choices: Array<{
+    delta: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+}
+
+// Réponse de l'API audio/transcriptions (verbose_json)
+interface WhisperResponse {
+  text: string;
+  language?: string;
+  confidence?: number;
+  segments?: Array<{
+    start: number;
+    end: number;
+    text: string;
+  }>;
+}
+
+// Convertir un message au format de l'API (appels d'outils inclus)
+const toApiMessage = (message: ChatMessage) => {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  chatModel: string;
+  transcriptionModel: string;
+}
+
+// Fournisseur compatible OpenAI : OpenAI lui-même, llama.cpp, Ollama, etc.
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = config.apiKey
+    ? { 'Authorization': `Bearer ${config.apiKey}` }
+    : {};
+
+  // Corps de requête commun aux réponses complètes et en flux
+  const buildChatBody = (request: ChatCompletionRequest, stream: boolean) => JSON.stringify({
+    model: config.chatModel,
+    messages: request.messages.map(toApiMessage),
+    ...(request.tools?.length ? {
+      tools: request.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+      tool_choice: 'auto',
+    } : {}),
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    presence_penalty: request.presencePenalty,
+    frequency_penalty: request.frequencyPenalty,
+    ...(stream ? { stream: true } : {}),
+  });
+
+  const postChat = async (request: ChatCompletionRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...authHeaders,
+        'Content-Type': 'application/json',
+      },
+      body: buildChatBody(request, stream),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Erreur ${config.name} (chat):`, errorText);
+      throw new AIProviderError(response.status, 'Erreur du service IA', `${config.name}: ${response.status}`);
+    }
+
+    return response;
+  };
+
+  const chat = async (request: ChatCompletionRequest): Promise<ChatCompletionResult> => {
+    const response = await postChat(request, false);
+    const chatData = await response.json() as ChatGPTResponse;
+    const message = chatData.choices[0]?.message;
+
+    return {
+      content: message?.content || '',
+      toolCalls: message?.tool_calls?.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      })),
+      usage: chatData.usage && {
+        promptTokens: chatData.usage.prompt_tokens,
+        completionTokens: chatData.usage.completion_tokens,
+        totalTokens: chatData.usage.total_tokens,
+      },
+    };
+  };
+
+  const chatStream = async (
+    request: ChatCompletionRequest,
+    onEvent: (event: ChatStreamEvent) => void
+  ): Promise<ChatCompletionResult> => {
+    const response = await postChat(request, true);
+
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    let emittedToolCalls = 0;
+    let buffer = '';
+
+    // Un appel d'outil est complet dès que le suivant commence (ou à la fin du flux)
+    const flushToolCalls = (upTo: number) => {
+      while (emittedToolCalls < upTo) {
+        onEvent({ type: 'toolCall', call: toolCalls[emittedToolCalls] });
+        emittedToolCalls++;
+      }
+    };
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') return;
+
+      // Une ligne illisible est ignorée plutôt que d'interrompre toute la réponse
+      let chunk: ChatGPTStreamChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        console.warn(`Ligne de flux illisible ignorée (${config.name}):`, data.slice(0, 200));
+        return;
+      }
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) return;
+
+      if (delta.content) {
+        content += delta.content;
+        onEvent({ type: 'content', text: delta.content });
+      }
+
+      delta.tool_calls?.forEach(fragment => {
+        if (!toolCalls[fragment.index]) {
+          flushToolCalls(fragment.index);
+          toolCalls[fragment.index] = { id: fragment.id || `call-${fragment.index}`, name: '', arguments: '' };
+        }
+        const call = toolCalls[fragment.index];
+        call.name += fragment.function?.name || '';
+        call.arguments += fragment.function?.arguments || '';
+      });
+    };
+
+    // Décodage en continu : un caractère ("é", "€") peut être coupé entre deux paquets réseau
+    const decoder = new TextDecoder();
+    for await (const chunk of response.body) {
+      buffer += decoder.decode(chunk as Buffer, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    buffer += decoder.decode();
+    handleLine(buffer);
+    flushToolCalls(toolCalls.length);
+
+    return {
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  };
+
+  const transcribe = async (request: TranscriptionRequest): Promise<TranscriptionResult> => {
+    const formData = new FormData();
+    formData.append('file', fs.createReadStream(request.filePath), {
+      filename: request.filename,
+      contentType: request.contentType,
+    });
+    formData.append('model', config.transcriptionModel);
+    if (request.language) {
+      formData.append('language', request.language);
+    }
+    if (request.prompt) {
+      formData.append('prompt', request.prompt);
+    }
+
+    // Paramètres additionnels pour améliorer la transcription
+    formData.append('response_format', 'verbose_json');
+    formData.append('temperature', '0'); // Plus déterministe
+
+    const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+      method: 'POST',
+      headers: {
+        ...authHeaders,
+        ...formData.getHeaders(),
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Erreur ${config.name} (transcription):`, errorText);
+      throw new AIProviderError(
+        response.status,
+        'Erreur lors de la transcription',
+        `${config.name}: ${response.status} - ${errorText}`
+      );
+    }
+
+    const transcription = await response.json() as WhisperResponse;
+
+    return {
+      text: transcription.text || '',
+      language: transcription.language,
+      confidence: transcription.confidence,
+    };
+  };
+
+  return {
+    name: config.name,
+    chat,
+    chatStream,
+    transcribe,
+  };
+};
@@ -0,0 +1,89 @@
+// Contrat commun des fournisseurs d'IA (chat et transcription)
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  // Appels d'outils émis par l'assistant
+  toolCalls?: ToolCall[];
+  // Réponse à un appel d'outil (role "tool")
+  toolCallId?: string;
+}
+
+// Outil déclaré au modèle (paramètres au format JSON Schema)
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // Arguments bruts, tels que générés par le modèle (JSON attendu)
+  arguments: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  maxTokens?: number;
+  temperature?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  toolCalls?: ToolCall[];
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+// Événement d'une réponse en flux : texte partiel, ou appel d'outil complet
+export type ChatStreamEvent =
+  | { type: 'content'; text: string }
+  | { type: 'toolCall'; call: ToolCall };
+
+export interface TranscriptionRequest {
+  filePath: string;
+  filename: string;
+  contentType: string;
+  // Langue imposée ; sans elle, la langue est reconnue dans l'audio
+  language?: string;
+  // Vocabulaire attendu (noms de plats), pour orienter l'orthographe
+  prompt?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  // Langue reconnue, en nom ("french") ou en code ("fr") selon le fournisseur
+  language?: string;
+  confidence?: number;
+}
+
+export interface AIProvider {
+  name: string;
+  chat: (request: ChatCompletionRequest) => Promise<ChatCompletionResult>;
+  // Même requête, réponse transmise au fil de l'eau ; le résultat complet est renvoyé à la fin
+  chatStream: (
+    request: ChatCompletionRequest,
+    onEvent: (event: ChatStreamEvent) => void
+  ) => Promise<ChatCompletionResult>;
+  transcribe: (request: TranscriptionRequest) => Promise<TranscriptionResult>;
+}
+
+// Erreur d'un fournisseur, avec le statut HTTP à renvoyer au client
+export class AIProviderError extends Error {
+  status: number;
+  details?: string;
+
+  constructor(status: number, message: string, details?: string) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+    this.details = details;
+  }
+}
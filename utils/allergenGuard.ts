@@ -0,0 +1,240 @@
+import { MenuData, MenuItem, getAllItems, localizeMenuItem } from './menu';
+import { MenuFilter, normalizeText } from './menuFilters';
+import { GuestProfile } from './guestProfile';
+import { takeSentences } from './chatStream';
+import { DEFAULT_LOCALE, translate, translateAllergen } from './i18n';
+import { GuardLanguage, GUARD_LANGUAGES, patternSubject } from './allergenGuardLanguages';
+
+// Garde-fou allergènes : vérifie le texte de Fred contre menu.json et les restrictions du client
+
+export interface GuestRestrictions {
+  // Allergènes UE à exclure
+  allergens: string[];
+  // Ingrédients du menu à éviter
+  ingredients: string[];
+}
+
+export interface SafetyViolation {
+  // unsafe_dish : plat conseillé malgré une restriction ; false_claim : "sans X" alors que le plat en contient
+  type: 'unsafe_dish' | 'false_claim';
+  itemId: number;
+  itemName: string;
+  restriction: string;
+  sentence: string;
+}
+
+// Toutes les langues sont lues, quelle que soit celle de l'interface : le client peut écrire dans
+// une autre langue, et une restriction lue en trop rend seulement Fred plus prudent
+const LANGUAGES = Object.values(GUARD_LANGUAGES);
+
+// Mots (normalisés) qui désignent chacun des 14 allergènes, toutes langues confondues
+const ALLERGEN_KEYWORDS: Record<string, string[]> = LANGUAGES.reduce<Record<string, string[]>>((keywords, language) => {
+  Object.entries(language.allergenKeywords).forEach(([allergen, words]) => {
+    keywords[allergen] = [...(keywords[allergen] || []), ...words];
+  });
+  return keywords;
+}, {});
+
+const CHEESE_WORDS = LANGUAGES.flatMap(language => language.cheeseWords);
+const CONJUNCTIONS = LANGUAGES.flatMap(language => language.conjunctions);
+
+// Sujets de toutes les formulations d'un type trouvées dans un texte normalisé
+const findSubjects = (text: string, pattern: (language: GuardLanguage) => RegExp) =>
+  LANGUAGES.flatMap(language => {
+    const regex = pattern(language);
+    const subjects: string[] = [];
+    let match: RegExpExecArray | null;
+    regex.lastIndex = 0;
+    while ((match = regex.exec(text)) !== null) {
+      subjects.push(patternSubject(match));
+    }
+    return subjects.filter(Boolean);
+  });
+
+// Mots de régime qui apparaissent dans des noms de plats sans les désigner ("une option végétarienne")
+const GENERIC_NAME_WORDS = ['vegetarien', 'vegetarienne', 'vegan', 'vegane'];
+
+// Recherche d'un mot entier (singulier ou pluriel) dans un texte normalisé ; \b ignore "œ"
+const containsWord = (text: string, word: string) =>
+  new RegExp(`(^|[^a-z0-9œæ])${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}s?(?=$|[^a-z0-9œæ])`).test(text);
+
+const findAllergens = (text: string) =>
+  Object.keys(ALLERGEN_KEYWORDS).filter(allergen =>
+    ALLERGEN_KEYWORDS[allergen].some(keyword => containsWord(text, keyword)));
+
+const findIngredients = (text: string, menuData: MenuData) => {
+  const words = text.split(/\s+/)
+    .filter(word => !CONJUNCTIONS.includes(word))
+    .map(word => word.replace(/s$/, ''))
+    .filter(word => word.length >= 3);
+  const ingredients = new Set<string>();
+  getAllItems(menuData).forEach(item => item.ingredients.forEach(ingredient => {
+    const normalized = normalizeText(ingredient);
+    if (words.some(word => normalized.split(/\s+/).some(part => part.replace(/s$/, '') === word))) {
+      ingredients.add(ingredient);
+    }
+  }));
+  return Array.from(ingredients);
+};
+
+// Restrictions déclarées dans la conversation (messages du client) et dans son profil
+export const extractRestrictions = (
+  userMessages: string[],
+  menuData: MenuData,
+  profile?: GuestProfile
+): GuestRestrictions => {
+  const allergens = new Set<string>(profile?.excludedAllergens || []);
+  const ingredients = new Set<string>(profile?.dislikedIngredients || []);
+
+  userMessages.forEach(message => {
+    const text = normalizeText(message);
+    findSubjects(text, language => language.allergyPattern).forEach(subject => {
+      findAllergens(subject).forEach(allergen => allergens.add(allergen));
+    });
+    findSubjects(text, language => language.avoidancePattern).forEach(subject => {
+      const found = findAllergens(subject);
+      found.forEach(allergen => allergens.add(allergen));
+      // Un ingrédient n'est retenu que pour "sans X" / "pas de X" et s'il existe au menu
+      if (found.length === 0) {
+        findIngredients(subject, menuData).forEach(ingredient => ingredients.add(ingredient));
+      }
+    });
+  });
+
+  return { allergens: Array.from(allergens), ingredients: Array.from(ingredients) };
+};
+
+// Réunir des restrictions de plusieurs sources (profil, conversation, session)
+export const mergeRestrictions = (...sources: GuestRestrictions[]): GuestRestrictions => ({
+  allergens: Array.from(new Set(sources.flatMap(source => source.allergens))),
+  ingredients: Array.from(new Set(sources.flatMap(source => source.ingredients))),
+});
+
+export const restrictionsToFilters = (restrictions: GuestRestrictions): MenuFilter[] => [
+  ...restrictions.allergens.map(allergen => ({ kind: 'allergen' as const, allergen })),
+  ...restrictions.ingredients.map(ingredient => ({ kind: 'ingredient' as const, ingredient, mode: 'exclude' as const })),
+];
+
+// Mots propres à un seul plat ("penne", "margherita") : suffisent à le désigner.
+// Un mot qui est aussi un allergène ou un ingrédient d'un autre plat ne compte pas.
+const buildItemMatchers = (menuData: MenuData) => {
+  const items = getAllItems(menuData);
+  const singular = (word: string) => word.replace(/s$/, '');
+  const wordsOf = (item: MenuItem) =>
+    Array.from(new Set(normalizeText(item.name).split(/[\s'-]+/).filter(word => word.length >= 4)));
+  const wordCounts = new Map<string, number>();
+  items.forEach(item => wordsOf(item).forEach(word => wordCounts.set(word, (wordCounts.get(word) || 0) + 1)));
+
+  const allergenWords = Object.values(ALLERGEN_KEYWORDS).flat().map(singular);
+  const isAmbiguous = (word: string, owner: MenuItem) =>
+    GENERIC_NAME_WORDS.includes(word)
+    || allergenWords.includes(singular(word))
+    || items.some(item => item !== owner && item.ingredients.some(ingredient =>
+      normalizeText(ingredient).split(/\s+/).some(part => singular(part) === singular(word))));
+
+  // Noms traduits aussi : Fred répond dans la langue du client
+  const translatedNames = (item: MenuItem) => Object.values(item.translations || {})
+    .map(texts => texts.name)
+    .filter((name): name is string => Boolean(name))
+    .map(normalizeText);
+
+  return items.map(item => ({
+    item,
+    patterns: Array.from(new Set([
+      normalizeText(item.name),
+      ...translatedNames(item),
+      ...wordsOf(item).filter(word => wordCounts.get(word) === 1 && !isAmbiguous(word, item)),
+    ])),
+  }));
+};
+
+const mentionedItems = (sentence: string, matchers: ReturnType<typeof buildItemMatchers>) => {
+  const text = normalizeText(sentence);
+  return matchers
+    .filter(({ patterns }) => patterns.some(pattern => containsWord(text, pattern)))
+    .map(({ item }) => item);
+};
+
+const itemContainsIngredient = (item: MenuItem, ingredient: string) =>
+  item.ingredients.some(entry => normalizeText(entry).includes(normalizeText(ingredient).replace(/s$/, '')));
+
+// Ingrédient retirable via une option du plat ("Sans basilic") : la restriction reste respectable
+const canRemoveIngredient = (item: MenuItem, ingredient: string) =>
+  (item.modifierGroups || [])
+    .filter(group => group.kind === 'removal')
+    .some(group => group.options.some(option =>
+      normalizeText(option.label).includes(normalizeText(ingredient).replace(/s$/, ''))));
+
+// Vérifier une phrase de Fred ; une phrase fautive est remplacée par un avertissement
+export const guardSentence = (
+  sentence: string,
+  menuData: MenuData,
+  restrictions: GuestRestrictions,
+  locale: string = DEFAULT_LOCALE,
+  matchers = buildItemMatchers(menuData)
+): { text: string; violations: SafetyViolation[] } => {
+  const items = mentionedItems(sentence, matchers);
+  if (items.length === 0) return { text: sentence, violations: [] };
+
+  const found: SafetyViolation[] = [];
+  const claims = findSubjects(normalizeText(sentence), language => language.claimPattern);
+
+  items.forEach(item => {
+    // Plat mentionné alors qu'il contient une restriction du client
+    restrictions.allergens
+      .filter(allergen => item.allergens.includes(allergen))
+      .forEach(allergen => found.push({ type: 'unsafe_dish', itemId: item.id, itemName: item.name, restriction: allergen, sentence }));
+    restrictions.ingredients
+      .filter(ingredient => itemContainsIngredient(item, ingredient) && !canRemoveIngredient(item, ingredient))
+      .forEach(ingredient => found.push({ type: 'unsafe_dish', itemId: item.id, itemName: item.name, restriction: ingredient, sentence }));
+
+    // Affirmation d'absence contredite par le menu ("sans lait" pour un plat au lait)
+    claims.forEach(subject => {
+      findAllergens(subject)
+        .filter(allergen => item.allergens.includes(allergen))
+        // "sans fromage" reste vrai pour un plat dont le fromage peut être retiré
+        .filter(allergen => !(allergen === 'lait' && item.cheeseRemovable && CHEESE_WORDS.some(word => containsWord(subject, word))))
+        .forEach(allergen => found.push({ type: 'false_claim', itemId: item.id, itemName: item.name, restriction: allergen, sentence }));
+    });
+  });
+
+  // Une même restriction lue dans deux langues ("dairy-free", "no milk") n'est signalée qu'une fois
+  const violations = found.filter((violation, index) => found.findIndex(other =>
+    other.type === violation.type && other.itemId === violation.itemId && other.restriction === violation.restriction) === index);
+
+  if (violations.length === 0) return { text: sentence, violations };
+
+  // Une phrase par plat concerné, à la place de la phrase fautive, dans la langue du client
+  const warnings = Array.from(new Set(violations.map(violation => violation.itemId))).map(itemId => {
+    const itemViolations = violations.filter(violation => violation.itemId === itemId);
+    const item = items.find(entry => entry.id === itemId) as MenuItem;
+    const restrictionsForItem = Array.from(new Set(itemViolations.map(violation => violation.restriction)))
+      .map(restriction => translateAllergen(locale, restriction));
+    const isUnsafe = itemViolations.some(violation => violation.type === 'unsafe_dish');
+    return translate(locale, isUnsafe ? 'guard.unsafeDish' : 'guard.falseClaim', {
+      item: localizeMenuItem(item, locale).name,
+      restrictions: restrictionsForItem.join(', '),
+    });
+  });
+
+  return { text: warnings.join(' '), violations };
+};
+
+// Vérifier une réponse complète, phrase par phrase
+export const guardResponse = (
+  text: string,
+  menuData: MenuData,
+  restrictions: GuestRestrictions,
+  locale: string = DEFAULT_LOCALE
+): { text: string; violations: SafetyViolation[] } => {
+  const matchers = buildItemMatchers(menuData);
+  const { sentences, rest } = takeSentences(`${text} `);
+  const results = [...sentences, rest.trim()]
+    .filter(Boolean)
+    .map(sentence => guardSentence(sentence, menuData, restrictions, locale, matchers));
+
+  return {
+    text: Array.from(new Set(results.map(result => result.text))).join(' '),
+    violations: results.flatMap(result => result.violations),
+  };
+};
@@ -0,0 +1,148 @@
+import type { Locale } from './i18n';
+
+// Vocabulaire du garde-fou allergènes, par langue de l'interface.
+// Tout est écrit sous forme normalisée (minuscules, sans accents) : voir normalizeText.
+
+export interface GuardLanguage {
+  // Mots qui désignent chacun des 14 allergènes (clés : noms français du menu)
+  allergenKeywords: Record<string, string[]>;
+  // "allergique aux noix" : le sujet ne désigne que des allergènes
+  allergyPattern: RegExp;
+  // "sans oignons", "pas de lait" : le sujet peut aussi être un ingrédient du menu
+  avoidancePattern: RegExp;
+  // Affirmation d'absence dans une phrase de Fred ("sans lait", "ne contient pas de gluten")
+  claimPattern: RegExp;
+  // Mots du fromage : "sans fromage" reste vrai pour un plat dont le fromage peut être retiré
+  cheeseWords: string[];
+  // Mots de liaison d'une énumération ("noix et amandes"), jamais des ingrédients
+  conjunctions: string[];
+}
+
+// Sujet d'une formulation : le premier groupe capturé par le motif
+export const patternSubject = (match: RegExpExecArray) =>
+  (match.slice(1).find(Boolean) || '').trim();
+
+const fr: GuardLanguage = {
+  allergenKeywords: {
+    'gluten': ['gluten', 'ble', 'coeliaque', 'celiaque'],
+    'crustacés': ['crustace', 'crevette', 'homard', 'crabe', 'langouste'],
+    'œufs': ['oeuf', 'œuf'],
+    'poisson': ['poisson', 'anchois', 'thon', 'saumon'],
+    'arachides': ['arachide', 'cacahuete'],
+    'soja': ['soja'],
+    'lait': ['lait', 'lactose', 'laitier', 'fromage', 'creme', 'beurre'],
+    'fruits à coque': ['fruits a coque', 'fruit a coque', 'noix', 'noisette', 'amande', 'pistache', 'cajou'],
+    'céleri': ['celeri'],
+    'moutarde': ['moutarde'],
+    'sésame': ['sesame'],
+    'sulfites': ['sulfite'],
+    'lupin': ['lupin'],
+    'mollusques': ['mollusque', 'moule', 'huitre', 'calamar', 'poulpe'],
+  },
+  allergyPattern: /(?:allergique|allergie|intolerant|intolerance)s?\s+(?:a|au|aux|a la|a l'|de|du|des)?\s*([^,.!?;]+)/g,
+  avoidancePattern: /(?:^|\s)(?:sans|pas de|pas d'|jamais de|ne mange pas de|ne supporte pas (?:le|la|les)?)\s*([^,.!?;]+)/g,
+  claimPattern: /(?:^|\s)(?:sans|ne contient pas de|ne contient pas d'|pas de|pas d'|aucun|aucune)\s+([^,.!?;]+)/g,
+  cheeseWords: ['fromage'],
+  conjunctions: ['et', 'ou'],
+};
+
+const en: GuardLanguage = {
+  allergenKeywords: {
+    'gluten': ['gluten', 'wheat', 'coeliac', 'celiac'],
+    'crustacés': ['crustacean', 'shellfish', 'shrimp', 'prawn', 'lobster', 'crab', 'crayfish'],
+    'œufs': ['egg'],
+    'poisson': ['fish', 'anchovy', 'anchovie', 'tuna', 'salmon'],
+    'arachides': ['peanut', 'groundnut'],
+    'soja': ['soy', 'soya', 'soybean'],
+    'lait': ['milk', 'lactose', 'dairy', 'cheese', 'cream', 'butter'],
+    'fruits à coque': ['tree nut', 'nut', 'walnut', 'hazelnut', 'almond', 'pistachio', 'cashew'],
+    'céleri': ['celery'],
+    'moutarde': ['mustard'],
+    'sésame': ['sesame'],
+    'sulfites': ['sulfite', 'sulphite'],
+    'lupin': ['lupin', 'lupine'],
+    'mollusques': ['shellfish', 'mollusc', 'mollusk', 'mussel', 'oyster', 'squid', 'octopus', 'clam'],
+  },
+  // "nut allergy" : le sujet précède le mot ; il n'est pas consommé pour lire aussi "allergy to ..."
+  allergyPattern: /(?:allergic|allergy|allergies|intolerant|intolerance)\s+(?:to\s+)?(?:the\s+)?([^,.!?;]+)|([a-z]+(?:\s+nut)?)(?=\s+(?:allergy|allergies|intolerance|intolerant))/g,
+  avoidancePattern: /(?:^|\s)(?:no|without|free of|can['’]t eat|cannot eat|don['’]t eat|do not eat|avoid)\s+([^,.!?;]+)|(?:^|\s)([a-z]+)[- ]free\b/g,
+  claimPattern: /(?:^|\s)(?:no|without|free of|free from|contains no|does not contain|doesn['’]t contain)\s+([^,.!?;]+)|(?:^|\s)([a-z]+)[- ]free\b/g,
+  cheeseWords: ['cheese'],
+  conjunctions: ['and', 'or'],
+};
+
+const es: GuardLanguage = {
+  allergenKeywords: {
+    'gluten': ['gluten', 'trigo', 'celiaco', 'celiaca'],
+    'crustacés': ['crustaceo', 'marisco', 'gamba', 'langostino', 'camaron', 'camarones', 'bogavante', 'cangrejo', 'langosta'],
+    'œufs': ['huevo'],
+    'poisson': ['pescado', 'anchoa', 'atun', 'salmon'],
+    'arachides': ['cacahuete', 'cacahuate'],
+    'soja': ['soja'],
+    'lait': ['leche', 'lactosa', 'lacteo', 'queso', 'nata', 'crema', 'mantequilla'],
+    'fruits à coque': ['frutos de cascara', 'frutos secos', 'fruto seco', 'nuez', 'nueces', 'avellana', 'almendra', 'pistacho', 'anacardo'],
+    'céleri': ['apio'],
+    'moutarde': ['mostaza'],
+    'sésame': ['sesamo'],
+    'sulfites': ['sulfito'],
+    'lupin': ['altramuz', 'altramuces'],
+    'mollusques': ['molusco', 'mejillon', 'mejillones', 'ostra', 'calamar', 'calamares', 'pulpo', 'almeja'],
+  },
+  allergyPattern: /(?:alergico|alergica|alergia|intolerante|intolerancia)s?\s+(?:a|al|a la|a los|a las|de|del)?\s*([^,.!?;]+)/g,
+  avoidancePattern: /(?:^|\s)(?:sin|nada de|no como|no puedo comer|no tomo)\s+([^,.!?;]+)/g,
+  claimPattern: /(?:^|\s)(?:sin|libre de|no contiene|no lleva|no tiene|ningun|ninguna)\s+([^,.!?;]+)/g,
+  cheeseWords: ['queso'],
+  conjunctions: ['y', 'e', 'o'],
+};
+
+const de: GuardLanguage = {
+  allergenKeywords: {
+    'gluten': ['gluten', 'weizen', 'zoliakie'],
+    'crustacés': ['krebstier', 'krebstiere', 'garnele', 'garnelen', 'hummer', 'krabbe', 'krabben', 'languste', 'langusten'],
+    'œufs': ['ei', 'eier'],
+    'poisson': ['fisch', 'sardelle', 'sardellen', 'thunfisch', 'lachs'],
+    'arachides': ['erdnuss', 'erdnusse'],
+    'soja': ['soja'],
+    'lait': ['milch', 'laktose', 'milchprodukt', 'milchprodukte', 'kase', 'sahne', 'butter'],
+    'fruits à coque': ['schalenfrucht', 'schalenfruchte', 'nuss', 'nusse', 'walnuss', 'walnusse', 'haselnuss', 'haselnusse', 'mandel', 'mandeln', 'pistazie', 'pistazien', 'cashew'],
+    'céleri': ['sellerie'],
+    'moutarde': ['senf'],
+    'sésame': ['sesam'],
+    'sulfites': ['sulfit', 'sulfite'],
+    'lupin': ['lupine', 'lupinen'],
+    'mollusques': ['weichtier', 'weichtiere', 'muschel', 'muscheln', 'auster', 'austern', 'tintenfisch', 'oktopus'],
+  },
+  // Mots composés : "Nussallergie", "Laktoseintoleranz"
+  allergyPattern: /(?:allergisch|allergie|unvertraglich|unvertraglichkeit|intoleranz)\s+(?:gegen|auf)?\s*(?:den|die|das)?\s*([^,.!?;]+)|([a-z]+)(?:allergie|unvertraglichkeit|intoleranz)\b/g,
+  avoidancePattern: /(?:^|\s)(?:ohne|kein|keine|keinen|keinem|keiner)\s+([^,.!?;]+)|([a-z]+)frei(?:e|en|er|es)?\b/g,
+  claimPattern: /(?:^|\s)(?:ohne|kein|keine|keinen|keinem|keiner)\s+([^,.!?;]+)|([a-z]+)frei(?:e|en|er|es)?\b/g,
+  cheeseWords: ['kase'],
+  conjunctions: ['und', 'oder'],
+};
+
+const it: GuardLanguage = {
+  allergenKeywords: {
+    'gluten': ['glutine', 'frumento', 'celiaco', 'celiaca', 'celiachia'],
+    'crustacés': ['crostaceo', 'crostacei', 'gambero', 'gamberi', 'gamberetto', 'gamberetti', 'aragosta', 'astice', 'granchio', 'granchi'],
+    'œufs': ['uovo', 'uova'],
+    'poisson': ['pesce', 'pesci', 'acciuga', 'acciughe', 'tonno', 'salmone'],
+    'arachides': ['arachide', 'arachidi'],
+    'soja': ['soia'],
+    'lait': ['latte', 'lattosio', 'latticini', 'formaggio', 'formaggi', 'panna', 'burro'],
+    'fruits à coque': ['frutta a guscio', 'noce', 'noci', 'nocciola', 'nocciole', 'mandorla', 'mandorle', 'pistacchio', 'pistacchi', 'anacardi'],
+    'céleri': ['sedano'],
+    'moutarde': ['senape'],
+    'sésame': ['sesamo'],
+    'sulfites': ['solfito', 'solfiti'],
+    'lupin': ['lupino', 'lupini'],
+    'mollusques': ['mollusco', 'molluschi', 'cozza', 'cozze', 'ostrica', 'ostriche', 'calamaro', 'calamari', 'polpo'],
+  },
+  allergyPattern: /(?:allergico|allergica|allergici|allergiche|allergia|intollerante|intolleranza)\s+(?:a|al|alla|ai|agli|alle|allo|all'|ad)?\s*([^,.!?;]+)/g,
+  avoidancePattern: /(?:^|\s)(?:senza|niente|non mangio|non posso mangiare)\s+([^,.!?;]+)/g,
+  claimPattern: /(?:^|\s)(?:senza|privo di|priva di|non contiene|non ha)\s+([^,.!?;]+)/g,
+  cheeseWords: ['formaggio', 'formaggi'],
+  conjunctions: ['e', 'ed', 'o'],
+};
+
+// Une entrée par langue de l'interface : une langue ajoutée sans son vocabulaire ne compile pas
+export const GUARD_LANGUAGES: Record<Locale, GuardLanguage> = { fr, en, es, de, it };
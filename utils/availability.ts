@@ -0,0 +1,18 @@
+// Disponibilité des plats en service ("86") — partagé client / serveur
+
+export interface ItemAvailability {
+  itemId: number;
+  available: boolean;
+  // Portions restantes ; null = pas de suivi de stock
+  stock: number | null;
+  updatedAt: string;
+}
+
+// Disponibilités connues, par identifiant de plat (absent = disponible)
+export type AvailabilityMap = Record<number, ItemAvailability>;
+
+export const isItemAvailable = (availability: AvailabilityMap, itemId: number) => {
+  const entry = availability[itemId];
+  if (!entry) return true;
+  return entry.available && (entry.stock === null || entry.stock > 0);
+};
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import { AvailabilityMap, ItemAvailability, isItemAvailable } from './availability';
+import { publishLiveEvent, subscribeToLiveEvents } from './liveEvents';
+
+// Disponibilités et stocks des plats (usage serveur uniquement)
+
+const AVAILABILITY_CHANNEL = 'availability';
+
+const getStorePath = () =>
+  process.env.AVAILABILITY_STORE_PATH || path.join(process.cwd(), 'data', 'availability.json');
+
+// Sérialiser les écritures entre toutes les routes
+const globalForAvailability = globalThis as unknown as { foodvoiceAvailabilityQueue?: Promise<unknown> };
+
+const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const queue = globalForAvailability.foodvoiceAvailabilityQueue || Promise.resolve();
+  const run = queue.then(task, task);
+  globalForAvailability.foodvoiceAvailabilityQueue = run.catch(() => undefined);
+  return run;
+};
+
+export const getAvailability = async (): Promise<AvailabilityMap> => {
+  try {
+    const raw = await fs.promises.readFile(getStorePath(), 'utf-8');
+    return JSON.parse(raw);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+const writeAvailability = async (availability: AvailabilityMap) => {
+  const storePath = getStorePath();
+  await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
+  const tmpPath = `${storePath}.tmp`;
+  await fs.promises.writeFile(tmpPath, JSON.stringify(availability, null, 2));
+  await fs.promises.rename(tmpPath, storePath);
+};
+
+const buildEntry = (
+  itemId: number,
+  previous: ItemAvailability | undefined,
+  changes: { available?: boolean; stock?: number | null }
+): ItemAvailability => ({
+  itemId,
+  available: changes.available ?? previous?.available ?? true,
+  stock: changes.stock !== undefined ? changes.stock : previous?.stock ?? null,
+  updatedAt: new Date().toISOString(),
+});
+
+// Basculer un plat (disponible / "86") et/ou fixer son stock
+export const setItemAvailability = (
+  itemId: number,
+  changes: { available?: boolean; stock?: number | null }
+) => withLock(async () => {
+  const availability = await getAvailability();
+  const entry = buildEntry(itemId, availability[itemId], changes);
+  availability[itemId] = entry;
+  await writeAvailability(availability);
+  publishLiveEvent(AVAILABILITY_CHANNEL, entry);
+  return entry;
+});
+
+// Réserver les portions d'une commande ; rien n'est décompté si un plat manque
+export const consumeStock = (lines: Array<{ itemId: number; quantity: number }>) => withLock(async () => {
+  const availability = await getAvailability();
+
+  const unavailable = lines
+    .filter(line => {
+      const entry = availability[line.itemId];
+      return !isItemAvailable(availability, line.itemId)
+        || (entry && entry.stock !== null && entry.stock < line.quantity);
+    })
+    .map(line => line.itemId);
+
+  if (unavailable.length > 0) {
+    return { unavailable };
+  }
+
+  const changed: ItemAvailability[] = [];
+  lines.forEach(line => {
+    const entry = availability[line.itemId];
+    if (entry && entry.stock !== null) {
+      availability[line.itemId] = buildEntry(line.itemId, entry, { stock: entry.stock - line.quantity });
+      changed.push(availability[line.itemId]);
+    }
+  });
+
+  if (changed.length > 0) {
+    await writeAvailability(availability);
+    changed.forEach(entry => publishLiveEvent(AVAILABILITY_CHANNEL, entry));
+  }
+
+  return { unavailable };
+});
+
+// Rendre les portions d'une commande annulée ou non enregistrée
+export const restoreStock = (lines: Array<{ itemId: number; quantity: number }>) => withLock(async () => {
+  const availability = await getAvailability();
+
+  const changed: ItemAvailability[] = [];
+  lines.forEach(line => {
+    const entry = availability[line.itemId];
+    if (entry && entry.stock !== null) {
+      availability[line.itemId] = buildEntry(line.itemId, entry, { stock: entry.stock + line.quantity });
+      changed.push(availability[line.itemId]);
+    }
+  });
+
+  if (changed.length > 0) {
+    await writeAvailability(availability);
+    changed.forEach(entry => publishLiveEvent(AVAILABILITY_CHANNEL, entry));
+  }
+});
+
+// S'abonner aux changements de disponibilité ; retourne la fonction de désabonnement
+export const subscribeToAvailability = (listener: (entry: ItemAvailability) => void) =>
+  subscribeToLiveEvents(AVAILABILITY_CHANNEL, listener);
@@ -0,0 +1,223 @@
+import { MenuData, getAllItems } from './menu';
+import { AvailabilityMap, isItemAvailable } from './availability';
+import { ChatActions, CartAction } from './chatTools';
+import { withDefaultOptions, validateModifierSelection, matchModifierOption } from './modifiers';
+import { MenuFilter, validateMenuFilter, normalizeMenuFilter, applyMenuFilters, normalizeText } from './menuFilters';
+
+// Action refusée ou corrigée avant d'être envoyée au client
+export interface ActionRejection {
+  action: string;
+  value: unknown;
+  reason: string;
+  // Valeur retenue à la place, si l'action a été corrigée plutôt que supprimée
+  correctedTo?: unknown;
+}
+
+export interface SanitizedChatActions {
+  actions: ChatActions;
+  rejected: ActionRejection[];
+}
+
+// Quantité maximale ajoutée au panier en une seule demande
+const MAX_VOICE_QUANTITY = 20;
+
+// Valider chaque action contre le menu chargé : les actions impossibles sont
+// supprimées ou corrigées, et chaque décision est consignée dans "rejected".
+// "profileFilters" (profil du client) écarte les plats incompatibles des suggestions.
+export const sanitizeChatActions = (
+  input: Record<string, any>,
+  menuData: MenuData,
+  availability: AvailabilityMap,
+  profileFilters: MenuFilter[] = []
+): SanitizedChatActions => {
+  const actions: ChatActions = {};
+  const rejected: ActionRejection[] = [];
+  const reject = (action: string, value: unknown, reason: string, correctedTo?: unknown) =>
+    rejected.push(correctedTo === undefined ? { action, value, reason } : { action, value, reason, correctedTo });
+
+  const allItems = getAllItems(menuData);
+  const itemsById = new Map(allItems.map(item => [item.id, item]));
+  const categoryOf = new Map<number, string>();
+  Object.entries(menuData.menu).forEach(([key, items]) => items.forEach(item => categoryOf.set(item.id, key)));
+
+  Object.keys(input || {})
+    .filter(key => !['filterCategory', 'setFilters', 'addFilters', 'recommendedItems', 'showItems', 'addToCart', 'removeFromCart'].includes(key))
+    .forEach(key => reject(key, input[key], 'action inconnue'));
+
+  // Catégorie : clé exacte, sinon correspondance sur la clé ou le nom affiché
+  if (input?.filterCategory !== undefined) {
+    const value = input.filterCategory;
+    if (value === 'all' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(menuData.categories, value))) {
+      actions.filterCategory = value;
+    } else {
+      const match = typeof value === 'string'
+        ? Object.entries(menuData.categories).find(([key, category]) =>
+          normalizeText(key) === normalizeText(value) || normalizeText(category.name) === normalizeText(value))
+        : undefined;
+      if (match) {
+        actions.filterCategory = match[0];
+        reject('filterCategory', value, 'catégorie inexacte', match[0]);
+      } else {
+        reject('filterCategory', value, 'catégorie inconnue');
+      }
+    }
+  }
+
+  // Filtres : forme valide, et un filtre "avec X" doit correspondre à au moins un plat du menu
+  const sanitizeFilters = (action: 'setFilters' | 'addFilters') => {
+    const value = input?.[action];
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      reject(action, value, 'liste de filtres attendue');
+      return;
+    }
+    const filters: MenuFilter[] = [];
+    value.forEach(entry => {
+      const errors = validateMenuFilter(entry);
+      if (errors.length > 0) {
+        reject(action, entry, errors.join('; '));
+        return;
+      }
+      const filter = normalizeMenuFilter(entry);
+      if ((filter.kind === 'ingredient' && filter.mode === 'include') || filter.kind === 'tag') {
+        if (applyMenuFilters(allItems, [filter]).length === 0) {
+          reject(action, entry, 'aucun plat du menu ne correspond');
+          return;
+        }
+      }
+      filters.push(filter);
+    });
+    // Une liste vide reste significative pour setFilters (tout réinitialiser)
+    if (filters.length > 0 || action === 'setFilters') {
+      actions[action] = filters;
+    }
+  };
+  sanitizeFilters('setFilters');
+  sanitizeFilters('addFilters');
+
+  // Listes de plats : identifiants existants et disponibles, sans doublon
+  const sanitizeItemIds = (action: 'recommendedItems' | 'showItems') => {
+    const value = input?.[action];
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      reject(action, value, 'liste d\'identifiants attendue');
+      return;
+    }
+    const itemIds: number[] = [];
+    value.forEach(itemId => {
+      if (!itemsById.has(itemId)) {
+        reject(action, itemId, 'plat inconnu');
+      } else if (!isItemAvailable(availability, itemId)) {
+        reject(action, itemId, 'plat en rupture');
+      } else if (applyMenuFilters([itemsById.get(itemId)], profileFilters).length === 0) {
+        reject(action, itemId, 'plat incompatible avec le profil du client');
+      } else if (!itemIds.includes(itemId)) {
+        itemIds.push(itemId);
+      }
+    });
+    if (itemIds.length > 0) {
+      actions[action] = itemIds;
+    }
+  };
+  sanitizeItemIds('recommendedItems');
+  sanitizeItemIds('showItems');
+
+  // Des plats mis en avant hors de la catégorie affichée seraient invisibles : tout afficher
+  const highlighted = [...(actions.recommendedItems || []), ...(actions.showItems || [])];
+  if (
+    actions.filterCategory &&
+    actions.filterCategory !== 'all' &&
+    highlighted.some(itemId => categoryOf.get(itemId) !== actions.filterCategory)
+  ) {
+    reject('filterCategory', actions.filterCategory, 'plats mis en avant hors de cette catégorie', 'all');
+    actions.filterCategory = 'all';
+  }
+
+  // Panier : plats existants, quantités entières et compatibles avec le stock
+  const sanitizeCartEntries = (action: 'addToCart' | 'removeFromCart') => {
+    const value = input?.[action];
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      reject(action, value, 'liste de plats attendue');
+      return;
+    }
+    const entries: CartAction[] = [];
+    value.forEach(entry => {
+      const item = itemsById.get(entry?.itemId);
+      if (!item) {
+        reject(action, entry, 'plat inconnu');
+        return;
+      }
+
+      const sanitized: CartAction = { itemId: item.id };
+      if (entry.quantity !== undefined) {
+        if (!Number.isInteger(entry.quantity) || entry.quantity < 1) {
+          reject(action, entry, 'quantité invalide', action === 'addToCart' ? 1 : null);
+          if (action === 'addToCart') sanitized.quantity = 1;
+        } else {
+          sanitized.quantity = entry.quantity;
+        }
+      }
+
+      if (action === 'addToCart') {
+        if (!isItemAvailable(availability, item.id)) {
+          reject(action, entry, 'plat en rupture');
+          return;
+        }
+        const stock = availability[item.id]?.stock;
+        const limit = typeof stock === 'number' ? Math.min(stock, MAX_VOICE_QUANTITY) : MAX_VOICE_QUANTITY;
+        if ((sanitized.quantity || 1) > limit) {
+          reject(action, entry, `quantité limitée à ${limit}`, limit);
+          sanitized.quantity = limit;
+        }
+        if (typeof entry.note === 'string' && entry.note.trim()) {
+          sanitized.note = entry.note.trim();
+        }
+
+        // Options : identifiant exact, sinon libellé ("sans basilic") ; le plat doit respecter min / max
+        if (entry.options !== undefined) {
+          if (!Array.isArray(entry.options)) {
+            reject(action, entry, 'liste d\'options attendue');
+            return;
+          }
+          const options: string[] = [];
+          entry.options.forEach((value: unknown) => {
+            const option = typeof value === 'string' ? matchModifierOption(item, value) : undefined;
+            if (!option) {
+              reject(action, value, `option inconnue pour ${item.name}`);
+              return;
+            }
+            if (option.id !== value) reject(action, value, 'option inexacte', option.id);
+            options.push(option.id);
+          });
+          if (options.length > 0) sanitized.options = Array.from(new Set(options));
+        }
+        const optionErrors = validateModifierSelection(item, withDefaultOptions(item, sanitized.options || []));
+        if (optionErrors.length > 0) {
+          reject(action, entry, `${item.name} : ${optionErrors.join(', ')}`);
+          return;
+        }
+      }
+
+      entries.push(sanitized);
+    });
+    if (entries.length > 0) {
+      actions[action] = entries;
+    }
+  };
+  sanitizeCartEntries('addToCart');
+  sanitizeCartEntries('removeFromCart');
+
+  return { actions, rejected };
+};
+
+// Fusionner des actions successives (flux) : panier et ajouts de filtres s'additionnent,
+// le reste est remplacé
+export const mergeChatActions = (target: ChatActions, next: ChatActions) => {
+  const { addToCart, removeFromCart, addFilters, ...rest } = next;
+  Object.assign(target, rest);
+  if (rest.setFilters) delete target.addFilters;
+  if (addFilters) target.addFilters = [...(target.addFilters || []), ...addFilters];
+  if (addToCart) target.addToCart = [...(target.addToCart || []), ...addToCart];
+  if (removeFromCart) target.removeFromCart = [...(target.removeFromCart || []), ...removeFromCart];
+};
@@ -0,0 +1,90 @@
+import type { ChatActions } from './chatTools';
+import type { SignedSpeech } from './tts/types';
+
+// Lecture côté client des flux SSE obtenus par fetch : /api/chat (POST) et flux authentifiés
+// (EventSource ne permet ni POST ni en-tête Authorization)
+
+export interface ChatStreamHandlers {
+  // Une phrase vérifiée, signée pour la voix serveur
+  onDelta: (text: string, sig?: string) => void;
+  onActions: (actions: ChatActions) => void;
+  onDone: (data: { response: string; speech?: SignedSpeech[]; debug?: { rejected?: unknown[]; safety?: unknown[] } }) => void;
+  onError: (data: { error: string; details?: string }) => void;
+}
+
+// Décoder un bloc "event: ...\ndata: ..." ; les blocs sans données (battement de cœur) sont ignorés
+const parseEventBlock = (block: string): { event: string; data: any } | null => {
+  let event = 'message';
+  let data = '';
+  block.split('\n').forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    if (line.startsWith('data:')) data += line.slice(5).trim();
+  });
+  return data ? { event, data: JSON.parse(data) } : null;
+};
+
+// Lire un flux SSE obtenu par fetch, événement par événement, jusqu'à sa fin
+export const readEventStream = async (response: Response, onEvent: (event: string, data: any) => void) => {
+  if (!response.body) {
+    throw new Error('Flux de réponse indisponible');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    const parsed = parseEventBlock(block);
+    if (parsed) onEvent(parsed.event, parsed.data);
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() || '';
+    blocks.forEach(dispatch);
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+};
+
+export const readChatStream = (response: Response, handlers: ChatStreamHandlers) =>
+  readEventStream(response, (event, payload) => {
+    switch (event) {
+      case 'delta':
+        handlers.onDelta(payload.text, payload.sig);
+        break;
+      case 'actions':
+        handlers.onActions(payload);
+        break;
+      case 'done':
+        handlers.onDone(payload);
+        break;
+      case 'error':
+        handlers.onError(payload);
+        break;
+    }
+  });
+
+// Découper le texte reçu en phrases complètes ; le reste attend la suite du flux.
+// Une ponctuation n'est une fin de phrase que suivie d'un espace ("4.50" reste entier).
+export const takeSentences = (text: string): { sentences: string[]; rest: string } => {
+  const sentences: string[] = [];
+  const boundary = /[.!?…]+\s+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+
+  return { sentences, rest: text.slice(start) };
+};
@@ -0,0 +1,254 @@
+import { ToolCall, ToolDefinition } from './ai';
+import { MenuData, EU_ALLERGENS } from './menu';
+import { MenuFilter, MENU_FILTER_KINDS, MENU_FLAGS } from './menuFilters';
+
+// Actions d'interface renvoyées au client par /api/chat
+export interface ChatActions {
+  filterCategory?: string;
+  // Remplace tous les filtres actifs
+  setFilters?: MenuFilter[];
+  // S'ajoute aux filtres actifs (un filtre de même clé est remplacé)
+  addFilters?: MenuFilter[];
+  recommendedItems?: number[];
+  showItems?: number[];
+  addToCart?: CartAction[];
+  removeFromCart?: CartAction[];
+}
+
+// Modification du panier demandée à la voix
+export interface CartAction {
+  itemId: number;
+  quantity?: number;
+  note?: string;
+  // Identifiants des options du plat (modifierGroups), ex: ["grande", "sans-basilic"]
+  options?: string[];
+}
+
+// Un filtre du moteur de filtres ; les champs requis dépendent de "kind"
+const menuFilterList = {
+  type: 'object',
+  properties: {
+    filters: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: MENU_FILTER_KINDS },
+          flag: { type: 'string', enum: MENU_FLAGS },
+          value: { type: 'boolean' },
+          ingredient: { type: 'string' },
+          mode: { type: 'string', enum: ['include', 'exclude'] },
+          allergen: { type: 'string', enum: EU_ALLERGENS },
+          amount: { type: 'number', minimum: 0 },
+          minutes: { type: 'integer', minimum: 0 },
+          tag: { type: 'string' },
+        },
+        required: ['kind'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['filters'],
+  additionalProperties: false,
+};
+
+const FILTER_KINDS_HELP = 'Types : flag (flag + value, ex: spicy=false pour "pas épicé", vegetarian=false pour "avec viande"), '
+  + 'cheese (value), ingredient (ingredient + mode include|exclude), allergen (allergène à exclure), '
+  + 'noAllergens, maxPrice (amount), maxPreparationMinutes (minutes), tag.';
+
+const itemIdList = {
+  type: 'object',
+  properties: {
+    itemIds: { type: 'array', items: { type: 'integer' } },
+  },
+  required: ['itemIds'],
+  additionalProperties: false,
+};
+
+const cartEntries = (withNote: boolean) => ({
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          itemId: { type: 'integer' },
+          quantity: { type: 'integer', minimum: 1 },
+          ...(withNote ? { note: { type: 'string' }, options: { type: 'array', items: { type: 'string' } } } : {}),
+        },
+        required: ['itemId'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['items'],
+  additionalProperties: false,
+});
+
+// Outils proposés à Fred pour piloter l'interface
+export const buildChatTools = (menuData: MenuData): ToolDefinition[] => [
+  {
+    name: 'set_category',
+    description: 'Afficher une catégorie du menu ("all" pour tout le menu)',
+    parameters: {
+      type: 'object',
+      properties: {
+        category: { type: 'string', enum: ['all', ...Object.keys(menuData.categories)] },
+      },
+      required: ['category'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'set_filters',
+    description: `Remplacer tous les filtres actifs (liste vide : aucun filtre). ${FILTER_KINDS_HELP}`,
+    parameters: menuFilterList,
+  },
+  {
+    name: 'add_filters',
+    description: `Ajouter des filtres à ceux déjà actifs. ${FILTER_KINDS_HELP}`,
+    parameters: menuFilterList,
+  },
+  {
+    name: 'recommend_items',
+    description: 'Mettre en avant des plats recommandés (par identifiant)',
+    parameters: itemIdList,
+  },
+  {
+    name: 'show_items',
+    description: 'Afficher uniquement une liste précise de plats (par identifiant)',
+    parameters: itemIdList,
+  },
+  {
+    name: 'add_to_cart',
+    description: 'Ajouter des plats au panier, uniquement sur demande explicite du client. '
+      + 'options : identifiants des options du plat (modifierGroups : taille, suppléments, retraits, cuisson)',
+    parameters: cartEntries(true),
+  },
+  {
+    name: 'remove_from_cart',
+    description: 'Retirer des plats du panier (sans quantité : retirer complètement le plat)',
+    parameters: cartEntries(false),
+  },
+];
+
+// Validation minimale d'une valeur contre le sous-ensemble de JSON Schema utilisé ci-dessus
+const validateSchema = (value: any, schema: Record<string, any>, path: string): string[] => {
+  const at = path || 'arguments';
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${at} doit être un objet`];
+      }
+      const properties = schema.properties || {};
+      const errors: string[] = [];
+      (schema.required || []).forEach((key: string) => {
+        if (value[key] === undefined) errors.push(`${at}.${key} est requis`);
+      });
+      Object.keys(value).forEach(key => {
+        if (properties[key]) {
+          errors.push(...validateSchema(value[key], properties[key], `${at}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${at}.${key} n'est pas autorisé`);
+        }
+      });
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${at} doit être une liste`];
+      return value.flatMap((entry, index) => validateSchema(entry, schema.items, `${at}[${index}]`));
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return [`${at} doit être un ${schema.type === 'integer' ? 'entier' : 'nombre'}`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${at} doit être ≥ ${schema.minimum}`];
+      }
+      return [];
+    case 'string':
+      if (typeof value !== 'string') return [`${at} doit être un texte`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${at} doit valoir ${schema.enum.join(' | ')}`];
+      }
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${at} doit être un booléen`];
+    default:
+      return [];
+  }
+};
+
+// Réparer des arguments presque-JSON (balises markdown, texte autour)
+export const repairJson = (raw: string): any => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    let cleaned = (raw || '').trim();
+    cleaned = cleaned.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+    const firstBrace = cleaned.indexOf('{');
+    const lastBrace = cleaned.lastIndexOf('}');
+    if (firstBrace !== -1 && lastBrace !== -1 && firstBrace < lastBrace) {
+      cleaned = cleaned.substring(firstBrace, lastBrace + 1);
+    }
+
+    return JSON.parse(cleaned);
+  }
+};
+
+export interface ToolCallOutcome {
+  call: ToolCall;
+  errors: string[];
+}
+
+// Valider les appels d'outils et les traduire en actions d'interface.
+// Les appels invalides sont ignorés et renvoyés avec leurs erreurs pour correction.
+export const applyToolCalls = (calls: ToolCall[], tools: ToolDefinition[], actions: ChatActions): ToolCallOutcome[] =>
+  calls.map(call => {
+    const tool = tools.find(definition => definition.name === call.name);
+    if (!tool) {
+      return { call, errors: [`outil inconnu "${call.name}"`] };
+    }
+
+    let args: any;
+    try {
+      args = repairJson(call.arguments);
+    } catch {
+      return { call, errors: ['arguments JSON illisibles'] };
+    }
+
+    const errors = validateSchema(args, tool.parameters, '');
+    if (errors.length > 0) {
+      return { call, errors };
+    }
+
+    switch (call.name) {
+      case 'set_category':
+        actions.filterCategory = args.category;
+        break;
+      case 'set_filters':
+        actions.setFilters = args.filters;
+        delete actions.addFilters;
+        break;
+      case 'add_filters':
+        actions.addFilters = [...(actions.addFilters || []), ...args.filters];
+        break;
+      case 'recommend_items':
+        actions.recommendedItems = args.itemIds;
+        break;
+      case 'show_items':
+        actions.showItems = args.itemIds;
+        break;
+      case 'add_to_cart':
+        actions.addToCart = [...(actions.addToCart || []), ...args.items];
+        break;
+      case 'remove_from_cart':
+        actions.removeFromCart = [...(actions.removeFromCart || []), ...args.items];
+        break;
+    }
+
+    return { call, errors: [] };
+  });
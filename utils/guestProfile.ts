@@ -0,0 +1,100 @@
+import { EU_ALLERGENS } from './menu';
+import { MenuFilter } from './menuFilters';
+import { DEFAULT_LOCALE, LOCALE_LABELS, SUPPORTED_LOCALES } from './i18n';
+
+// Profil alimentaire d'un client, partagé client / serveur
+
+export type GuestDiet = 'none' | 'vegetarian' | 'vegan' | 'halal';
+
+export interface GuestProfile {
+  diet: GuestDiet;
+  excludedAllergens: string[];
+  dislikedIngredients: string[];
+  // Code langue ISO 639-1 (ex: "fr", "en")
+  language: string;
+  updatedAt?: string;
+}
+
+export const GUEST_DIETS: Array<{ value: GuestDiet; label: string }> = [
+  { value: 'none', label: 'Aucun régime' },
+  { value: 'vegetarian', label: 'Végétarien' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'halal', label: 'Halal' },
+];
+
+// Langues proposées : celles de l'interface (textes, menu traduit, voix de Fred)
+export const GUEST_LANGUAGES: Array<{ value: string; label: string }> = SUPPORTED_LOCALES.map(locale => ({
+  value: locale,
+  label: LOCALE_LABELS[locale],
+}));
+
+export const DEFAULT_GUEST_PROFILE: GuestProfile = {
+  diet: 'none',
+  excludedAllergens: [],
+  dislikedIngredients: [],
+  language: DEFAULT_LOCALE,
+};
+
+// Jeton client : identifiant aléatoire généré par le navigateur (UUID)
+export const GUEST_TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isGuestToken = (value: unknown): value is string =>
+  typeof value === 'string' && GUEST_TOKEN_PATTERN.test(value);
+
+export const isProfileEmpty = (profile: GuestProfile) =>
+  profile.diet === 'none' && profile.excludedAllergens.length === 0 && profile.dislikedIngredients.length === 0;
+
+// Filtres appliqués automatiquement à la grille pour ce profil
+export const profileToFilters = (profile: GuestProfile): MenuFilter[] => [
+  ...(profile.diet !== 'none' ? [{ kind: 'flag' as const, flag: profile.diet, value: true }] : []),
+  ...profile.excludedAllergens.map(allergen => ({ kind: 'allergen' as const, allergen })),
+  ...profile.dislikedIngredients.map(ingredient => ({ kind: 'ingredient' as const, ingredient, mode: 'exclude' as const })),
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Valider un profil reçu par l'API ; retourne les erreurs (vide si valide)
+export const validateGuestProfile = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['le profil doit être un objet'];
+  }
+
+  const errors: string[] = [];
+  if (!GUEST_DIETS.some(diet => diet.value === value.diet)) {
+    errors.push(`régime inconnu "${value.diet}"`);
+  }
+  if (!Array.isArray(value.excludedAllergens)) {
+    errors.push('excludedAllergens doit être une liste');
+  } else {
+    value.excludedAllergens
+      .filter((allergen: unknown) => typeof allergen !== 'string' || !EU_ALLERGENS.includes(allergen))
+      .forEach((allergen: unknown) => errors.push(`allergène inconnu "${allergen}"`));
+  }
+  if (!Array.isArray(value.dislikedIngredients) || !value.dislikedIngredients.every((entry: unknown) => typeof entry === 'string')) {
+    errors.push('dislikedIngredients doit être une liste de textes');
+  }
+  if (typeof value.language !== 'string' || !/^[a-z]{2}$/.test(value.language)) {
+    errors.push('language doit être un code langue à deux lettres');
+  }
+  return errors;
+};
+
+// Ne garder que les champs du profil (après validation)
+export const pickGuestProfile = (value: GuestProfile): GuestProfile => ({
+  diet: value.diet,
+  excludedAllergens: Array.from(new Set<string>(value.excludedAllergens)),
+  dislikedIngredients: value.dislikedIngredients.map(entry => entry.trim()).filter(Boolean),
+  language: value.language,
+});
+
+// Résumé du profil injecté dans le contexte de Fred
+export const describeGuestProfile = (profile: GuestProfile): string => {
+  const diet = GUEST_DIETS.find(entry => entry.value === profile.diet);
+  return [
+    `- Régime : ${diet && profile.diet !== 'none' ? diet.label : 'aucun'}`,
+    `- Allergènes à exclure : ${profile.excludedAllergens.length > 0 ? profile.excludedAllergens.join(', ') : 'aucun'}`,
+    `- Ingrédients non désirés : ${profile.dislikedIngredients.length > 0 ? profile.dislikedIngredients.join(', ') : 'aucun'}`,
+    `- Langue : ${profile.language}`,
+  ].join('\n');
+};
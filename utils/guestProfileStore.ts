@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { GuestProfile } from './guestProfile';
+
+// Profils clients indexés par jeton (usage serveur uniquement)
+
+type GuestProfileMap = Record<string, GuestProfile>;
+
+const getStorePath = () =>
+  process.env.GUEST_PROFILE_STORE_PATH || path.join(process.cwd(), 'data', 'guest-profiles.json');
+
+// Sérialiser les écritures entre toutes les routes
+const globalForProfiles = globalThis as unknown as { foodvoiceGuestProfileQueue?: Promise<unknown> };
+
+const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const queue = globalForProfiles.foodvoiceGuestProfileQueue || Promise.resolve();
+  const run = queue.then(task, task);
+  globalForProfiles.foodvoiceGuestProfileQueue = run.catch(() => undefined);
+  return run;
+};
+
+const readProfiles = async (): Promise<GuestProfileMap> => {
+  try {
+    const raw = await fs.promises.readFile(getStorePath(), 'utf-8');
+    return JSON.parse(raw);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+const writeProfiles = async (profiles: GuestProfileMap) => {
+  const storePath = getStorePath();
+  await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
+  const tmpPath = `${storePath}.tmp`;
+  await fs.promises.writeFile(tmpPath, JSON.stringify(profiles, null, 2));
+  await fs.promises.rename(tmpPath, storePath);
+};
+
+export const getGuestProfile = async (token: string): Promise<GuestProfile | undefined> =>
+  (await readProfiles())[token];
+
+export const saveGuestProfile = (token: string, profile: GuestProfile) => withLock(async () => {
+  const profiles = await readProfiles();
+  const saved: GuestProfile = { ...profile, updatedAt: new Date().toISOString() };
+  profiles[token] = saved;
+  await writeProfiles(profiles);
+  return saved;
+});
+
+export const deleteGuestProfile = (token: string) => withLock(async () => {
+  const profiles = await readProfiles();
+  if (!profiles[token]) return false;
+  delete profiles[token];
+  await writeProfiles(profiles);
+  return true;
+});
@@ -0,0 +1,98 @@
+import { fr } from './locales/fr';
+import { en } from './locales/en';
+import { es } from './locales/es';
+import { de } from './locales/de';
+import { it } from './locales/it';
+
+// Langues de l'interface client, partagé client / serveur.
+// Le français est la langue de référence : une clé absente d'un catalogue retombe sur le français.
+
+export type Locale = 'fr' | 'en' | 'es' | 'de' | 'it';
+
+export type MessageKey = keyof typeof fr;
+export type Messages = Record<MessageKey, string>;
+
+export const SUPPORTED_LOCALES: Locale[] = ['fr', 'en', 'es', 'de', 'it'];
+export const DEFAULT_LOCALE: Locale = 'fr';
+
+// Nom de chaque langue dans cette langue (sélecteur du profil)
+export const LOCALE_LABELS: Record<Locale, string> = {
+  fr: 'Français',
+  en: 'English',
+  es: 'Español',
+  de: 'Deutsch',
+  it: 'Italiano',
+};
+
+// Nom de chaque langue en français (consignes du prompt de Fred)
+export const LOCALE_NAMES_FR: Record<Locale, string> = {
+  fr: 'français',
+  en: 'anglais',
+  es: 'espagnol',
+  de: 'allemand',
+  it: 'italien',
+};
+
+const CATALOGS: Record<Locale, Messages> = { fr, en, es, de, it };
+
+export const isSupportedLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && SUPPORTED_LOCALES.includes(value as Locale);
+
+// Langue reconnue par Whisper : nom anglais ("french") ou code ISO ("fr", "fr-FR")
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+  french: 'fr',
+  english: 'en',
+  spanish: 'es',
+  german: 'de',
+  italian: 'it',
+  portuguese: 'pt',
+  dutch: 'nl',
+};
+
+// Code ISO 639-1 d'une langue détectée ou déclarée ; undefined si illisible
+export const toLanguageCode = (value?: string | null): string | undefined => {
+  if (!value) return undefined;
+  const normalized = value.trim().toLowerCase();
+  const code = WHISPER_LANGUAGE_NAMES[normalized] || normalized.split(/[-_]/)[0];
+  return /^[a-z]{2}$/.test(code) ? code : undefined;
+};
+
+// Langue de l'interface pour une valeur quelconque ; français si non prise en charge
+export const resolveLocale = (value?: string | null): Locale => {
+  const code = toLanguageCode(value);
+  return isSupportedLocale(code) ? code : DEFAULT_LOCALE;
+};
+
+// Texte d'une clé, avec remplacement des paramètres "{name}"
+export const translate = (
+  locale: string,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string => {
+  const template = CATALOGS[resolveLocale(locale)][key] || fr[key];
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params[name] !== undefined ? String(params[name]) : placeholder);
+};
+
+// Clés déclinées au singulier ("_one") et au pluriel ("_other")
+type PluralKey = MessageKey extends infer Key
+  ? Key extends `${infer Base}_one` ? Base : never
+  : never;
+
+// Texte au singulier ou au pluriel ; en français 0 et 1 sont au singulier
+export const translatePlural = (
+  locale: string,
+  key: PluralKey,
+  count: number,
+  params: Record<string, string | number> = {}
+): string => {
+  const resolved = resolveLocale(locale);
+  const isSingular = resolved === 'fr' ? count <= 1 : count === 1;
+  return translate(resolved, `${key}_${isSingular ? 'one' : 'other'}` as MessageKey, { count, ...params });
+};
+
+// Nom d'un allergène dans la langue du client (les données du menu restent en français)
+export const translateAllergen = (locale: string, allergen: string): string => {
+  const key = `allergen.${allergen}` as MessageKey;
+  return key in fr ? translate(locale, key) : allergen;
+};
@@ -0,0 +1,28 @@
+import { EventEmitter } from 'events';
+
+// Bus d'événements temps réel (usage serveur uniquement)
+
+// Bus partagé entre les routes API (chaque route a son propre bundle)
+const globalForEvents = globalThis as unknown as { foodvoiceLiveEvents?: EventEmitter };
+
+const getEmitter = () => {
+  if (!globalForEvents.foodvoiceLiveEvents) {
+    globalForEvents.foodvoiceLiveEvents = new EventEmitter();
+    // Un écran connecté = un abonné, on en tolère beaucoup
+    globalForEvents.foodvoiceLiveEvents.setMaxListeners(200);
+  }
+  return globalForEvents.foodvoiceLiveEvents;
+};
+
+export const publishLiveEvent = <T>(channel: string, payload: T) => {
+  getEmitter().emit(channel, payload);
+};
+
+// S'abonner à un canal ; retourne la fonction de désabonnement
+export const subscribeToLiveEvents = <T>(channel: string, listener: (payload: T) => void) => {
+  const emitter = getEmitter();
+  emitter.on(channel, listener);
+  return () => {
+    emitter.off(channel, listener);
+  };
+};
@@ -0,0 +1,149 @@
+import type { Messages } from '../i18n';
+
+export const de: Messages = {
+  'app.title': 'FOODVOICE - Interaktive Speisekarte',
+  'app.description': 'Interaktive Speisekarte mit Sprachassistent',
+
+  'menu.loading': 'Speisekarte wird geladen...',
+  'menu.loadingShort': 'Wird geladen...',
+  'menu.all': 'Alle',
+  'menu.ourMenu': 'Unsere Speisekarte',
+  'menu.fredSelection': 'Freds Auswahl',
+  'menu.dishCount_one': '{count} Gericht verfügbar',
+  'menu.dishCount_other': '{count} Gerichte verfügbar',
+  'menu.activeFilters_one': '({count} aktiver Filter)',
+  'menu.activeFilters_other': '({count} aktive Filter)',
+  'menu.backToFullMenu': '← Zurück zur ganzen Speisekarte',
+  'menu.noResults': 'Kein Gericht entspricht Ihren Kriterien',
+  'menu.noResultsHint': 'Ändern Sie Ihre Filter oder die Kategorie',
+  'menu.showAll': 'Ganze Speisekarte anzeigen',
+  'menu.search': 'Gericht oder Zutat suchen...',
+
+  'filters.label': 'Filter:',
+  'filters.clear': 'Löschen ({count})',
+  'filter.vegetarian': 'Vegetarisch',
+  'filter.vegetarian.off': 'Mit Fleisch oder Fisch',
+  'filter.vegan': 'Vegan',
+  'filter.vegan.off': 'Nicht vegan',
+  'filter.halal': 'Halal',
+  'filter.halal.off': 'Nicht halal',
+  'filter.popular': 'Beliebt',
+  'filter.popular.off': 'Weniger gefragt',
+  'filter.spicy': 'Scharf',
+  'filter.spicy.off': 'Nicht scharf',
+  'filter.withCheese': 'Mit Käse',
+  'filter.withoutCheese': 'Ohne Käse',
+  'filter.withIngredient': 'Mit {ingredient}',
+  'filter.withoutIngredient': 'Ohne {ingredient}',
+  'filter.withoutAllergen': 'Ohne {allergen}',
+  'filter.noAllergens': 'Ohne Allergene',
+
+  'dish.soldOut': 'Ausverkauft',
+  'dish.recommended': 'Von Fred empfohlen',
+  'dish.popular': 'Beliebt',
+  'dish.spicy': 'Scharf',
+  'dish.vegetarian': 'Veggie',
+  'dish.vegan': 'Vegan',
+  'dish.allergens': 'Allergene:',
+  'dish.cheeseRemovable': 'Auch ohne Käse möglich',
+  'dish.order': 'Bestellen',
+  'modifiers.required': '(Pflicht)',
+  'modifiers.max': '(max. {max})',
+
+  'assistant.name': 'Fred (Assistent)',
+  'assistant.replay': 'Nachricht erneut anhören',
+  'assistant.youSaid': 'Sie haben gesagt:',
+  'assistant.error': 'Fehler:',
+  'assistant.welcome': 'Hallo, ich bin Fred, Ihr digitaler Kellner! Ich bin hier, um Ihnen zu helfen, Sie zu führen und das Menü zu erklären. Also sagen Sie mir, was hätten Sie heute gerne?',
+  'assistant.fallback': 'Entschuldigung, ich habe ein kleines technisches Problem. Können Sie Ihre Bitte wiederholen?',
+
+  'chat.open': 'Fred schreiben',
+  'chat.title': 'Unterhaltung mit Fred',
+  'chat.close': 'Unterhaltung schließen',
+  'chat.placeholder': 'Ihre Nachricht...',
+  'chat.send': 'Senden',
+  'chat.you': 'Sie',
+  'chat.earlierSummarized': 'Frühere Nachrichten wurden zusammengefasst; Fred erinnert sich daran',
+
+  'voice.processing': 'Verarbeitung...',
+  'voice.thinking': 'Fred denkt nach...',
+  'voice.bargeIn': 'Fred spricht... sprechen Sie, um ihn zu unterbrechen',
+  'voice.hearingYou': 'Ich höre Ihnen zu...',
+  'voice.handsFreeListening': 'Hört zu, sprechen Sie, wann Sie möchten',
+  'voice.listening': 'Hört zu... (tippen zum Beenden)',
+  'voice.talkToMe': 'Sprechen Sie mit mir!',
+  'voice.tapToStart': 'Zum Starten tippen',
+  'voice.handsFreeOn': 'Freihändig an',
+  'voice.handsFreeOff': 'Freihändig aus',
+  'voice.handsFreeHint': 'Fred erkennt das Ende Ihrer Sätze und hört nach jeder Antwort wieder zu',
+  'voice.noSpeech': 'Ich habe nichts gehört, bitte versuchen Sie es erneut.',
+  'voice.microphoneError': 'Kein Zugriff auf das Mikrofon. Bitte prüfen Sie die Berechtigungen.',
+  'voice.transcriptionError': 'Fehler bei der Audio-Transkription',
+
+  'quick.pizzas': 'Pizzen',
+  'quick.pizzas.request': 'Ich möchte Pizza',
+  'quick.pasta': 'Pasta',
+  'quick.pasta.request': 'Zeigen Sie mir die Pasta',
+  'quick.vegetarian': 'Veggie',
+  'quick.vegetarian.request': 'Ich bin Vegetarier',
+
+  'cart.title': 'Ihre Bestellung',
+  'cart.close': 'Warenkorb schließen',
+  'cart.sent': 'Bestellung an die Küche gesendet ✅',
+  'cart.orderNumber': 'Nr. {number}',
+  'cart.empty': 'Ihr Warenkorb ist leer',
+  'cart.decrease': 'Eins weniger',
+  'cart.increase': 'Eins mehr',
+  'cart.remove': 'Entfernen',
+  'cart.notePlaceholder': 'Hinweis für die Küche (z. B. gut durch)',
+  'cart.itemCount_one': '{count} Artikel',
+  'cart.itemCount_other': '{count} Artikel',
+  'cart.submitting': 'Wird gesendet...',
+  'cart.submit': 'Bestellung absenden',
+  'cart.clear': 'Warenkorb leeren',
+  'cart.servedAt': 'Serviert an: {table}',
+  'order.error': 'Die Bestellung konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+  'order.unavailable': 'Nicht mehr verfügbar: {items}',
+
+  'orderStatus.received': 'Eingegangen',
+  'orderStatus.preparing': 'In Zubereitung',
+  'orderStatus.ready': 'Fertig',
+  'orderStatus.served': 'Serviert',
+  'orderStatus.paid': 'Bezahlt',
+  'orderStatus.cancelled': 'Storniert',
+
+  'profile.button': 'Meine Vorlieben',
+  'profile.title': 'Meine Vorlieben',
+  'profile.close': 'Schließen',
+  'profile.intro': 'Ihre Vorlieben werden für Ihre nächsten Besuche gespeichert: Die Speisekarte wird automatisch gefiltert und Fred berücksichtigt sie bei seinen Empfehlungen.',
+  'profile.diet': 'Ernährung',
+  'profile.allergies': 'Allergien',
+  'profile.disliked': 'Zu vermeidende Zutaten (durch Kommas getrennt)',
+  'profile.dislikedPlaceholder': 'Zwiebeln, Koriander',
+  'profile.language': 'Sprache',
+  'profile.done': 'Fertig',
+  'profile.reset': 'Löschen',
+
+  'diet.none': 'Keine besondere Ernährung',
+  'diet.vegetarian': 'Vegetarisch',
+  'diet.vegan': 'Vegan',
+  'diet.halal': 'Halal',
+
+  'allergen.gluten': 'Gluten',
+  'allergen.crustacés': 'Krebstiere',
+  'allergen.œufs': 'Eier',
+  'allergen.poisson': 'Fisch',
+  'allergen.arachides': 'Erdnüsse',
+  'allergen.soja': 'Soja',
+  'allergen.lait': 'Milch',
+  'allergen.fruits à coque': 'Schalenfrüchte',
+  'allergen.céleri': 'Sellerie',
+  'allergen.moutarde': 'Senf',
+  'allergen.sésame': 'Sesam',
+  'allergen.sulfites': 'Sulfite',
+  'allergen.lupin': 'Lupinen',
+  'allergen.mollusques': 'Weichtiere',
+
+  'guard.unsafeDish': 'Achtung: {item} ist mit Ihren Einschränkungen nicht vereinbar ({restrictions}).',
+  'guard.falseClaim': 'Hinweis: Laut unserer Karte enthält {item}: {restrictions}.',
+};
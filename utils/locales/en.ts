@@ -0,0 +1,149 @@
+import type { Messages } from '../i18n';
+
+export const en: Messages = {
+  'app.title': 'FOODVOICE - Interactive Menu',
+  'app.description': 'Interactive menu with a voice assistant',
+
+  'menu.loading': 'Loading the menu...',
+  'menu.loadingShort': 'Loading...',
+  'menu.all': 'All',
+  'menu.ourMenu': 'Our Menu',
+  'menu.fredSelection': "Fred's selection",
+  'menu.dishCount_one': '{count} dish available',
+  'menu.dishCount_other': '{count} dishes available',
+  'menu.activeFilters_one': '({count} active filter)',
+  'menu.activeFilters_other': '({count} active filters)',
+  'menu.backToFullMenu': '← Back to the full menu',
+  'menu.noResults': 'No dish matches your criteria',
+  'menu.noResultsHint': 'Try changing your filters or category',
+  'menu.showAll': 'See the whole menu',
+  'menu.search': 'Search for a dish, an ingredient...',
+
+  'filters.label': 'Filters:',
+  'filters.clear': 'Clear ({count})',
+  'filter.vegetarian': 'Vegetarian',
+  'filter.vegetarian.off': 'With meat or fish',
+  'filter.vegan': 'Vegan',
+  'filter.vegan.off': 'Not vegan',
+  'filter.halal': 'Halal',
+  'filter.halal.off': 'Not halal',
+  'filter.popular': 'Popular',
+  'filter.popular.off': 'Less popular',
+  'filter.spicy': 'Spicy',
+  'filter.spicy.off': 'Not spicy',
+  'filter.withCheese': 'With cheese',
+  'filter.withoutCheese': 'No cheese',
+  'filter.withIngredient': 'With {ingredient}',
+  'filter.withoutIngredient': 'No {ingredient}',
+  'filter.withoutAllergen': 'No {allergen}',
+  'filter.noAllergens': 'No allergens',
+
+  'dish.soldOut': 'Sold out',
+  'dish.recommended': 'Recommended by Fred',
+  'dish.popular': 'Popular',
+  'dish.spicy': 'Spicy',
+  'dish.vegetarian': 'Veggie',
+  'dish.vegan': 'Vegan',
+  'dish.allergens': 'Allergens:',
+  'dish.cheeseRemovable': 'Available without cheese',
+  'dish.order': 'Order',
+  'modifiers.required': '(required)',
+  'modifiers.max': '({max} max)',
+
+  'assistant.name': 'Fred (Assistant)',
+  'assistant.replay': 'Play the message again',
+  'assistant.youSaid': 'You said:',
+  'assistant.error': 'Error:',
+  'assistant.welcome': "Hello, I'm Fred your digital waiter! I'm here to help you, guide you and explain the menu. So tell me, what would you like today?",
+  'assistant.fallback': "Sorry, I'm having a small technical problem. Could you repeat your request?",
+
+  'chat.open': 'Write to Fred',
+  'chat.title': 'Chat with Fred',
+  'chat.close': 'Close the chat',
+  'chat.placeholder': 'Type your message...',
+  'chat.send': 'Send',
+  'chat.you': 'You',
+  'chat.earlierSummarized': 'Earlier messages have been summarised; Fred still remembers them',
+
+  'voice.processing': 'Processing...',
+  'voice.thinking': 'Fred is thinking...',
+  'voice.bargeIn': 'Fred is speaking... talk to interrupt him',
+  'voice.hearingYou': "I'm listening...",
+  'voice.handsFreeListening': 'Listening, speak whenever you like',
+  'voice.listening': 'Listening... (tap to stop)',
+  'voice.talkToMe': 'Talk to me!',
+  'voice.tapToStart': 'Tap to start',
+  'voice.handsFreeOn': 'Hands-free on',
+  'voice.handsFreeOff': 'Hands-free off',
+  'voice.handsFreeHint': 'Fred detects the end of your sentences and listens again after each answer',
+  'voice.noSpeech': "I didn't hear anything, please try again.",
+  'voice.microphoneError': 'Cannot access the microphone. Please check the permissions.',
+  'voice.transcriptionError': 'Audio transcription failed',
+
+  'quick.pizzas': 'Pizzas',
+  'quick.pizzas.request': 'I want pizzas',
+  'quick.pasta': 'Pasta',
+  'quick.pasta.request': 'Show me the pasta',
+  'quick.vegetarian': 'Veggie',
+  'quick.vegetarian.request': "I'm vegetarian",
+
+  'cart.title': 'Your order',
+  'cart.close': 'Close the cart',
+  'cart.sent': 'Order sent to the kitchen ✅',
+  'cart.orderNumber': 'No. {number}',
+  'cart.empty': 'Your cart is empty',
+  'cart.decrease': 'Remove one',
+  'cart.increase': 'Add one',
+  'cart.remove': 'Remove',
+  'cart.notePlaceholder': 'Note for the kitchen (e.g. well done)',
+  'cart.itemCount_one': '{count} item',
+  'cart.itemCount_other': '{count} items',
+  'cart.submitting': 'Sending...',
+  'cart.submit': 'Send the order',
+  'cart.clear': 'Empty the cart',
+  'cart.servedAt': 'Served at: {table}',
+  'order.error': 'The order could not be sent. Please try again.',
+  'order.unavailable': 'No longer available: {items}',
+
+  'orderStatus.received': 'Received',
+  'orderStatus.preparing': 'Being prepared',
+  'orderStatus.ready': 'Ready',
+  'orderStatus.served': 'Served',
+  'orderStatus.paid': 'Paid',
+  'orderStatus.cancelled': 'Cancelled',
+
+  'profile.button': 'My preferences',
+  'profile.title': 'My preferences',
+  'profile.close': 'Close',
+  'profile.intro': 'Your preferences are remembered for your next visits: the menu is filtered automatically and Fred takes them into account in his advice.',
+  'profile.diet': 'Diet',
+  'profile.allergies': 'Allergies',
+  'profile.disliked': 'Ingredients to avoid (comma-separated)',
+  'profile.dislikedPlaceholder': 'onions, coriander',
+  'profile.language': 'Language',
+  'profile.done': 'Done',
+  'profile.reset': 'Clear',
+
+  'diet.none': 'No diet',
+  'diet.vegetarian': 'Vegetarian',
+  'diet.vegan': 'Vegan',
+  'diet.halal': 'Halal',
+
+  'allergen.gluten': 'gluten',
+  'allergen.crustacés': 'crustaceans',
+  'allergen.œufs': 'eggs',
+  'allergen.poisson': 'fish',
+  'allergen.arachides': 'peanuts',
+  'allergen.soja': 'soy',
+  'allergen.lait': 'milk',
+  'allergen.fruits à coque': 'tree nuts',
+  'allergen.céleri': 'celery',
+  'allergen.moutarde': 'mustard',
+  'allergen.sésame': 'sesame',
+  'allergen.sulfites': 'sulphites',
+  'allergen.lupin': 'lupin',
+  'allergen.mollusques': 'molluscs',
+
+  'guard.unsafeDish': 'Careful: {item} is not compatible with your restrictions ({restrictions}).',
+  'guard.falseClaim': 'Please note: according to our menu, {item} contains: {restrictions}.',
+};
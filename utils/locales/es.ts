@@ -0,0 +1,149 @@
+import type { Messages } from '../i18n';
+
+export const es: Messages = {
+  'app.title': 'FOODVOICE - Carta Interactiva',
+  'app.description': 'Carta interactiva con asistente de voz',
+
+  'menu.loading': 'Cargando la carta...',
+  'menu.loadingShort': 'Cargando...',
+  'menu.all': 'Todo',
+  'menu.ourMenu': 'Nuestra Carta',
+  'menu.fredSelection': 'La selección de Fred',
+  'menu.dishCount_one': '{count} plato disponible',
+  'menu.dishCount_other': '{count} platos disponibles',
+  'menu.activeFilters_one': '({count} filtro activo)',
+  'menu.activeFilters_other': '({count} filtros activos)',
+  'menu.backToFullMenu': '← Volver a la carta completa',
+  'menu.noResults': 'Ningún plato corresponde a tus criterios',
+  'menu.noResultsHint': 'Prueba a cambiar los filtros o la categoría',
+  'menu.showAll': 'Ver toda la carta',
+  'menu.search': 'Buscar un plato, un ingrediente...',
+
+  'filters.label': 'Filtros:',
+  'filters.clear': 'Borrar ({count})',
+  'filter.vegetarian': 'Vegetariano',
+  'filter.vegetarian.off': 'Con carne o pescado',
+  'filter.vegan': 'Vegano',
+  'filter.vegan.off': 'No vegano',
+  'filter.halal': 'Halal',
+  'filter.halal.off': 'No halal',
+  'filter.popular': 'Popular',
+  'filter.popular.off': 'Menos pedido',
+  'filter.spicy': 'Picante',
+  'filter.spicy.off': 'No picante',
+  'filter.withCheese': 'Con queso',
+  'filter.withoutCheese': 'Sin queso',
+  'filter.withIngredient': 'Con {ingredient}',
+  'filter.withoutIngredient': 'Sin {ingredient}',
+  'filter.withoutAllergen': 'Sin {allergen}',
+  'filter.noAllergens': 'Sin alérgenos',
+
+  'dish.soldOut': 'Agotado',
+  'dish.recommended': 'Recomendado por Fred',
+  'dish.popular': 'Popular',
+  'dish.spicy': 'Picante',
+  'dish.vegetarian': 'Vegetariano',
+  'dish.vegan': 'Vegano',
+  'dish.allergens': 'Alérgenos:',
+  'dish.cheeseRemovable': 'Posible sin queso',
+  'dish.order': 'Pedir',
+  'modifiers.required': '(obligatorio)',
+  'modifiers.max': '({max} máx.)',
+
+  'assistant.name': 'Fred (Asistente)',
+  'assistant.replay': 'Volver a escuchar el mensaje',
+  'assistant.youSaid': 'Has dicho:',
+  'assistant.error': 'Error:',
+  'assistant.welcome': '¡Hola, soy Fred tu camarero digital! Estoy aquí para ayudarte, orientarte y explicarte la carta. Entonces dime, ¿qué te gustaría hoy?',
+  'assistant.fallback': 'Lo siento, tengo un pequeño problema técnico. ¿Puedes repetir tu petición?',
+
+  'chat.open': 'Escribir a Fred',
+  'chat.title': 'Conversación con Fred',
+  'chat.close': 'Cerrar la conversación',
+  'chat.placeholder': 'Escriba su mensaje...',
+  'chat.send': 'Enviar',
+  'chat.you': 'Usted',
+  'chat.earlierSummarized': 'Los mensajes anteriores se han resumido; Fred los recuerda',
+
+  'voice.processing': 'Procesando...',
+  'voice.thinking': 'Fred está pensando...',
+  'voice.bargeIn': 'Fred está hablando... habla para interrumpirle',
+  'voice.hearingYou': 'Te escucho...',
+  'voice.handsFreeListening': 'Escuchando, habla cuando quieras',
+  'voice.listening': 'Escuchando... (toca para parar)',
+  'voice.talkToMe': '¡Háblame!',
+  'voice.tapToStart': 'Toca para empezar',
+  'voice.handsFreeOn': 'Manos libres activado',
+  'voice.handsFreeOff': 'Manos libres desactivado',
+  'voice.handsFreeHint': 'Fred detecta el final de tus frases y vuelve a escuchar después de cada respuesta',
+  'voice.noSpeech': 'No he oído nada, inténtalo de nuevo.',
+  'voice.microphoneError': 'No se puede acceder al micrófono. Comprueba los permisos.',
+  'voice.transcriptionError': 'Error en la transcripción del audio',
+
+  'quick.pizzas': 'Pizzas',
+  'quick.pizzas.request': 'Quiero pizzas',
+  'quick.pasta': 'Pasta',
+  'quick.pasta.request': 'Enséñame la pasta',
+  'quick.vegetarian': 'Vegetariano',
+  'quick.vegetarian.request': 'Soy vegetariano',
+
+  'cart.title': 'Tu pedido',
+  'cart.close': 'Cerrar la cesta',
+  'cart.sent': 'Pedido enviado a cocina ✅',
+  'cart.orderNumber': 'N.º {number}',
+  'cart.empty': 'Tu cesta está vacía',
+  'cart.decrease': 'Quitar uno',
+  'cart.increase': 'Añadir uno',
+  'cart.remove': 'Eliminar',
+  'cart.notePlaceholder': 'Nota para la cocina (ej.: bien hecho)',
+  'cart.itemCount_one': '{count} artículo',
+  'cart.itemCount_other': '{count} artículos',
+  'cart.submitting': 'Enviando...',
+  'cart.submit': 'Enviar el pedido',
+  'cart.clear': 'Vaciar la cesta',
+  'cart.servedAt': 'Se sirve en: {table}',
+  'order.error': 'No se ha podido enviar el pedido. Inténtalo de nuevo.',
+  'order.unavailable': 'Ya no disponible: {items}',
+
+  'orderStatus.received': 'Recibido',
+  'orderStatus.preparing': 'En preparación',
+  'orderStatus.ready': 'Listo',
+  'orderStatus.served': 'Servido',
+  'orderStatus.paid': 'Pagado',
+  'orderStatus.cancelled': 'Cancelado',
+
+  'profile.button': 'Mis preferencias',
+  'profile.title': 'Mis preferencias',
+  'profile.close': 'Cerrar',
+  'profile.intro': 'Tus preferencias se guardan para tus próximas visitas: la carta se filtra automáticamente y Fred las tiene en cuenta en sus consejos.',
+  'profile.diet': 'Dieta',
+  'profile.allergies': 'Alergias',
+  'profile.disliked': 'Ingredientes a evitar (separados por comas)',
+  'profile.dislikedPlaceholder': 'cebolla, cilantro',
+  'profile.language': 'Idioma',
+  'profile.done': 'Listo',
+  'profile.reset': 'Borrar',
+
+  'diet.none': 'Sin dieta',
+  'diet.vegetarian': 'Vegetariano',
+  'diet.vegan': 'Vegano',
+  'diet.halal': 'Halal',
+
+  'allergen.gluten': 'gluten',
+  'allergen.crustacés': 'crustáceos',
+  'allergen.œufs': 'huevos',
+  'allergen.poisson': 'pescado',
+  'allergen.arachides': 'cacahuetes',
+  'allergen.soja': 'soja',
+  'allergen.lait': 'leche',
+  'allergen.fruits à coque': 'frutos de cáscara',
+  'allergen.céleri': 'apio',
+  'allergen.moutarde': 'mostaza',
+  'allergen.sésame': 'sésamo',
+  'allergen.sulfites': 'sulfitos',
+  'allergen.lupin': 'altramuces',
+  'allergen.mollusques': 'moluscos',
+
+  'guard.unsafeDish': 'Atención: {item} no es compatible con tus restricciones ({restrictions}).',
+  'guard.falseClaim': 'Aclaración: según nuestra carta, {item} contiene: {restrictions}.',
+};
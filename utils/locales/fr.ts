@@ -0,0 +1,148 @@
+// Textes de l'interface client en français (langue de référence : toutes les clés sont ici)
+export const fr = {
+  'app.title': 'FOODVOICE - Menu Interactif',
+  'app.description': 'Menu interactif avec assistant vocal',
+
+  'menu.loading': 'Chargement du menu...',
+  'menu.loadingShort': 'Chargement...',
+  'menu.all': 'Tout',
+  'menu.ourMenu': 'Notre Menu',
+  'menu.fredSelection': 'La sélection de Fred',
+  'menu.dishCount_one': '{count} plat disponible',
+  'menu.dishCount_other': '{count} plats disponibles',
+  'menu.activeFilters_one': '({count} filtre actif)',
+  'menu.activeFilters_other': '({count} filtres actifs)',
+  'menu.backToFullMenu': '← Revenir au menu complet',
+  'menu.noResults': 'Aucun plat ne correspond à vos critères',
+  'menu.noResultsHint': 'Essayez de modifier vos filtres ou votre catégorie',
+  'menu.showAll': 'Voir tout le menu',
+  'menu.search': 'Rechercher un plat, un ingrédient...',
+
+  'filters.label': 'Filtres:',
+  'filters.clear': 'Effacer ({count})',
+  'filter.vegetarian': 'Végétarien',
+  'filter.vegetarian.off': 'Avec viande ou poisson',
+  'filter.vegan': 'Vegan',
+  'filter.vegan.off': 'Non vegan',
+  'filter.halal': 'Halal',
+  'filter.halal.off': 'Non halal',
+  'filter.popular': 'Populaire',
+  'filter.popular.off': 'Moins demandé',
+  'filter.spicy': 'Épicé',
+  'filter.spicy.off': 'Pas épicé',
+  'filter.withCheese': 'Avec fromage',
+  'filter.withoutCheese': 'Sans fromage',
+  'filter.withIngredient': 'Avec {ingredient}',
+  'filter.withoutIngredient': 'Sans {ingredient}',
+  'filter.withoutAllergen': 'Sans {allergen}',
+  'filter.noAllergens': 'Sans allergènes',
+
+  'dish.soldOut': 'Épuisé',
+  'dish.recommended': 'Conseillé par Fred',
+  'dish.popular': 'Populaire',
+  'dish.spicy': 'Épicé',
+  'dish.vegetarian': 'Végé',
+  'dish.vegan': 'Vegan',
+  'dish.allergens': 'Allergènes:',
+  'dish.cheeseRemovable': 'Sans fromage possible',
+  'dish.order': 'Commander',
+  'modifiers.required': '(obligatoire)',
+  'modifiers.max': '({max} max)',
+
+  'assistant.name': 'Fred (Assistant)',
+  'assistant.replay': 'Réécouter le message',
+  'assistant.youSaid': 'Vous avez dit :',
+  'assistant.error': 'Erreur :',
+  'assistant.welcome': "Bonjour, je suis Fred votre serveur digital ! Je suis là pour vous aider, vous orienter et vous expliquer le menu. Alors dites-moi, qu'est-ce qui vous ferait plaisir aujourd'hui ?",
+  'assistant.fallback': "Désolé, j'ai un petit problème technique. Pouvez-vous répéter votre demande ?",
+
+  'chat.open': 'Écrire à Fred',
+  'chat.title': 'Conversation avec Fred',
+  'chat.close': 'Fermer la conversation',
+  'chat.placeholder': 'Écrivez votre message...',
+  'chat.send': 'Envoyer',
+  'chat.you': 'Vous',
+  'chat.earlierSummarized': "Les échanges précédents ont été résumés, Fred s'en souvient",
+
+  'voice.processing': 'Traitement...',
+  'voice.thinking': 'Fred réfléchit...',
+  'voice.bargeIn': "Fred parle... parlez pour l'interrompre",
+  'voice.hearingYou': 'Je vous écoute...',
+  'voice.handsFreeListening': 'En écoute, parlez quand vous voulez',
+  'voice.listening': 'En écoute... (tapez pour arrêter)',
+  'voice.talkToMe': 'Parlez-moi !',
+  'voice.tapToStart': 'Tapez pour commencer',
+  'voice.handsFreeOn': 'Mains libres activé',
+  'voice.handsFreeOff': 'Mains libres désactivé',
+  'voice.handsFreeHint': "Fred détecte la fin de vos phrases et reprend l'écoute après chaque réponse",
+  'voice.noSpeech': "Je n'ai rien entendu, réessayez.",
+  'voice.microphoneError': "Impossible d'accéder au microphone. Vérifiez les permissions.",
+  'voice.transcriptionError': 'Erreur lors de la transcription audio',
+
+  'quick.pizzas': 'Pizzas',
+  'quick.pizzas.request': 'Je veux des pizzas',
+  'quick.pasta': 'Pâtes',
+  'quick.pasta.request': 'Montrez-moi les pâtes',
+  'quick.vegetarian': 'Végé',
+  'quick.vegetarian.request': 'Je suis végétarien',
+
+  'cart.title': 'Votre commande',
+  'cart.close': 'Fermer le panier',
+  'cart.sent': 'Commande envoyée en cuisine ✅',
+  'cart.orderNumber': 'N° {number}',
+  'cart.empty': 'Votre panier est vide',
+  'cart.decrease': 'Retirer un',
+  'cart.increase': 'Ajouter un',
+  'cart.remove': 'Supprimer',
+  'cart.notePlaceholder': 'Note pour la cuisine (ex: bien cuit)',
+  'cart.itemCount_one': '{count} article',
+  'cart.itemCount_other': '{count} articles',
+  'cart.submitting': 'Envoi en cours...',
+  'cart.submit': 'Envoyer la commande',
+  'cart.clear': 'Vider le panier',
+  'cart.servedAt': 'Servie à : {table}',
+  'order.error': "Impossible d'envoyer la commande. Veuillez réessayer.",
+  'order.unavailable': 'Plus disponible : {items}',
+
+  'orderStatus.received': 'Reçue',
+  'orderStatus.preparing': 'En préparation',
+  'orderStatus.ready': 'Prête',
+  'orderStatus.served': 'Servie',
+  'orderStatus.paid': 'Payée',
+  'orderStatus.cancelled': 'Annulée',
+
+  'profile.button': 'Mes préférences',
+  'profile.title': 'Mes préférences',
+  'profile.close': 'Fermer',
+  'profile.intro': 'Vos préférences sont mémorisées pour vos prochaines visites : le menu est filtré automatiquement et Fred en tient compte dans ses conseils.',
+  'profile.diet': 'Régime',
+  'profile.allergies': 'Allergies',
+  'profile.disliked': 'Ingrédients à éviter (séparés par des virgules)',
+  'profile.dislikedPlaceholder': 'oignons, coriandre',
+  'profile.language': 'Langue',
+  'profile.done': 'Terminé',
+  'profile.reset': 'Effacer',
+
+  'diet.none': 'Aucun régime',
+  'diet.vegetarian': 'Végétarien',
+  'diet.vegan': 'Vegan',
+  'diet.halal': 'Halal',
+
+  'allergen.gluten': 'gluten',
+  'allergen.crustacés': 'crustacés',
+  'allergen.œufs': 'œufs',
+  'allergen.poisson': 'poisson',
+  'allergen.arachides': 'arachides',
+  'allergen.soja': 'soja',
+  'allergen.lait': 'lait',
+  'allergen.fruits à coque': 'fruits à coque',
+  'allergen.céleri': 'céleri',
+  'allergen.moutarde': 'moutarde',
+  'allergen.sésame': 'sésame',
+  'allergen.sulfites': 'sulfites',
+  'allergen.lupin': 'lupin',
+  'allergen.mollusques': 'mollusques',
+
+  'guard.unsafeDish': "Attention : {item} n'est pas compatible avec vos restrictions ({restrictions}).",
+  'guard.falseClaim': "Précision : d'après notre carte, {item} contient : {restrictions}.",
+};
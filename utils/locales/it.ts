@@ -0,0 +1,149 @@
+import type { Messages } from '../i18n';
+
+export const it: Messages = {
+  'app.title': 'FOODVOICE - Menu Interattivo',
+  'app.description': 'Menu interattivo con assistente vocale',
+
+  'menu.loading': 'Caricamento del menu...',
+  'menu.loadingShort': 'Caricamento...',
+  'menu.all': 'Tutto',
+  'menu.ourMenu': 'Il nostro Menu',
+  'menu.fredSelection': 'La selezione di Fred',
+  'menu.dishCount_one': '{count} piatto disponibile',
+  'menu.dishCount_other': '{count} piatti disponibili',
+  'menu.activeFilters_one': '({count} filtro attivo)',
+  'menu.activeFilters_other': '({count} filtri attivi)',
+  'menu.backToFullMenu': '← Torna al menu completo',
+  'menu.noResults': 'Nessun piatto corrisponde ai vostri criteri',
+  'menu.noResultsHint': 'Provate a modificare i filtri o la categoria',
+  'menu.showAll': 'Vedi tutto il menu',
+  'menu.search': 'Cerca un piatto, un ingrediente...',
+
+  'filters.label': 'Filtri:',
+  'filters.clear': 'Cancella ({count})',
+  'filter.vegetarian': 'Vegetariano',
+  'filter.vegetarian.off': 'Con carne o pesce',
+  'filter.vegan': 'Vegano',
+  'filter.vegan.off': 'Non vegano',
+  'filter.halal': 'Halal',
+  'filter.halal.off': 'Non halal',
+  'filter.popular': 'Popolare',
+  'filter.popular.off': 'Meno richiesto',
+  'filter.spicy': 'Piccante',
+  'filter.spicy.off': 'Non piccante',
+  'filter.withCheese': 'Con formaggio',
+  'filter.withoutCheese': 'Senza formaggio',
+  'filter.withIngredient': 'Con {ingredient}',
+  'filter.withoutIngredient': 'Senza {ingredient}',
+  'filter.withoutAllergen': 'Senza {allergen}',
+  'filter.noAllergens': 'Senza allergeni',
+
+  'dish.soldOut': 'Esaurito',
+  'dish.recommended': 'Consigliato da Fred',
+  'dish.popular': 'Popolare',
+  'dish.spicy': 'Piccante',
+  'dish.vegetarian': 'Vegetariano',
+  'dish.vegan': 'Vegano',
+  'dish.allergens': 'Allergeni:',
+  'dish.cheeseRemovable': 'Possibile senza formaggio',
+  'dish.order': 'Ordina',
+  'modifiers.required': '(obbligatorio)',
+  'modifiers.max': '({max} max)',
+
+  'assistant.name': 'Fred (Assistente)',
+  'assistant.replay': 'Riascolta il messaggio',
+  'assistant.youSaid': 'Avete detto:',
+  'assistant.error': 'Errore:',
+  'assistant.welcome': 'Ciao, sono Fred il vostro cameriere digitale! Sono qui per aiutarvi, guidarvi e spiegarvi il menu. Allora ditemi, cosa vi farebbe piacere oggi?',
+  'assistant.fallback': 'Mi dispiace, ho un piccolo problema tecnico. Potete ripetere la richiesta?',
+
+  'chat.open': 'Scrivi a Fred',
+  'chat.title': 'Conversazione con Fred',
+  'chat.close': 'Chiudi la conversazione',
+  'chat.placeholder': 'Scriva il suo messaggio...',
+  'chat.send': 'Invia',
+  'chat.you': 'Lei',
+  'chat.earlierSummarized': 'I messaggi precedenti sono stati riassunti; Fred li ricorda',
+
+  'voice.processing': 'Elaborazione...',
+  'voice.thinking': 'Fred sta pensando...',
+  'voice.bargeIn': 'Fred sta parlando... parlate per interromperlo',
+  'voice.hearingYou': 'Vi ascolto...',
+  'voice.handsFreeListening': 'In ascolto, parlate quando volete',
+  'voice.listening': 'In ascolto... (toccate per fermare)',
+  'voice.talkToMe': 'Parlatemi!',
+  'voice.tapToStart': 'Toccate per iniziare',
+  'voice.handsFreeOn': 'Vivavoce attivo',
+  'voice.handsFreeOff': 'Vivavoce disattivato',
+  'voice.handsFreeHint': "Fred rileva la fine delle vostre frasi e riprende l'ascolto dopo ogni risposta",
+  'voice.noSpeech': 'Non ho sentito nulla, riprovate.',
+  'voice.microphoneError': 'Impossibile accedere al microfono. Controllate i permessi.',
+  'voice.transcriptionError': "Errore durante la trascrizione dell'audio",
+
+  'quick.pizzas': 'Pizze',
+  'quick.pizzas.request': 'Voglio delle pizze',
+  'quick.pasta': 'Pasta',
+  'quick.pasta.request': 'Mostratemi la pasta',
+  'quick.vegetarian': 'Vegetariano',
+  'quick.vegetarian.request': 'Sono vegetariano',
+
+  'cart.title': 'Il vostro ordine',
+  'cart.close': 'Chiudi il carrello',
+  'cart.sent': 'Ordine inviato in cucina ✅',
+  'cart.orderNumber': 'N. {number}',
+  'cart.empty': 'Il carrello è vuoto',
+  'cart.decrease': 'Togli uno',
+  'cart.increase': 'Aggiungi uno',
+  'cart.remove': 'Elimina',
+  'cart.notePlaceholder': 'Nota per la cucina (es.: ben cotto)',
+  'cart.itemCount_one': '{count} articolo',
+  'cart.itemCount_other': '{count} articoli',
+  'cart.submitting': 'Invio in corso...',
+  'cart.submit': "Invia l'ordine",
+  'cart.clear': 'Svuota il carrello',
+  'cart.servedAt': 'Servito a: {table}',
+  'order.error': "Impossibile inviare l'ordine. Riprovate.",
+  'order.unavailable': 'Non più disponibile: {items}',
+
+  'orderStatus.received': 'Ricevuto',
+  'orderStatus.preparing': 'In preparazione',
+  'orderStatus.ready': 'Pronto',
+  'orderStatus.served': 'Servito',
+  'orderStatus.paid': 'Pagato',
+  'orderStatus.cancelled': 'Annullato',
+
+  'profile.button': 'Le mie preferenze',
+  'profile.title': 'Le mie preferenze',
+  'profile.close': 'Chiudi',
+  'profile.intro': 'Le vostre preferenze vengono ricordate per le prossime visite: il menu viene filtrato automaticamente e Fred ne tiene conto nei suoi consigli.',
+  'profile.diet': 'Regime',
+  'profile.allergies': 'Allergie',
+  'profile.disliked': 'Ingredienti da evitare (separati da virgole)',
+  'profile.dislikedPlaceholder': 'cipolle, coriandolo',
+  'profile.language': 'Lingua',
+  'profile.done': 'Fatto',
+  'profile.reset': 'Cancella',
+
+  'diet.none': 'Nessun regime',
+  'diet.vegetarian': 'Vegetariano',
+  'diet.vegan': 'Vegano',
+  'diet.halal': 'Halal',
+
+  'allergen.gluten': 'glutine',
+  'allergen.crustacés': 'crostacei',
+  'allergen.œufs': 'uova',
+  'allergen.poisson': 'pesce',
+  'allergen.arachides': 'arachidi',
+  'allergen.soja': 'soia',
+  'allergen.lait': 'latte',
+  'allergen.fruits à coque': 'frutta a guscio',
+  'allergen.céleri': 'sedano',
+  'allergen.moutarde': 'senape',
+  'allergen.sésame': 'sesamo',
+  'allergen.sulfites': 'solfiti',
+  'allergen.lupin': 'lupini',
+  'allergen.mollusques': 'molluschi',
+
+  'guard.unsafeDish': 'Attenzione: {item} non è compatibile con le vostre restrizioni ({restrictions}).',
+  'guard.falseClaim': 'Precisazione: secondo il nostro menu, {item} contiene: {restrictions}.',
+};
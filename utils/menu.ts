@@ -0,0 +1,443 @@
+// Schéma du menu et utilitaires partagés client / serveur
+
+// Textes traduits par code langue (ex: { en: { name: "Caesar Salad" } }) ;
+// un champ absent garde le texte français
+export type Translations<Fields> = {
+  [language: string]: Partial<Fields>;
+};
+
+export interface MenuItem {
+  id: number;
+  name: string;
+  price: number;
+  image: string;
+  description: string;
+  ingredients: string[];
+  allergens: string[];
+  tags: string[];
+  vegetarian: boolean;
+  vegan: boolean;
+  halal: boolean;
+  popular: boolean;
+  spicy: boolean;
+  preparationTime: string;
+  cheeseRemovable?: boolean;
+  // Options du plat (taille, suppléments, retraits, cuisson)
+  modifierGroups?: ModifierGroup[];
+  translations?: Translations<{ name: string; description: string }>;
+}
+
+// Nature d'un groupe d'options, utilisée pour l'affichage
+export type ModifierGroupKind = 'size' | 'extra' | 'removal' | 'cooking';
+
+export interface ModifierOption {
+  // Identifiant unique dans le plat (ex: "grande", "sans-basilic")
+  id: string;
+  label: string;
+  // Écart de prix par rapport au prix de base du plat
+  priceDelta?: number;
+  // Option retenue quand le client ne choisit rien dans le groupe
+  isDefault?: boolean;
+  translations?: Translations<{ label: string }>;
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string;
+  kind: ModifierGroupKind;
+  // Nombre d'options à choisir : min 1 = choix obligatoire, max 1 = choix unique
+  min: number;
+  max: number;
+  options: ModifierOption[];
+  translations?: Translations<{ name: string }>;
+}
+
+export const MODIFIER_GROUP_KINDS: ModifierGroupKind[] = ['size', 'extra', 'removal', 'cooking'];
+
+export interface MenuCategory {
+  name: string;
+  icon: string;
+  description: string;
+  translations?: Translations<{ name: string; description: string }>;
+}
+
+export interface MenuData {
+  restaurant: {
+    name: string;
+    description: string;
+    currency: string;
+    translations?: Translations<{ description: string }>;
+  };
+  categories: {
+    [key: string]: MenuCategory;
+  };
+  menu: {
+    [key: string]: MenuItem[];
+  };
+}
+
+// Les 14 allergènes à déclaration obligatoire (règlement UE n° 1169/2011)
+export const EU_ALLERGENS = [
+  'gluten',
+  'crustacés',
+  'œufs',
+  'poisson',
+  'arachides',
+  'soja',
+  'lait',
+  'fruits à coque',
+  'céleri',
+  'moutarde',
+  'sésame',
+  'sulfites',
+  'lupin',
+  'mollusques',
+];
+
+// Champs d'un plat modifiables depuis le back-office
+export const EDITABLE_ITEM_FIELDS: Array<Exclude<keyof MenuItem, 'id'>> = [
+  'name',
+  'price',
+  'image',
+  'description',
+  'ingredients',
+  'allergens',
+  'tags',
+  'vegetarian',
+  'vegan',
+  'halal',
+  'popular',
+  'spicy',
+  'preparationTime',
+  'cheeseRemovable',
+  'modifierGroups',
+  'translations',
+];
+
+// Renseigner un champ d'un plat en gardant le type de sa clé
+const setItemField = <K extends keyof MenuItem>(fields: Partial<MenuItem>, field: K, value: MenuItem[K]) => {
+  fields[field] = value;
+};
+
+// Ne garder que les champs modifiables d'une requête du back-office
+export const pickEditableItemFields = (body: Record<string, any>): Partial<MenuItem> => {
+  const fields: Partial<MenuItem> = {};
+  EDITABLE_ITEM_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      setItemField(fields, field, body[field]);
+    }
+  });
+  return fields;
+};
+
+// Clé de catégorie : minuscules, chiffres, tirets (ex: "pizzas", "plats-du-jour")
+export const CATEGORY_KEY_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+// Catégorie existante : clé au bon format et propre au menu, jamais héritée d'Object.prototype
+// ("constructor", "__proto__")
+export const isMenuCategory = (menuData: MenuData, key: unknown): key is string =>
+  typeof key === 'string'
+  && CATEGORY_KEY_PATTERN.test(key)
+  && Object.prototype.hasOwnProperty.call(menuData.categories, key);
+
+// Plats d'une catégorie (aucun tant qu'elle n'en a pas reçu)
+export const getCategoryItems = (menuData: MenuData, key: string): MenuItem[] =>
+  Object.prototype.hasOwnProperty.call(menuData.menu, key) ? menuData.menu[key] : [];
+
+export interface MenuValidationError {
+  path: string;
+  message: string;
+}
+
+// Convertir un temps de préparation ("12 min", "1 h 30") en minutes
+export const parsePreparationMinutes = (preparationTime: string): number | null => {
+  const match = /^\s*(?:(\d+)\s*h)?\s*(?:(\d+)\s*(?:min)?)?\s*$/i.exec(preparationTime || '');
+  if (!match || (!match[1] && !match[2])) return null;
+  return Number(match[1] || 0) * 60 + Number(match[2] || 0);
+};
+
+// Tous les plats du menu, toutes catégories confondues
+export const getAllItems = (menuData: MenuData): MenuItem[] =>
+  Object.values(menuData.menu).flat();
+
+// Retrouver un plat par son identifiant dans toutes les catégories
+export const findMenuItem = (menuData: MenuData, itemId: number) =>
+  getAllItems(menuData).find(item => item.id === itemId);
+
+// Textes d'un élément dans une langue : traduction si elle existe, sinon texte français.
+// Le résultat ne garde pas ses traductions (déjà appliquées).
+const localize = <T extends { translations?: Translations<any> }>(entry: T, language: string): T => {
+  const { translations, ...rest } = entry;
+  // Une traduction vide ne remplace pas le texte français
+  const texts = Object.fromEntries(
+    Object.entries(translations?.[language] || {})
+      .filter(([, text]) => typeof text === 'string' && text.trim())
+  );
+  return { ...rest, ...texts } as T;
+};
+
+// Plat dans la langue du client, options comprises (identifiants et prix inchangés)
+export const localizeMenuItem = (item: MenuItem, language: string): MenuItem => {
+  const localized = localize(item, language);
+  if (item.modifierGroups) {
+    localized.modifierGroups = item.modifierGroups.map(group => ({
+      ...localize(group, language),
+      options: group.options.map(option => localize(option, language)),
+    }));
+  }
+  return localized;
+};
+
+// Menu complet dans la langue du client (affichage et prompt de Fred)
+export const localizeMenu = (menuData: MenuData, language: string): MenuData => ({
+  restaurant: localize(menuData.restaurant, language),
+  categories: Object.fromEntries(
+    Object.entries(menuData.categories).map(([key, category]) => [key, localize(category, language)])
+  ),
+  menu: Object.fromEntries(
+    Object.entries(menuData.menu).map(([key, items]) => [key, items.map(item => localizeMenuItem(item, language))])
+  ),
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+// Valider des traductions : codes langue à deux lettres, textes non vides pour les champs prévus
+const validateTranslations = (
+  translations: unknown,
+  fields: string[],
+  field: string,
+  fail: (field: string, message: string) => void
+) => {
+  if (!isObject(translations)) {
+    fail(field, 'objet { langue: { champ: texte } } attendu');
+    return;
+  }
+  Object.entries(translations).forEach(([language, texts]) => {
+    if (!/^[a-z]{2}$/.test(language)) {
+      fail(`${field}.${language}`, 'code langue à deux lettres attendu (ex: "en")');
+      return;
+    }
+    if (!isObject(texts)) {
+      fail(`${field}.${language}`, 'objet de textes attendu');
+      return;
+    }
+    Object.entries(texts).forEach(([name, text]) => {
+      if (!fields.includes(name)) {
+        fail(`${field}.${language}.${name}`, `champ non traduisible (${fields.join(', ')})`);
+      } else if (typeof text !== 'string' || !text.trim()) {
+        fail(`${field}.${language}.${name}`, 'texte requis');
+      }
+    });
+  });
+};
+
+// Identifiant d'option ou de groupe : minuscules, chiffres, tirets (ex: "sans-basilic")
+export const MODIFIER_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// Valider les groupes d'options d'un plat
+const validateModifierGroups = (groups: unknown, fail: (field: string, message: string) => void) => {
+  if (!Array.isArray(groups)) {
+    fail('modifierGroups', 'liste de groupes d\'options attendue');
+    return;
+  }
+
+  const groupIds = new Set<string>();
+  const optionIds = new Set<string>();
+
+  groups.forEach((group, groupIndex) => {
+    const field = `modifierGroups[${groupIndex}]`;
+    if (!isObject(group)) {
+      fail(field, 'le groupe doit être un objet');
+      return;
+    }
+
+    if (typeof group.id !== 'string' || !MODIFIER_ID_PATTERN.test(group.id)) {
+      fail(`${field}.id`, 'identifiant invalide (minuscules, chiffres et tirets)');
+    } else if (groupIds.has(group.id)) {
+      fail(`${field}.id`, `groupe "${group.id}" en double`);
+    } else {
+      groupIds.add(group.id);
+    }
+    if (typeof group.name !== 'string' || !group.name.trim()) fail(`${field}.name`, 'nom requis');
+    if (!MODIFIER_GROUP_KINDS.includes(group.kind)) fail(`${field}.kind`, `type inconnu "${group.kind}"`);
+    if (group.translations !== undefined) validateTranslations(group.translations, ['name'], `${field}.translations`, fail);
+
+    if (!Array.isArray(group.options) || group.options.length === 0) {
+      fail(`${field}.options`, 'au moins une option requise');
+      return;
+    }
+
+    if (!Number.isInteger(group.min) || group.min < 0) fail(`${field}.min`, 'entier positif requis');
+    if (!Number.isInteger(group.max) || group.max < 1) fail(`${field}.max`, 'entier supérieur ou égal à 1 requis');
+    if (Number.isInteger(group.min) && Number.isInteger(group.max)) {
+      if (group.min > group.max) fail(`${field}.min`, `min (${group.min}) supérieur à max (${group.max})`);
+      if (group.min > group.options.length) fail(`${field}.min`, `min (${group.min}) supérieur au nombre d'options`);
+    }
+
+    let defaultCount = 0;
+    group.options.forEach((option: unknown, optionIndex: number) => {
+      const optionField = `${field}.options[${optionIndex}]`;
+      if (!isObject(option)) {
+        fail(optionField, 'l\'option doit être un objet');
+        return;
+      }
+      if (typeof option.id !== 'string' || !MODIFIER_ID_PATTERN.test(option.id)) {
+        fail(`${optionField}.id`, 'identifiant invalide (minuscules, chiffres et tirets)');
+      } else if (optionIds.has(option.id)) {
+        fail(`${optionField}.id`, `option "${option.id}" déjà utilisée dans ce plat`);
+      } else {
+        optionIds.add(option.id);
+      }
+      if (typeof option.label !== 'string' || !option.label.trim()) fail(`${optionField}.label`, 'libellé requis');
+      if (option.priceDelta !== undefined && (typeof option.priceDelta !== 'number' || !Number.isFinite(option.priceDelta))) {
+        fail(`${optionField}.priceDelta`, 'écart de prix numérique attendu');
+      }
+      if (option.isDefault !== undefined && typeof option.isDefault !== 'boolean') {
+        fail(`${optionField}.isDefault`, 'booléen attendu');
+      }
+      if (option.translations !== undefined) {
+        validateTranslations(option.translations, ['label'], `${optionField}.translations`, fail);
+      }
+      if (option.isDefault === true) defaultCount += 1;
+    });
+
+    if (Number.isInteger(group.max) && defaultCount > group.max) {
+      fail(`${field}.options`, `${defaultCount} options par défaut pour un maximum de ${group.max}`);
+    }
+  });
+};
+
+// Valider un plat ; les erreurs sont ajoutées à la liste fournie
+const validateMenuItem = (item: unknown, path: string, errors: MenuValidationError[]) => {
+  const fail = (field: string, message: string) =>
+    errors.push({ path: field ? `${path}.${field}` : path, message });
+
+  if (!isObject(item)) {
+    fail('', 'le plat doit être un objet');
+    return;
+  }
+
+  if (!Number.isInteger(item.id)) fail('id', 'identifiant entier requis');
+  if (typeof item.name !== 'string' || !item.name.trim()) fail('name', 'nom requis');
+  if (typeof item.price !== 'number' || !Number.isFinite(item.price)) {
+    fail('price', 'prix numérique requis');
+  } else if (item.price < 0) {
+    fail('price', `prix négatif (${item.price})`);
+  }
+
+  ['image', 'description'].forEach(field => {
+    if (typeof item[field] !== 'string') fail(field, 'texte requis');
+  });
+  ['ingredients', 'allergens', 'tags'].forEach(field => {
+    if (!isStringArray(item[field])) fail(field, 'liste de textes requise');
+  });
+  ['vegetarian', 'vegan', 'halal', 'popular', 'spicy'].forEach(field => {
+    if (typeof item[field] !== 'boolean') fail(field, 'booléen requis');
+  });
+  if (item.cheeseRemovable !== undefined && typeof item.cheeseRemovable !== 'boolean') {
+    fail('cheeseRemovable', 'booléen attendu');
+  }
+  if (item.modifierGroups !== undefined) {
+    validateModifierGroups(item.modifierGroups, fail);
+  }
+  if (item.translations !== undefined) {
+    validateTranslations(item.translations, ['name', 'description'], 'translations', fail);
+  }
+
+  if (isStringArray(item.allergens)) {
+    item.allergens
+      .filter(allergen => !EU_ALLERGENS.includes(allergen))
+      .forEach(allergen => fail('allergens', `allergène inconnu "${allergen}" (hors des 14 allergènes UE)`));
+  }
+
+  if (typeof item.preparationTime !== 'string' || parsePreparationMinutes(item.preparationTime) === null) {
+    fail('preparationTime', `temps de préparation illisible "${item.preparationTime}" (ex: "12 min")`);
+  }
+
+  if (item.vegan === true && item.vegetarian !== true) {
+    fail('vegetarian', 'un plat vegan doit aussi être végétarien');
+  }
+};
+
+// Valider un menu complet ; retourne la liste des erreurs (vide si valide)
+export const validateMenu = (data: unknown): MenuValidationError[] => {
+  const errors: MenuValidationError[] = [];
+
+  if (!isObject(data)) {
+    return [{ path: '', message: 'le menu doit être un objet JSON' }];
+  }
+
+  if (!isObject(data.restaurant)) {
+    errors.push({ path: 'restaurant', message: 'informations du restaurant requises' });
+  } else {
+    ['name', 'description', 'currency'].forEach(field => {
+      if (typeof data.restaurant[field] !== 'string') {
+        errors.push({ path: `restaurant.${field}`, message: 'texte requis' });
+      }
+    });
+    if (data.restaurant.translations !== undefined) {
+      validateTranslations(data.restaurant.translations, ['description'], 'restaurant.translations',
+        (path, message) => errors.push({ path, message }));
+    }
+  }
+
+  if (!isObject(data.categories)) {
+    errors.push({ path: 'categories', message: 'catégories requises' });
+  } else {
+    Object.entries(data.categories).forEach(([key, category]) => {
+      if (!CATEGORY_KEY_PATTERN.test(key)) {
+        errors.push({ path: `categories.${key}`, message: 'clé invalide (minuscules, chiffres et tirets)' });
+      }
+      if (!isObject(category) || typeof category.name !== 'string') {
+        errors.push({ path: `categories.${key}`, message: 'catégorie invalide (nom requis)' });
+      } else if (category.translations !== undefined) {
+        validateTranslations(category.translations, ['name', 'description'], `categories.${key}.translations`,
+          (path, message) => errors.push({ path, message }));
+      }
+    });
+  }
+
+  if (!isObject(data.menu)) {
+    errors.push({ path: 'menu', message: 'liste des plats requise' });
+    return errors;
+  }
+
+  const seenIds = new Map<number, string>();
+
+  Object.entries(data.menu).forEach(([categoryKey, items]) => {
+    const categoryPath = `menu.${categoryKey}`;
+
+    if (isObject(data.categories) && !Object.prototype.hasOwnProperty.call(data.categories, categoryKey)) {
+      errors.push({ path: categoryPath, message: `catégorie inconnue "${categoryKey}"` });
+    }
+
+    if (!Array.isArray(items)) {
+      errors.push({ path: categoryPath, message: 'la catégorie doit contenir une liste de plats' });
+      return;
+    }
+
+    items.forEach((item, index) => {
+      const itemPath = `${categoryPath}[${index}]`;
+      validateMenuItem(item, itemPath, errors);
+
+      if (isObject(item) && Number.isInteger(item.id)) {
+        const firstPath = seenIds.get(item.id);
+        if (firstPath) {
+          errors.push({ path: `${itemPath}.id`, message: `identifiant ${item.id} déjà utilisé par ${firstPath}` });
+        } else {
+          seenIds.set(item.id, itemPath);
+        }
+      }
+    });
+  });
+
+  return errors;
+};
+
+// Formater les erreurs de validation pour les logs et la ligne de commande
+export const formatMenuErrors = (errors: MenuValidationError[]) =>
+  errors.map(error => `  - ${error.path || '(racine)'} : ${error.message}`).join('\n');
@@ -0,0 +1,214 @@
+import { MenuItem, EU_ALLERGENS, parsePreparationMinutes } from './menu';
+import { DEFAULT_LOCALE, translate, translateAllergen } from './i18n';
+
+// Moteur de filtres sur les plats, partagé par les puces de filtre et les actions de Fred.
+// Les filtres actifs se combinent (ET logique).
+
+export type MenuFlag = 'vegetarian' | 'vegan' | 'halal' | 'popular' | 'spicy';
+
+export type MenuFilter =
+  // Attribut booléen du plat (ex: épicé / pas épicé)
+  | { kind: 'flag'; flag: MenuFlag; value: boolean }
+  // Avec ou sans fromage (un plat dont le fromage peut être retiré passe "sans fromage")
+  | { kind: 'cheese'; value: boolean }
+  // Ingrédient présent (include) ou absent (exclude), comparaison tolérante
+  | { kind: 'ingredient'; ingredient: string; mode: 'include' | 'exclude' }
+  // Exclure un allergène
+  | { kind: 'allergen'; allergen: string }
+  // Aucun allergène déclaré
+  | { kind: 'noAllergens' }
+  | { kind: 'maxPrice'; amount: number }
+  | { kind: 'maxPreparationMinutes'; minutes: number }
+  | { kind: 'tag'; tag: string };
+
+export type MenuFilterKind = MenuFilter['kind'];
+
+export const MENU_FILTER_KINDS: MenuFilterKind[] = [
+  'flag',
+  'cheese',
+  'ingredient',
+  'allergen',
+  'noAllergens',
+  'maxPrice',
+  'maxPreparationMinutes',
+  'tag',
+];
+
+export const MENU_FLAGS: MenuFlag[] = ['vegetarian', 'vegan', 'halal', 'popular', 'spicy'];
+
+export const isMenuFlag = (value: unknown): value is MenuFlag =>
+  MENU_FLAGS.some(flag => flag === value);
+
+// Comparaison tolérante : "Oignons" ≈ "oignon", "Pâtes" ≈ "pates"
+export const normalizeText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+const singular = (value: string) => normalizeText(value).replace(/s$/, '');
+
+const ingredientMatches = (ingredient: string, wanted: string) =>
+  singular(ingredient).includes(singular(wanted));
+
+// Le plat passe-t-il ce filtre ?
+export const matchesFilter = (item: MenuItem, filter: MenuFilter): boolean => {
+  switch (filter.kind) {
+    case 'flag':
+      return item[filter.flag] === filter.value;
+    case 'cheese':
+      return filter.value
+        ? item.allergens.includes('lait')
+        : !item.allergens.includes('lait') || item.cheeseRemovable === true;
+    case 'ingredient': {
+      const contains = item.ingredients.some(ingredient => ingredientMatches(ingredient, filter.ingredient));
+      return filter.mode === 'include' ? contains : !contains;
+    }
+    case 'allergen':
+      return !item.allergens.includes(filter.allergen);
+    case 'noAllergens':
+      return item.allergens.length === 0;
+    case 'maxPrice':
+      return item.price <= filter.amount;
+    case 'maxPreparationMinutes': {
+      const minutes = parsePreparationMinutes(item.preparationTime);
+      return minutes !== null && minutes <= filter.minutes;
+    }
+    case 'tag':
+      return item.tags.some(tag => normalizeText(tag) === normalizeText(filter.tag));
+    default:
+      return true;
+  }
+};
+
+export const applyMenuFilters = (items: MenuItem[], filters: MenuFilter[]) =>
+  items.filter(item => filters.every(filter => matchesFilter(item, filter)));
+
+// Recherche libre : chaque mot doit apparaître dans le nom, la description, les ingrédients ou les tags
+export const searchMenuItems = (items: MenuItem[], query: string) => {
+  const words = normalizeText(query).split(/\s+/).filter(Boolean).map(singular);
+  if (words.length === 0) return items;
+  return items.filter(item => {
+    const text = normalizeText([item.name, item.description, ...item.ingredients, ...item.tags].join(' '));
+    return words.every(word => text.includes(word));
+  });
+};
+
+// Identité d'un filtre : deux filtres de même clé se remplacent (ex: un seul prix maximum)
+export const filterKey = (filter: MenuFilter): string => {
+  switch (filter.kind) {
+    case 'flag':
+      return `flag:${filter.flag}`;
+    case 'ingredient':
+      return `ingredient:${singular(filter.ingredient)}`;
+    case 'allergen':
+      return `allergen:${filter.allergen}`;
+    case 'tag':
+      return `tag:${normalizeText(filter.tag)}`;
+    default:
+      return filter.kind;
+  }
+};
+
+// Ajouter des filtres à une liste existante, en remplaçant ceux de même clé
+export const mergeMenuFilters = (current: MenuFilter[], added: MenuFilter[]) => {
+  const addedKeys = added.map(filterKey);
+  return [...current.filter(filter => !addedKeys.includes(filterKey(filter))), ...added];
+};
+
+// Libellé court d'un filtre pour les puces, dans la langue du client
+export const describeFilter = (filter: MenuFilter, currency = '€', locale: string = DEFAULT_LOCALE): string => {
+  switch (filter.kind) {
+    case 'flag':
+      return translate(locale, filter.value ? `filter.${filter.flag}` : `filter.${filter.flag}.off`);
+    case 'cheese':
+      return translate(locale, filter.value ? 'filter.withCheese' : 'filter.withoutCheese');
+    case 'ingredient':
+      return translate(locale, filter.mode === 'include' ? 'filter.withIngredient' : 'filter.withoutIngredient', {
+        ingredient: filter.ingredient,
+      });
+    case 'allergen':
+      return translate(locale, 'filter.withoutAllergen', { allergen: translateAllergen(locale, filter.allergen) });
+    case 'noAllergens':
+      return translate(locale, 'filter.noAllergens');
+    case 'maxPrice':
+      return `≤ ${filter.amount} ${currency}`;
+    case 'maxPreparationMinutes':
+      return `≤ ${filter.minutes} min`;
+    case 'tag':
+      return `#${filter.tag}`;
+  }
+};
+
+// Filtres proposés en puces sous la navigation
+export const PRESET_FILTERS: Array<{ filter: MenuFilter; icon: string }> = [
+  { filter: { kind: 'flag', flag: 'vegetarian', value: true }, icon: '🥗' },
+  { filter: { kind: 'flag', flag: 'vegan', value: true }, icon: '🌱' },
+  { filter: { kind: 'flag', flag: 'halal', value: true }, icon: '☪️' },
+  { filter: { kind: 'flag', flag: 'popular', value: true }, icon: '⭐' },
+  { filter: { kind: 'cheese', value: false }, icon: '🚫🧀' },
+  { filter: { kind: 'noAllergens' }, icon: '✅' },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Valider un filtre reçu de l'extérieur (actions de Fred) ; retourne les erreurs
+export const validateMenuFilter = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ['le filtre doit être un objet'];
+  }
+
+  switch (value.kind) {
+    case 'flag':
+      return [
+        ...(isMenuFlag(value.flag) ? [] : [`attribut inconnu "${value.flag}"`]),
+        ...(typeof value.value === 'boolean' ? [] : ['valeur booléenne requise']),
+      ];
+    case 'cheese':
+      return typeof value.value === 'boolean' ? [] : ['valeur booléenne requise'];
+    case 'ingredient':
+      return [
+        ...(isNonEmptyString(value.ingredient) ? [] : ['ingrédient requis']),
+        ...(value.mode === 'include' || value.mode === 'exclude' ? [] : ['mode "include" ou "exclude" requis']),
+      ];
+    case 'allergen':
+      return typeof value.allergen === 'string' && EU_ALLERGENS.includes(value.allergen) ? [] : [`allergène inconnu "${value.allergen}"`];
+    case 'noAllergens':
+      return [];
+    case 'maxPrice':
+      return isNonNegativeNumber(value.amount) ? [] : ['montant positif requis'];
+    case 'maxPreparationMinutes':
+      return isNonNegativeNumber(value.minutes) ? [] : ['durée en minutes requise'];
+    case 'tag':
+      return isNonEmptyString(value.tag) ? [] : ['tag requis'];
+    default:
+      return [`type de filtre inconnu "${value.kind}"`];
+  }
+};
+
+// Ne garder que les champs utiles au type de filtre (après validation)
+export const normalizeMenuFilter = (value: MenuFilter): MenuFilter => {
+  switch (value.kind) {
+    case 'flag':
+      return { kind: 'flag', flag: value.flag, value: value.value };
+    case 'cheese':
+      return { kind: 'cheese', value: value.value };
+    case 'ingredient':
+      return { kind: 'ingredient', ingredient: value.ingredient.trim(), mode: value.mode };
+    case 'allergen':
+      return { kind: 'allergen', allergen: value.allergen };
+    case 'maxPrice':
+      return { kind: 'maxPrice', amount: value.amount };
+    case 'maxPreparationMinutes':
+      return { kind: 'maxPreparationMinutes', minutes: value.minutes };
+    case 'tag':
+      return { kind: 'tag', tag: value.tag.trim() };
+    case 'noAllergens':
+    default:
+      return { kind: 'noAllergens' };
+  }
+};
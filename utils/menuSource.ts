@@ -0,0 +1,226 @@
+import fs from 'fs';
+import path from 'path';
+import { NextApiResponse } from 'next';
+import { MenuData, validateMenu, formatMenuErrors } from './menu';
+
+// Chemin du menu côté serveur (surchargeable par MENU_PATH)
+export const getMenuPath = () =>
+  process.env.MENU_PATH || path.join(process.cwd(), 'public', 'data', 'menu.json');
+
+interface MenuCache {
+  path: string;
+  mtimeMs: number;
+  data: MenuData;
+}
+
+// Cache partagé entre les routes API (chaque route a son propre bundle)
+const globalForMenu = globalThis as unknown as { foodvoiceMenuCache?: MenuCache };
+
+// Lire le menu depuis le disque (usage serveur uniquement).
+// Le menu est validé, mis en cache et rechargé dès que le fichier est modifié.
+export const loadMenu = async (): Promise<MenuData> => {
+  const menuPath = getMenuPath();
+  const { mtimeMs } = await fs.promises.stat(menuPath);
+  const cached = globalForMenu.foodvoiceMenuCache;
+
+  if (cached && cached.path === menuPath && cached.mtimeMs === mtimeMs) {
+    return cached.data;
+  }
+
+  const raw = await fs.promises.readFile(menuPath, 'utf-8');
+  const data = JSON.parse(raw);
+
+  const errors = validateMenu(data);
+  if (errors.length > 0) {
+    console.error(`Menu invalide (${menuPath}):\n${formatMenuErrors(errors)}`);
+    throw new Error(`Menu invalide: ${errors.length} erreur(s)`);
+  }
+
+  if (cached) {
+    console.log('Menu rechargé:', menuPath);
+  }
+  globalForMenu.foodvoiceMenuCache = { path: menuPath, mtimeMs, data };
+
+  return data;
+};
+
+// ----------------------------------------
+// Édition du menu (back-office) et versions
+// ----------------------------------------
+
+export interface MenuVersionSummary {
+  id: string;
+  createdAt: string;
+  summary: string;
+}
+
+export interface MenuVersion extends MenuVersionSummary {
+  menu: MenuData;
+}
+
+export interface MenuEditFailure {
+  status: number;
+  error: string;
+  details?: string;
+}
+
+// Une modification agit sur une copie du menu ; retourner un échec l'annule
+export type MenuEdit = (menu: MenuData) => MenuEditFailure | void;
+
+// Dossier des versions du menu (surchargeable par MENU_VERSIONS_DIR)
+const getVersionsDir = () =>
+  process.env.MENU_VERSIONS_DIR || path.join(process.cwd(), 'data', 'menu-versions');
+
+// Sérialiser les écritures du menu entre toutes les routes
+const globalForMenuWrites = globalThis as unknown as { foodvoiceMenuQueue?: Promise<unknown> };
+
+const withMenuLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const queue = globalForMenuWrites.foodvoiceMenuQueue || Promise.resolve();
+  const run = queue.then(task, task);
+  globalForMenuWrites.foodvoiceMenuQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Identifiant des versions : horodatage en millisecondes rendu strictement croissant, pour que deux
+// versions écrites dans la même milliseconde (version initiale puis modification) ne se remplacent pas
+const globalForMenuVersions = globalThis as unknown as { foodvoiceLastMenuVersionId?: number };
+
+const nextVersionId = () => {
+  const id = Math.max(Date.now(), (globalForMenuVersions.foodvoiceLastMenuVersionId || 0) + 1);
+  globalForMenuVersions.foodvoiceLastMenuVersionId = id;
+  return `${id}`;
+};
+
+const writeVersion = async (menu: MenuData, summary: string): Promise<MenuVersion> => {
+  await fs.promises.mkdir(getVersionsDir(), { recursive: true });
+
+  // Une version existante n'est jamais écrasée ("wx") : identifiant suivant en cas de collision
+  while (true) {
+    const version: MenuVersion = {
+      id: nextVersionId(),
+      createdAt: new Date().toISOString(),
+      summary,
+      menu,
+    };
+    try {
+      await fs.promises.writeFile(
+        path.join(getVersionsDir(), `${version.id}.json`),
+        JSON.stringify(version, null, 2),
+        { flag: 'wx' }
+      );
+      return version;
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') throw error;
+    }
+  }
+};
+
+// Écrire le menu (validé) puis en garder une version pour pouvoir revenir en arrière
+const writeMenu = async (menu: MenuData, summary: string) => {
+  const menuPath = getMenuPath();
+
+  // Première modification : conserver le menu d'origine
+  const existing = await listMenuVersions();
+  if (existing.length === 0) {
+    await writeVersion(await loadMenu(), 'Version initiale');
+  }
+
+  const tmpPath = `${menuPath}.tmp`;
+  await fs.promises.writeFile(tmpPath, JSON.stringify(menu, null, 2));
+  await fs.promises.rename(tmpPath, menuPath);
+
+  return writeVersion(menu, summary);
+};
+
+const validationFailure = (menu: MenuData): MenuEditFailure | null => {
+  const errors = validateMenu(menu);
+  if (errors.length === 0) return null;
+  return {
+    status: 422,
+    error: 'Menu invalide',
+    details: formatMenuErrors(errors),
+  };
+};
+
+// Enregistrer un menu complet : validation, écriture et nouvelle version (appelé sous le verrou)
+const saveMenu = async (menu: MenuData, summary: string) => {
+  const failure = validationFailure(menu);
+  if (failure) {
+    return { failure };
+  }
+
+  const version = await writeMenu(menu, summary);
+  return { menu, version: { id: version.id, createdAt: version.createdAt, summary } };
+};
+
+// Appliquer une modification au menu : validation, écriture et nouvelle version
+export const editMenu = (edit: MenuEdit, summary: string) => withMenuLock(async () => {
+  const draft: MenuData = JSON.parse(JSON.stringify(await loadMenu()));
+
+  const failure = edit(draft);
+  if (failure) {
+    return { failure };
+  }
+
+  return saveMenu(draft, summary);
+});
+
+// Lister les versions, de la plus récente à la plus ancienne
+export const listMenuVersions = async (): Promise<MenuVersionSummary[]> => {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(getVersionsDir());
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const versions = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(async (file) => {
+        const version: MenuVersion = JSON.parse(
+          await fs.promises.readFile(path.join(getVersionsDir(), file), 'utf-8')
+        );
+        return { id: version.id, createdAt: version.createdAt, summary: version.summary };
+      })
+  );
+
+  return versions.sort((a, b) => Number(b.id) - Number(a.id));
+};
+
+export const getMenuVersion = async (id: string): Promise<MenuVersion | null> => {
+  // L'identifiant sert de nom de fichier : chiffres uniquement
+  if (!/^\d+$/.test(id)) return null;
+  try {
+    const raw = await fs.promises.readFile(path.join(getVersionsDir(), `${id}.json`), 'utf-8');
+    return JSON.parse(raw);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+// Revenir à une version précédente (crée une nouvelle version, rien n'est perdu)
+export const restoreMenuVersion = async (id: string) => {
+  const version = await getMenuVersion(id);
+  if (!version) {
+    return { failure: { status: 404, error: 'Version introuvable' } as MenuEditFailure };
+  }
+
+  // Le menu de la version remplace le menu courant tel quel
+  return withMenuLock(() => saveMenu(version.menu, `Retour à la version du ${version.createdAt}`));
+};
+
+// Réponse standard des routes d'édition du menu
+export const sendMenuEditResult = (
+  res: NextApiResponse,
+  result: { menu?: MenuData; version?: MenuVersionSummary; failure?: MenuEditFailure },
+  successStatus: number = 200
+) => {
+  if (result.failure) {
+    const { status, ...body } = result.failure;
+    return res.status(status).json(body);
+  }
+  return res.status(successStatus).json({ menu: result.menu, version: result.version });
+};
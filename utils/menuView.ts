@@ -0,0 +1,119 @@
+import { MenuFilter, isMenuFlag, validateMenuFilter, normalizeMenuFilter } from './menuFilters';
+
+// Vue du menu (catégorie, filtres, sélection de Fred, recherche) et son codage dans l'URL,
+// pour qu'un lien la reproduise : /?cat=desserts&filters=vegan
+
+export interface MenuViewState {
+  category: string;
+  filters: MenuFilter[];
+  // Plats conseillés par Fred (mis en avant) et sélection explicite (remplace la grille)
+  recommended: number[];
+  shown: number[] | null;
+  search: string;
+}
+
+export const DEFAULT_MENU_VIEW: MenuViewState = {
+  category: 'all',
+  filters: [],
+  recommended: [],
+  shown: null,
+  search: '',
+};
+
+// Paramètres de l'URL propres à la vue ; les autres (ex: id et sig d'une table) sont conservés
+export const MENU_VIEW_PARAMS = ['cat', 'filters', 'reco', 'show', 'q'];
+
+// Un filtre en un mot lisible : "vegan", "!spicy", "sans:oignons", "max-prix:15".
+// Les textes libres sont encodés : une virgule ne doit pas couper la liste des filtres
+export const encodeMenuFilter = (filter: MenuFilter): string => {
+  switch (filter.kind) {
+    case 'flag':
+      return `${filter.value ? '' : '!'}${filter.flag}`;
+    case 'cheese':
+      return filter.value ? 'fromage' : '!fromage';
+    case 'ingredient':
+      return `${filter.mode === 'include' ? 'avec' : 'sans'}:${encodeURIComponent(filter.ingredient)}`;
+    case 'allergen':
+      return `allergene:${encodeURIComponent(filter.allergen)}`;
+    case 'noAllergens':
+      return 'sans-allergenes';
+    case 'maxPrice':
+      return `max-prix:${filter.amount}`;
+    case 'maxPreparationMinutes':
+      return `max-minutes:${filter.minutes}`;
+    case 'tag':
+      return `tag:${encodeURIComponent(filter.tag)}`;
+  }
+};
+
+// Lire un filtre de l'URL ; undefined s'il est illisible (lien modifié à la main)
+export const decodeMenuFilter = (token: string): MenuFilter | undefined => {
+  const separator = token.indexOf(':');
+  const name = separator >= 0 ? token.slice(0, separator) : token;
+  let value: string;
+  try {
+    value = separator >= 0 ? decodeURIComponent(token.slice(separator + 1)) : '';
+  } catch {
+    return undefined;
+  }
+  const isNegated = name.startsWith('!');
+  const bare = isNegated ? name.slice(1) : name;
+
+  let candidate: MenuFilter | undefined;
+  if (!value && isMenuFlag(bare)) {
+    candidate = { kind: 'flag', flag: bare, value: !isNegated };
+  } else if (!value && bare === 'fromage') {
+    candidate = { kind: 'cheese', value: !isNegated };
+  } else if (name === 'avec' || name === 'sans') {
+    candidate = { kind: 'ingredient', ingredient: value, mode: name === 'avec' ? 'include' : 'exclude' };
+  } else if (name === 'allergene') {
+    candidate = { kind: 'allergen', allergen: value };
+  } else if (name === 'sans-allergenes') {
+    candidate = { kind: 'noAllergens' };
+  } else if (name === 'max-prix') {
+    candidate = { kind: 'maxPrice', amount: Number(value) };
+  } else if (name === 'max-minutes') {
+    candidate = { kind: 'maxPreparationMinutes', minutes: Number(value) };
+  } else if (name === 'tag') {
+    candidate = { kind: 'tag', tag: value };
+  }
+
+  return candidate && validateMenuFilter(candidate).length === 0 ? normalizeMenuFilter(candidate) : undefined;
+};
+
+const firstValue = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) || '';
+
+const parseIds = (value: string) =>
+  value.split(',').map(Number).filter(id => Number.isInteger(id) && id > 0);
+
+// Vue décrite par les paramètres de l'URL ; les valeurs illisibles sont ignorées
+export const queryToMenuView = (query: Record<string, string | string[] | undefined>): MenuViewState => {
+  const filters = firstValue(query.filters);
+  const shown = firstValue(query.show);
+  return {
+    category: firstValue(query.cat) || DEFAULT_MENU_VIEW.category,
+    filters: filters
+      ? filters.split(',').map(decodeMenuFilter).filter((filter): filter is MenuFilter => Boolean(filter))
+      : [],
+    recommended: parseIds(firstValue(query.reco)),
+    shown: shown ? parseIds(shown) : null,
+    search: firstValue(query.q).trim(),
+  };
+};
+
+// Paramètres de l'URL d'une vue ; la vue par défaut donne une URL nue
+export const menuViewToQuery = (view: MenuViewState): Record<string, string> => ({
+  ...(view.category !== DEFAULT_MENU_VIEW.category ? { cat: view.category } : {}),
+  ...(view.filters.length > 0 ? { filters: view.filters.map(encodeMenuFilter).join(',') } : {}),
+  ...(view.recommended.length > 0 ? { reco: view.recommended.join(',') } : {}),
+  ...(view.shown ? { show: view.shown.join(',') } : {}),
+  ...(view.search.trim() ? { q: view.search.trim() } : {}),
+});
+
+// Forme canonique, pour comparer deux vues
+export const serializeMenuView = (view: MenuViewState) =>
+  new URLSearchParams(menuViewToQuery(view)).toString();
+
+export const hasMenuViewParams = (query: Record<string, unknown>) =>
+  MENU_VIEW_PARAMS.some(param => query[param] !== undefined);
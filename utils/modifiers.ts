@@ -0,0 +1,127 @@
+import { ModifierGroup, ModifierOption } from './menu';
+import { normalizeText } from './menuFilters';
+
+// Sélection d'options d'un plat : une liste d'identifiants d'options (partagé client / serveur)
+
+// Ce dont les fonctions ci-dessous ont besoin d'un plat (MenuItem convient)
+export interface ModifiableItem {
+  price: number;
+  modifierGroups?: ModifierGroup[];
+}
+
+// Option retenue, figée dans le panier et la commande
+export interface SelectedModifier {
+  groupId: string;
+  optionId: string;
+  label: string;
+  priceDelta: number;
+  isDefault: boolean;
+}
+
+const getGroups = (item: ModifiableItem) => item.modifierGroups || [];
+
+// Retrouver une option et son groupe par identifiant
+export const findModifierOption = (
+  item: ModifiableItem,
+  optionId: string
+): { group: ModifierGroup; option: ModifierOption } | undefined => {
+  for (const group of getGroups(item)) {
+    const option = group.options.find(entry => entry.id === optionId);
+    if (option) return { group, option };
+  }
+  return undefined;
+};
+
+// Compléter une sélection avec les options par défaut des groupes laissés vides
+export const withDefaultOptions = (item: ModifiableItem, optionIds: string[]): string[] => {
+  const selected = Array.from(new Set(optionIds));
+  getGroups(item).forEach(group => {
+    if (group.options.some(option => selected.includes(option.id))) return;
+    group.options.filter(option => option.isDefault).forEach(option => selected.push(option.id));
+  });
+  return selected;
+};
+
+// Vérifier une sélection contre les règles min / max ; retourne les erreurs (vide si valide)
+export const validateModifierSelection = (item: ModifiableItem, optionIds: string[]): string[] => {
+  const errors: string[] = [];
+
+  optionIds
+    .filter(optionId => !findModifierOption(item, optionId))
+    .forEach(optionId => errors.push(`option inconnue "${optionId}"`));
+  if (new Set(optionIds).size !== optionIds.length) {
+    errors.push('option choisie plusieurs fois');
+  }
+
+  getGroups(item).forEach(group => {
+    const count = group.options.filter(option => optionIds.includes(option.id)).length;
+    if (count < group.min) {
+      errors.push(group.min === 1 ? `choix requis : ${group.name}` : `${group.name} : au moins ${group.min} choix`);
+    }
+    if (count > group.max) {
+      errors.push(group.max === 1 ? `${group.name} : un seul choix possible` : `${group.name} : ${group.max} choix maximum`);
+    }
+  });
+
+  return errors;
+};
+
+// Options retenues, dans l'ordre des groupes du plat
+export const resolveModifiers = (item: ModifiableItem, optionIds: string[]): SelectedModifier[] =>
+  getGroups(item).flatMap(group => group.options
+    .filter(option => optionIds.includes(option.id))
+    .map(option => ({
+      groupId: group.id,
+      optionId: option.id,
+      label: option.label,
+      priceDelta: option.priceDelta || 0,
+      isDefault: option.isDefault === true,
+    })));
+
+// Prix unitaire du plat avec ses options
+export const getUnitPrice = (item: ModifiableItem, optionIds: string[]) => {
+  const price = resolveModifiers(item, optionIds).reduce((sum, modifier) => sum + modifier.priceDelta, item.price);
+  return Math.max(0, Math.round(price * 100) / 100);
+};
+
+// Résumé lisible ("Grande, Sans basilic, Burrata") ; les options par défaut sont sous-entendues
+export const describeModifiers = (modifiers: SelectedModifier[]) =>
+  modifiers.filter(modifier => !modifier.isDefault).map(modifier => modifier.label).join(', ');
+
+// Choisir ou retirer une option depuis la carte : un groupe à choix unique remplace son option,
+// un groupe plein ignore les nouveaux choix
+export const toggleModifierOption = (item: ModifiableItem, optionIds: string[], optionId: string): string[] => {
+  const found = findModifierOption(item, optionId);
+  if (!found) return optionIds;
+  const { group } = found;
+  const groupSelection = optionIds.filter(id => group.options.some(option => option.id === id));
+
+  if (optionIds.includes(optionId)) {
+    // Un choix obligatoire ne se retire pas, il se remplace
+    return groupSelection.length <= group.min ? optionIds : optionIds.filter(id => id !== optionId);
+  }
+  if (group.max === 1) {
+    return [...optionIds.filter(id => !groupSelection.includes(id)), optionId];
+  }
+  return groupSelection.length >= group.max ? optionIds : [...optionIds, optionId];
+};
+
+// Libellés d'une option : français et traductions
+const optionLabels = (option: ModifierOption) => [
+  option.label,
+  ...Object.values(option.translations || {}).map(texts => texts.label).filter(Boolean),
+];
+
+// Retrouver une option à partir d'un identifiant approximatif ou d'un libellé ("sans basilic", "no basil")
+export const matchModifierOption = (item: ModifiableItem, value: string): ModifierOption | undefined => {
+  const exact = findModifierOption(item, value);
+  if (exact) return exact.option;
+
+  const wanted = normalizeText(value).replace(/[\s_]+/g, '-');
+  const options = getGroups(item).flatMap(group => group.options);
+  return options.find(option => option.id === wanted)
+    || options.find(option => optionLabels(option).some(label => normalizeText(label).replace(/\s+/g, '-') === wanted));
+};
+
+// Clé stable d'une sélection (ligne de panier)
+export const selectionKey = (optionIds: string[]) => [...optionIds].sort().join('+');
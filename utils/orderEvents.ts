@@ -0,0 +1,18 @@
+import { Order } from './orders';
+import { publishLiveEvent, subscribeToLiveEvents } from './liveEvents';
+
+// Événements temps réel sur les commandes (usage serveur uniquement)
+export interface OrderEvent {
+  type: 'created' | 'updated';
+  order: Order;
+}
+
+const ORDER_CHANNEL = 'order';
+
+export const publishOrderEvent = (event: OrderEvent) => {
+  publishLiveEvent(ORDER_CHANNEL, event);
+};
+
+// S'abonner aux événements ; retourne la fonction de désabonnement
+export const subscribeToOrderEvents = (listener: (event: OrderEvent) => void) =>
+  subscribeToLiveEvents(ORDER_CHANNEL, listener);
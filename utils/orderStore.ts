@@ -0,0 +1,127 @@
+import fs from 'fs';
+import path from 'path';
+import { Order, OrderStatus, canTransition } from './orders';
+
+// Stockage des commandes (usage serveur uniquement)
+export interface OrderStore {
+  create: (order: Order) => Promise<Order>;
+  list: (filter?: { status?: OrderStatus[] }) => Promise<Order[]>;
+  get: (id: string) => Promise<Order | null>;
+  // Changer le statut en une seule opération (lecture, vérification de la transition, écriture)
+  transition: (id: string, status: OrderStatus) => Promise<OrderTransitionResult>;
+}
+
+// Commande mise à jour, ou raison du refus (statut actuel joint quand la transition n'est plus permise)
+export type OrderTransitionResult =
+  | { outcome: 'updated'; order: Order }
+  | { outcome: 'not_found' }
+  | { outcome: 'invalid_transition'; order: Order };
+
+const applyTransition = (order: Order | undefined, status: OrderStatus): OrderTransitionResult => {
+  if (!order) return { outcome: 'not_found' };
+  if (!canTransition(order.status, status)) return { outcome: 'invalid_transition', order };
+  const now = new Date().toISOString();
+  return {
+    outcome: 'updated',
+    order: {
+      ...order,
+      status,
+      statusHistory: [...order.statusHistory, { status, at: now }],
+      updatedAt: now,
+    },
+  };
+};
+
+const applyFilter = (orders: Order[], filter?: { status?: OrderStatus[] }) => {
+  const filtered = filter?.status?.length
+    ? orders.filter(order => filter.status!.includes(order.status))
+    : orders;
+  // Les plus récentes en dernier (ordre d'arrivée en cuisine)
+  return [...filtered].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Stockage en mémoire (tests, démo) : perdu au redémarrage
+export const createMemoryOrderStore = (): OrderStore => {
+  const orders = new Map<string, Order>();
+
+  return {
+    create: async (order) => {
+      orders.set(order.id, order);
+      return order;
+    },
+    list: async (filter) => applyFilter(Array.from(orders.values()), filter),
+    get: async (id) => orders.get(id) || null,
+    transition: async (id, status) => {
+      const result = applyTransition(orders.get(id), status);
+      if (result.outcome === 'updated') orders.set(id, result.order);
+      return result;
+    },
+  };
+};
+
+// Stockage dans un fichier JSON : fonctionne en local sans base de données
+export const createFileOrderStore = (filePath: string): OrderStore => {
+  // Sérialiser les écritures pour éviter les pertes en cas d'appels concurrents
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const readAll = async (): Promise<Order[]> => {
+    try {
+      const raw = await fs.promises.readFile(filePath, 'utf-8');
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  const writeAll = async (orders: Order[]) => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Écriture atomique : fichier temporaire puis renommage
+    const tmpPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(orders, null, 2));
+    await fs.promises.rename(tmpPath, filePath);
+  };
+
+  const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    create: (order) => withLock(async () => {
+      const orders = await readAll();
+      orders.push(order);
+      await writeAll(orders);
+      return order;
+    }),
+    list: async (filter) => applyFilter(await readAll(), filter),
+    get: async (id) => (await readAll()).find(order => order.id === id) || null,
+    transition: (id, status) => withLock(async () => {
+      const orders = await readAll();
+      const index = orders.findIndex(existing => existing.id === id);
+      const result = applyTransition(orders[index], status);
+      if (result.outcome === 'updated') {
+        orders[index] = result.order;
+        await writeAll(orders);
+      }
+      return result;
+    }),
+  };
+};
+
+// Singleton partagé entre les routes API (chaque route a son propre bundle)
+const globalForOrders = globalThis as unknown as { foodvoiceOrderStore?: OrderStore };
+
+// Stockage configuré par ORDER_STORE (file | memory), fichier par défaut
+export const getOrderStore = (): OrderStore => {
+  if (!globalForOrders.foodvoiceOrderStore) {
+    globalForOrders.foodvoiceOrderStore = process.env.ORDER_STORE === 'memory'
+      ? createMemoryOrderStore()
+      : createFileOrderStore(
+          process.env.ORDER_STORE_PATH || path.join(process.cwd(), 'data', 'orders.json')
+        );
+  }
+  return globalForOrders.foodvoiceOrderStore;
+};
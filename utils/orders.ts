@@ -0,0 +1,80 @@
+import { SelectedModifier } from './modifiers';
+import { TableTicket } from './tables';
+
+// Types et cycle de vie des commandes (partagés client / serveur)
+
+export type OrderStatus = 'received' | 'preparing' | 'ready' | 'served' | 'paid' | 'cancelled';
+
+export interface OrderLine {
+  itemId: number;
+  name: string;
+  // Prix unitaire, options comprises
+  unitPrice: number;
+  quantity: number;
+  note: string;
+  options?: SelectedModifier[];
+}
+
+export interface Order {
+  id: string;
+  // Table du client (lien de QR code vérifié) et son nom pour la cuisine
+  tableId?: string;
+  tableLabel?: string;
+  lines: OrderLine[];
+  total: number;
+  currency: string;
+  status: OrderStatus;
+  statusHistory: Array<{
+    status: OrderStatus;
+    at: string;
+  }>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Ligne envoyée par le client lors de la création d'une commande
+export interface CreateOrderLine {
+  itemId: number;
+  quantity: number;
+  note?: string;
+  // Identifiants des options choisies (les options par défaut sont ajoutées côté serveur)
+  options?: string[];
+}
+
+export interface CreateOrderRequest {
+  lines: CreateOrderLine[];
+  // Lien signé du QR code de la table : la table n'est jamais acceptée sans signature
+  table?: TableTicket;
+}
+
+// Transitions autorisées : received → preparing → ready → served → paid (+ annulation)
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  received: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['served', 'cancelled'],
+  served: ['paid'],
+  paid: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  received: 'Reçue',
+  preparing: 'En préparation',
+  ready: 'Prête',
+  served: 'Servie',
+  paid: 'Payée',
+  cancelled: 'Annulée',
+};
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ORDER_TRANSITIONS, value);
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_TRANSITIONS[from].includes(to);
+
+// Portions par plat d'une commande (réservation et restitution du stock)
+export const countItemQuantities = (lines: Array<{ itemId: number; quantity: number }>) => {
+  const quantities = new Map<number, number>();
+  lines.forEach(line => quantities.set(line.itemId, (quantities.get(line.itemId) || 0) + line.quantity));
+  return Array.from(quantities, ([itemId, quantity]) => ({ itemId, quantity }));
+};
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { SafetyViolation } from './allergenGuard';
+
+// Journal des incohérences allergènes détectées dans les réponses de Fred (usage serveur uniquement)
+
+export interface SafetyLogEntry {
+  at: string;
+  message: string;
+  originalResponse: string;
+  correctedResponse: string;
+  violations: SafetyViolation[];
+}
+
+const getLogPath = () =>
+  process.env.SAFETY_LOG_PATH || path.join(process.cwd(), 'data', 'safety-log.jsonl');
+
+// Une ligne JSON par réponse corrigée, pour relecture par l'équipe
+export const logSafetyViolations = async (entry: Omit<SafetyLogEntry, 'at'>) => {
+  console.warn('Garde-fou allergènes:', JSON.stringify(entry.violations));
+  try {
+    const logPath = getLogPath();
+    await fs.promises.mkdir(path.dirname(logPath), { recursive: true });
+    await fs.promises.appendFile(logPath, `${JSON.stringify({ at: new Date().toISOString(), ...entry })}\n`);
+  } catch (error) {
+    console.error('Impossible d\'écrire le journal de sécurité:', error);
+  }
+};
+
+// Entrées les plus récentes en premier
+export const readSafetyLog = async (limit = 100): Promise<SafetyLogEntry[]> => {
+  try {
+    const raw = await fs.promises.readFile(getLogPath(), 'utf-8');
+    return raw
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line))
+      .reverse()
+      .slice(0, limit);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+};
@@ -0,0 +1,129 @@
+import { MenuFilter, validateMenuFilter, normalizeMenuFilter } from './menuFilters';
+import { CreateOrderLine } from './orders';
+import { GuestRestrictions } from './allergenGuard';
+
+// Session de conversation d'un client, partagée client / serveur.
+// Le serveur en est la référence : l'historique n'est jamais accepté du client.
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatSession {
+  // Jeton du client qui porte la session
+  token: string;
+  // Table du client, si la page a été ouverte depuis son QR code
+  tableId?: string;
+  // Derniers échanges, tels quels
+  history: ConversationTurn[];
+  // Résumé des échanges plus anciens (vide tant que l'historique tient dans le budget)
+  summary: string;
+  // Nombre de messages déjà condensés dans le résumé
+  summarizedCount: number;
+  // Restrictions déclarées dans la conversation : elles survivent au résumé
+  restrictions: GuestRestrictions;
+  // État de l'interface, synchronisé par le client
+  cart: CreateOrderLine[];
+  filters: MenuFilter[];
+  category: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Partie de la session modifiable par le client (PUT /api/sessions/[token])
+export type SessionViewState = Pick<ChatSession, 'cart' | 'filters' | 'category'>;
+
+export const createChatSession = (token: string): ChatSession => {
+  const now = new Date().toISOString();
+  return {
+    token,
+    history: [],
+    summary: '',
+    summarizedCount: 0,
+    restrictions: { allergens: [], ingredients: [] },
+    cart: [],
+    filters: [],
+    category: 'all',
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Estimation grossière du nombre de tokens (~4 caractères par token en français)
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const estimateHistoryTokens = (history: ConversationTurn[]) =>
+  history.reduce((total, turn) => total + estimateTokens(turn.content), 0);
+
+// Limites de l'état envoyé par le client
+const MAX_CART_LINES = 50;
+const MAX_FILTERS = 20;
+const MAX_NOTE_LENGTH = 200;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+// Valider l'état envoyé par le client ; retourne les erreurs (vide si valide)
+export const validateSessionState = (value: unknown): string[] => {
+  if (!isRecord(value)) {
+    return ["l'état doit être un objet"];
+  }
+
+  const errors: string[] = [];
+
+  if (value.cart !== undefined) {
+    if (!Array.isArray(value.cart) || value.cart.length > MAX_CART_LINES) {
+      errors.push(`cart doit être une liste de ${MAX_CART_LINES} lignes au plus`);
+    } else {
+      value.cart.forEach((line: unknown, index: number) => {
+        if (!isRecord(line)) {
+          errors.push(`cart[${index}] doit être un objet`);
+          return;
+        }
+        if (!isPositiveInteger(line.itemId)) errors.push(`cart[${index}].itemId invalide`);
+        if (!isPositiveInteger(line.quantity)) errors.push(`cart[${index}].quantity invalide`);
+        if (line.note !== undefined && (typeof line.note !== 'string' || line.note.length > MAX_NOTE_LENGTH)) {
+          errors.push(`cart[${index}].note doit être un texte de ${MAX_NOTE_LENGTH} caractères au plus`);
+        }
+        if (line.options !== undefined
+          && (!Array.isArray(line.options) || line.options.some((option: unknown) => typeof option !== 'string'))) {
+          errors.push(`cart[${index}].options doit être une liste d'identifiants`);
+        }
+      });
+    }
+  }
+
+  if (value.filters !== undefined) {
+    if (!Array.isArray(value.filters) || value.filters.length > MAX_FILTERS) {
+      errors.push(`filters doit être une liste de ${MAX_FILTERS} filtres au plus`);
+    } else {
+      value.filters.forEach((filter: unknown, index: number) => {
+        validateMenuFilter(filter).forEach(error => errors.push(`filters[${index}] : ${error}`));
+      });
+    }
+  }
+
+  if (value.category !== undefined && (typeof value.category !== 'string' || !value.category.trim())) {
+    errors.push('category doit être un texte non vide');
+  }
+
+  return errors;
+};
+
+// Ne garder que les champs connus de l'état (après validation)
+export const pickSessionState = (value: Partial<SessionViewState>): Partial<SessionViewState> => ({
+  ...(value.cart !== undefined ? {
+    cart: value.cart.map(line => ({
+      itemId: line.itemId,
+      quantity: line.quantity,
+      ...(line.note ? { note: line.note } : {}),
+      ...(line.options ? { options: line.options } : {}),
+    })),
+  } : {}),
+  ...(value.filters !== undefined ? { filters: value.filters.map(normalizeMenuFilter) } : {}),
+  ...(value.category !== undefined ? { category: value.category.trim() } : {}),
+});
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { ChatSession, createChatSession } from './session';
+
+// Sessions de conversation indexées par jeton client (usage serveur uniquement)
+
+type ChatSessionMap = Record<string, ChatSession>;
+
+const getStorePath = () =>
+  process.env.SESSION_STORE_PATH || path.join(process.cwd(), 'data', 'sessions.json');
+
+// Une session inactive plus longtemps est oubliée (un repas ne dure pas la journée)
+const getSessionTtlMs = () => Number(process.env.SESSION_TTL_HOURS || 12) * 60 * 60 * 1000;
+
+const isExpired = (session: ChatSession) =>
+  Date.now() - new Date(session.updatedAt).getTime() > getSessionTtlMs();
+
+// Sérialiser les écritures entre toutes les routes
+const globalForSessions = globalThis as unknown as { foodvoiceSessionQueue?: Promise<unknown> };
+
+const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const queue = globalForSessions.foodvoiceSessionQueue || Promise.resolve();
+  const run = queue.then(task, task);
+  globalForSessions.foodvoiceSessionQueue = run.catch(() => undefined);
+  return run;
+};
+
+const readSessions = async (): Promise<ChatSessionMap> => {
+  try {
+    const raw = await fs.promises.readFile(getStorePath(), 'utf-8');
+    return JSON.parse(raw);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+// Les sessions expirées sont purgées à chaque écriture
+const writeSessions = async (sessions: ChatSessionMap) => {
+  const storePath = getStorePath();
+  await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
+  const active = Object.fromEntries(Object.entries(sessions).filter(([, session]) => !isExpired(session)));
+  const tmpPath = `${storePath}.tmp`;
+  await fs.promises.writeFile(tmpPath, JSON.stringify(active, null, 2));
+  await fs.promises.rename(tmpPath, storePath);
+};
+
+export const getSession = async (token: string): Promise<ChatSession | undefined> => {
+  const session = (await readSessions())[token];
+  return session && !isExpired(session) ? session : undefined;
+};
+
+// Lire, modifier et enregistrer une session (créée si absente ou expirée).
+// La modification peut renvoyer null pour ne rien enregistrer.
+export const updateSession = (
+  token: string,
+  update: (session: ChatSession) => ChatSession | null
+) => withLock(async () => {
+  const sessions = await readSessions();
+  const current = sessions[token] && !isExpired(sessions[token]) ? sessions[token] : createChatSession(token);
+  const next = update(current);
+  if (!next) return current;
+  const saved: ChatSession = { ...next, token, updatedAt: new Date().toISOString() };
+  sessions[token] = saved;
+  await writeSessions(sessions);
+  return saved;
+});
+
+export const deleteSession = (token: string) => withLock(async () => {
+  const sessions = await readSessions();
+  if (!sessions[token]) return false;
+  delete sessions[token];
+  await writeSessions(sessions);
+  return true;
+});
@@ -0,0 +1,103 @@
+import { AIProvider } from './ai';
+import { ConversationTurn, estimateHistoryTokens } from './session';
+import { getSession, updateSession } from './sessionStore';
+
+// Résumé des anciens échanges d'une session (usage serveur uniquement) :
+// au-delà du budget, les plus anciens messages sont condensés pour ne pas saturer le contexte du modèle
+
+// Budget de l'historique transmis tel quel à Fred, en tokens estimés
+const getHistoryTokenBudget = () => Number(process.env.SESSION_HISTORY_TOKEN_BUDGET || 1500);
+
+// Derniers messages toujours gardés tels quels (le fil immédiat de la conversation)
+const KEEP_RECENT_MESSAGES = 6;
+
+// Taille maximale du résumé, en caractères ; au-delà, le début est coupé
+const MAX_SUMMARY_LENGTH = 2000;
+
+// Longueur d'un message client repris dans le résumé de secours
+const FALLBACK_EXCERPT_LENGTH = 120;
+
+const SUMMARY_PROMPT = `Tu résumes la conversation entre un client de restaurant et Fred, le serveur digital, pour que Fred puisse la poursuivre.
+Garde uniquement ce qui sert à la suite du repas : plats commandés ou envisagés, goûts, allergies et restrictions, demandes particulières, questions restées en suspens.
+Intègre le résumé précédent s'il y en a un. Écris en français, à la troisième personne, en 120 mots au plus, sans introduction.`;
+
+// Résumés en cours, pour ne pas condenser deux fois la même session en parallèle
+const globalForSummaries = globalThis as unknown as { foodvoiceSessionSummaries?: Set<string> };
+const inProgress = globalForSummaries.foodvoiceSessionSummaries || new Set<string>();
+globalForSummaries.foodvoiceSessionSummaries = inProgress;
+
+const formatTurns = (turns: ConversationTurn[]) =>
+  turns.map(turn => `${turn.role === 'user' ? 'Client' : 'Fred'} : ${turn.content}`).join('\n');
+
+const truncateSummary = (summary: string) =>
+  summary.length > MAX_SUMMARY_LENGTH ? `…${summary.slice(-MAX_SUMMARY_LENGTH)}` : summary;
+
+// Nombre de messages à condenser (0 si l'historique tient dans le budget).
+// La coupe tombe sur un message du client pour ne pas séparer une question de sa réponse.
+export const getCompactionCut = (history: ConversationTurn[], budget = getHistoryTokenBudget()) => {
+  if (history.length <= KEEP_RECENT_MESSAGES || estimateHistoryTokens(history) <= budget) return 0;
+  let cut = history.length - KEEP_RECENT_MESSAGES;
+  while (cut > 0 && history[cut].role !== 'user') cut--;
+  return cut;
+};
+
+const summarizeTurns = async (provider: AIProvider, previousSummary: string, turns: ConversationTurn[]) => {
+  const completion = await provider.chat({
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `${previousSummary ? `Résumé précédent :\n${previousSummary}\n\n` : ''}Échanges à résumer :\n${formatTurns(turns)}`,
+      },
+    ],
+    maxTokens: 300,
+    temperature: 0.2,
+  });
+  const summary = completion.content.trim();
+  if (!summary) throw new Error('Résumé vide');
+  return summary;
+};
+
+// Résumé de secours, sans modèle : les demandes du client, abrégées
+const fallbackSummary = (previousSummary: string, turns: ConversationTurn[]) => [
+  previousSummary,
+  ...turns
+    .filter(turn => turn.role === 'user')
+    .map(turn => `Le client a dit : "${turn.content.slice(0, FALLBACK_EXCERPT_LENGTH)}"`),
+].filter(Boolean).join('\n');
+
+// Condenser les anciens échanges d'une session si son historique dépasse le budget
+export const compactSession = async (token: string, provider: AIProvider) => {
+  if (inProgress.has(token)) return;
+  inProgress.add(token);
+
+  try {
+    const session = await getSession(token);
+    const cut = session ? getCompactionCut(session.history) : 0;
+    if (!session || cut === 0) return;
+
+    const older = session.history.slice(0, cut);
+    let summary: string;
+    try {
+      summary = await summarizeTurns(provider, session.summary, older);
+    } catch (error) {
+      console.warn('Résumé de conversation impossible, résumé de secours:', error);
+      summary = fallbackSummary(session.summary, older);
+    }
+
+    await updateSession(token, current => {
+      // Session réinitialisée ou déjà condensée entre-temps : ce résumé ne correspond plus
+      if (current.createdAt !== session.createdAt || current.summarizedCount !== session.summarizedCount) {
+        return null;
+      }
+      return {
+        ...current,
+        summary: truncateSummary(summary),
+        summarizedCount: current.summarizedCount + cut,
+        history: current.history.slice(cut),
+      };
+    });
+  } finally {
+    inProgress.delete(token);
+  }
+};
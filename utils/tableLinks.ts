@@ -0,0 +1,48 @@
+import { NextApiRequest } from 'next';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { TLSSocket } from 'tls';
+import { TableTicket } from './tables';
+
+// Liens signés des QR codes de table (usage serveur uniquement) :
+// la signature empêche un client de se déclarer à une autre table en modifiant le lien
+
+// Longueur de la signature (base64url) ; assez pour ne pas être devinée, assez court pour le QR code
+const SIGNATURE_LENGTH = 22;
+
+const getSigningSecret = () => process.env.TABLE_SIGNING_SECRET || process.env.ADMIN_TOKEN;
+
+// Sans secret, aucun lien ne peut être signé : vérifié par l'administration des tables
+export const isTableSigningConfigured = () => Boolean(getSigningSecret());
+
+export const signTableId = (tableId: string) => {
+  const secret = getSigningSecret();
+  if (!secret) {
+    throw new Error('Secret de signature des tables (TABLE_SIGNING_SECRET) non configuré');
+  }
+  return createHmac('sha256', secret)
+    .update(`table:${tableId}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH);
+};
+
+// Côté client, un secret manquant ne doit pas bloquer la commande : le lien est traité comme sans table
+export const isValidTableSignature = ({ tableId, sig }: TableTicket) => {
+  if (!isTableSigningConfigured()) {
+    console.warn('Lien de table ignoré : secret de signature (TABLE_SIGNING_SECRET) non configuré');
+    return false;
+  }
+  const expected = Buffer.from(signTableId(tableId));
+  const provided = Buffer.from(sig);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+// Adresse publique du site : PUBLIC_BASE_URL, sinon celle de la requête
+export const getPublicBaseUrl = (req: NextApiRequest) => {
+  if (process.env.PUBLIC_BASE_URL) return process.env.PUBLIC_BASE_URL.replace(/\/+$/, '');
+  const forwardedProto = String(req.headers['x-forwarded-proto'] || '').split(',')[0];
+  const protocol = forwardedProto || (req.socket instanceof TLSSocket ? 'https' : 'http');
+  return `${protocol}://${req.headers['x-forwarded-host'] || req.headers.host}`;
+};
+
+export const buildTableUrl = (baseUrl: string, tableId: string) =>
+  `${baseUrl}/t/${encodeURIComponent(tableId)}?sig=${signTableId(tableId)}`;
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { Table, TableTicket, defaultTableLabel } from './tables';
+import { isValidTableSignature } from './tableLinks';
+
+// Tables du restaurant (usage serveur uniquement)
+
+type TableMap = Record<string, Table>;
+
+const getStorePath = () =>
+  process.env.TABLE_STORE_PATH || path.join(process.cwd(), 'data', 'tables.json');
+
+// Sérialiser les écritures entre toutes les routes
+const globalForTables = globalThis as unknown as { foodvoiceTableQueue?: Promise<unknown> };
+
+const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const queue = globalForTables.foodvoiceTableQueue || Promise.resolve();
+  const run = queue.then(task, task);
+  globalForTables.foodvoiceTableQueue = run.catch(() => undefined);
+  return run;
+};
+
+const readTables = async (): Promise<TableMap> => {
+  try {
+    const raw = await fs.promises.readFile(getStorePath(), 'utf-8');
+    return JSON.parse(raw);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+const writeTables = async (tables: TableMap) => {
+  const storePath = getStorePath();
+  await fs.promises.mkdir(path.dirname(storePath), { recursive: true });
+  const tmpPath = `${storePath}.tmp`;
+  await fs.promises.writeFile(tmpPath, JSON.stringify(tables, null, 2));
+  await fs.promises.rename(tmpPath, storePath);
+};
+
+// Ordre naturel : "2" avant "10", puis les tables nommées
+const compareTables = (a: Table, b: Table) => a.id.localeCompare(b.id, 'fr', { numeric: true });
+
+export const listTables = async (): Promise<Table[]> =>
+  Object.values(await readTables()).sort(compareTables);
+
+export const getTable = async (id: string): Promise<Table | undefined> =>
+  (await readTables())[id];
+
+// Table désignée par un lien de QR code : signature valide et table toujours existante
+export const resolveTableTicket = async (ticket: TableTicket): Promise<Table | undefined> =>
+  isValidTableSignature(ticket) ? getTable(ticket.tableId) : undefined;
+
+// Créer une table nommée ; null si l'identifiant existe déjà
+export const createTable = (id: string, label?: string) => withLock(async () => {
+  const tables = await readTables();
+  if (tables[id]) return null;
+  const table: Table = { id, label: label?.trim() || defaultTableLabel(id), createdAt: new Date().toISOString() };
+  tables[id] = table;
+  await writeTables(tables);
+  return table;
+});
+
+// Créer les tables numérotées suivantes (après le plus grand numéro existant)
+export const createNumberedTables = (count: number) => withLock(async () => {
+  const tables = await readTables();
+  const numbers = Object.keys(tables).filter(id => /^\d+$/.test(id)).map(Number);
+  const start = numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+  const now = new Date().toISOString();
+  const created = Array.from({ length: count }, (_, index): Table => {
+    const id = String(start + index);
+    return { id, label: defaultTableLabel(id), createdAt: now };
+  });
+  created.forEach(table => { tables[table.id] = table; });
+  await writeTables(tables);
+  return created;
+});
+
+export const renameTable = (id: string, label: string) => withLock(async () => {
+  const tables = await readTables();
+  if (!tables[id]) return null;
+  tables[id] = { ...tables[id], label: label.trim() };
+  await writeTables(tables);
+  return tables[id];
+});
+
+export const deleteTable = (id: string) => withLock(async () => {
+  const tables = await readTables();
+  if (!tables[id]) return false;
+  delete tables[id];
+  await writeTables(tables);
+  return true;
+});
@@ -0,0 +1,58 @@
+// Tables du restaurant, partagé client / serveur
+
+export interface Table {
+  // Identifiant imprimé dans le lien du QR code (ex: "12", "terrasse-3")
+  id: string;
+  // Nom affiché au client et en cuisine (ex: "Table 12", "Terrasse 3")
+  label: string;
+  createdAt: string;
+}
+
+// Table vue par l'administration : avec son lien signé et, sur demande, son QR code (SVG)
+export interface TableWithLink extends Table {
+  url: string;
+  qrSvg?: string;
+}
+
+// Table transmise par le client : identifiant et signature lus dans le lien du QR code
+export interface TableTicket {
+  tableId: string;
+  sig: string;
+}
+
+// Table reconnue côté client (page ouverte depuis un QR code valide)
+export interface GuestTable extends TableTicket {
+  label: string;
+}
+
+export const TABLE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,19}$/i;
+
+export const isTableId = (value: unknown): value is string =>
+  typeof value === 'string' && TABLE_ID_PATTERN.test(value);
+
+export const isTableTicket = (value: any): value is TableTicket =>
+  typeof value === 'object' && value !== null && isTableId(value.tableId) && typeof value.sig === 'string';
+
+export const defaultTableLabel = (id: string) => (/^\d+$/.test(id) ? `Table ${id}` : id);
+
+// Nombre maximum de tables créées en une fois
+export const MAX_TABLES_PER_BATCH = 100;
+
+const MAX_LABEL_LENGTH = 40;
+
+// Valider une table envoyée par l'administration ; retourne les erreurs (vide si valide)
+export const validateTableInput = (value: any): string[] => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return ['la table doit être un objet'];
+  }
+
+  const errors: string[] = [];
+  if (value.id !== undefined && !isTableId(value.id)) {
+    errors.push('id : lettres, chiffres et tirets uniquement (20 caractères au plus)');
+  }
+  if (value.label !== undefined
+    && (typeof value.label !== 'string' || !value.label.trim() || value.label.length > MAX_LABEL_LENGTH)) {
+    errors.push(`label doit être un texte non vide de ${MAX_LABEL_LENGTH} caractères au plus`);
+  }
+  return errors;
+};
@@ -0,0 +1,181 @@
+import { MenuData, MenuItem, getAllItems } from './menu';
+import { normalizeText } from './menuFilters';
+
+// Correction des transcriptions : les noms de plats et ingrédients mal compris par Whisper
+// ("tag liatelli", "brusquetta") sont ramenés au vocabulaire du menu
+
+export interface TranscriptCorrection {
+  from: string;
+  to: string;
+}
+
+export interface CorrectedTranscript {
+  rawText: string;
+  correctedText: string;
+  corrections: TranscriptCorrection[];
+  // Plats cités dans le texte corrigé
+  matchedItemIds: number[];
+}
+
+interface VocabularyEntry {
+  // Forme écrite à reprendre dans le texte (casse du menu)
+  text: string;
+  // Forme de comparaison : normalisée, sans espaces ni pluriel final
+  key: string;
+  wordCount: number;
+}
+
+// Seuils de la correction approximative : assez stricts pour ne pas toucher aux mots courants
+const MIN_FUZZY_LENGTH = 6;
+const MAX_EDIT_DISTANCE = 2;
+const MIN_SIMILARITY = 0.8;
+
+// Mots d'au moins 4 lettres d'un nom de plat propres à ce plat (ex: "margherita", "penne")
+const DISTINCTIVE_WORD_LENGTH = 4;
+
+const toKey = (text: string) =>
+  normalizeText(text).replace(/^[a-z]['’]/, '').replace(/[^a-z0-9œæ]/g, '').replace(/[sx]$/, '');
+
+// Distance d'édition (insertion, suppression, substitution)
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Noms d'un plat : français puis traductions (le client peut parler une autre langue)
+const itemNames = (item: MenuItem) => Array.from(new Set([
+  item.name,
+  ...Object.values(item.translations || {}).map(texts => texts.name).filter((name): name is string => Boolean(name)),
+]));
+
+// Vocabulaire du menu : noms de plats, mots de ces noms, ingrédients et leurs mots
+export const buildMenuVocabulary = (menuData: MenuData): VocabularyEntry[] => {
+  const entries = new Map<string, VocabularyEntry>();
+  const add = (text: string) => {
+    const key = toKey(text);
+    if (key.length < DISTINCTIVE_WORD_LENGTH || entries.has(key)) return;
+    entries.set(key, { text, key, wordCount: text.split(/\s+/).length });
+  };
+
+  const items = getAllItems(menuData);
+  // Les noms de plats d'abord (français puis traduits) : leur casse l'emporte sur celle des ingrédients
+  items.flatMap(itemNames).forEach(name => {
+    add(name);
+    name.split(/\s+/).forEach(add);
+  });
+  items.forEach(item => item.ingredients.forEach(ingredient => {
+    add(ingredient);
+    ingredient.split(/\s+/).forEach(add);
+  }));
+
+  return Array.from(entries.values());
+};
+
+// Texte à passer à Whisper ("prompt") pour orienter l'orthographe des plats.
+// Une simple liste, sans phrase en français : le prompt ne doit pas fausser la reconnaissance de la langue.
+export const buildTranscriptionPrompt = (menuData: MenuData, maxLength = 800) => {
+  const names = getAllItems(menuData).map(item => item.name);
+  const ingredients = Array.from(new Set(getAllItems(menuData).flatMap(item => item.ingredients)));
+  const prompt = `${names.join(', ')}. ${ingredients.join(', ')}.`;
+  return prompt.length > maxLength ? `${prompt.slice(0, prompt.lastIndexOf(',', maxLength))}.` : prompt;
+};
+
+// Mot (ou suite de mots) du texte à rapprocher d'une entrée du vocabulaire
+const scoreCandidate = (candidate: string, entry: VocabularyEntry) => {
+  if (candidate === entry.key) return 1;
+  if (entry.key.length < MIN_FUZZY_LENGTH || candidate[0] !== entry.key[0]) return 0;
+  // "pimenté" n'est pas une faute pour "piment" : un mot qui en prolonge un autre est laissé tel quel
+  if (candidate.startsWith(entry.key) || entry.key.startsWith(candidate)) return 0;
+  if (Math.abs(candidate.length - entry.key.length) > MAX_EDIT_DISTANCE) return 0;
+
+  const distance = editDistance(candidate, entry.key);
+  const similarity = 1 - distance / Math.max(candidate.length, entry.key.length);
+  return distance <= MAX_EDIT_DISTANCE && similarity >= MIN_SIMILARITY ? similarity : 0;
+};
+
+// Plats cités : nom complet, ou mot propre à un seul plat
+const findMentionedItems = (text: string, menuData: MenuData) => {
+  const items = getAllItems(menuData);
+  const textKeys = new Set(text.split(/[^a-zA-Z0-9À-ÿœæŒÆ'’]+/).filter(Boolean).map(toKey));
+  const normalizedText = normalizeText(text);
+  const wordsOf = (item: MenuItem) => new Set(itemNames(item).flatMap(name => name.split(/\s+/)).map(toKey));
+  const wordOwners = new Map<string, number[]>();
+  items.forEach(item => wordsOf(item).forEach(key => {
+    if (key.length >= DISTINCTIVE_WORD_LENGTH) wordOwners.set(key, [...(wordOwners.get(key) || []), item.id]);
+  }));
+
+  return items
+    .filter(item => itemNames(item).some(name => normalizedText.includes(normalizeText(name)))
+      || Array.from(wordsOf(item)).some(key => wordOwners.get(key)?.length === 1 && textKeys.has(key)))
+    .map(item => item.id);
+};
+
+// Corriger une transcription contre le vocabulaire du menu
+export const correctTranscript = (
+  rawText: string,
+  menuData: MenuData,
+  vocabulary = buildMenuVocabulary(menuData)
+): CorrectedTranscript => {
+  // Mots du texte avec leur position, pour réécrire uniquement les passages corrigés
+  const tokens: Array<{ text: string; start: number; end: number }> = [];
+  const wordPattern = /[^\s.,!?;:()"«»]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(rawText)) !== null) {
+    tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+
+  const maxWords = Math.max(1, ...vocabulary.map(entry => entry.wordCount)) + 1;
+  const corrections: Array<TranscriptCorrection & { start: number; end: number }> = [];
+
+  let index = 0;
+  while (index < tokens.length) {
+    let best: { entry: VocabularyEntry; length: number; score: number } | null = null;
+
+    for (let length = Math.min(maxWords, tokens.length - index); length >= 1; length--) {
+      const candidate = tokens.slice(index, index + length).map(token => toKey(token.text)).join('');
+      if (candidate.length < DISTINCTIVE_WORD_LENGTH) continue;
+      vocabulary.forEach(entry => {
+        const score = scoreCandidate(candidate, entry);
+        if (score > 0 && (!best || score > best.score)) best = { entry, length, score };
+      });
+    }
+
+    if (!best) {
+      index += 1;
+      continue;
+    }
+
+    const { entry, length, score } = best as { entry: VocabularyEntry; length: number; score: number };
+    if (score < 1) {
+      const first = tokens[index];
+      const last = tokens[index + length - 1];
+      // Garder l'élision du premier mot (d', l')
+      const elision = /^[a-zA-Z]['’]/.exec(first.text)?.[0] || '';
+      corrections.push({ from: rawText.slice(first.start, last.end), to: `${elision}${entry.text}`, start: first.start, end: last.end });
+    }
+    index += length;
+  }
+
+  const correctedText = corrections.reduceRight(
+    (text, correction) => `${text.slice(0, correction.start)}${correction.to}${text.slice(correction.end)}`,
+    rawText
+  );
+
+  return {
+    rawText,
+    correctedText,
+    corrections: corrections.map(({ from, to }) => ({ from, to })),
+    matchedItemIds: findMentionedItems(correctedText, menuData),
+  };
+};
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { SpeechBackend, SpeechRequest, SpeechResult } from './types';
+
+// Cache disque des phrases déjà synthétisées (message d'accueil, réponses fréquentes)
+
+const getCacheDir = () =>
+  process.env.TTS_CACHE_DIR || path.join(process.cwd(), 'data', 'tts-cache');
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+// Limites du cache : TTS_CACHE_MAX_MB (200 Mo par défaut) et TTS_CACHE_MAX_ENTRIES (5000 phrases).
+// Au-delà, les phrases les moins récemment lues sont supprimées.
+const getCacheLimits = () => ({
+  maxBytes: Number(process.env.TTS_CACHE_MAX_MB || 200) * 1024 * 1024,
+  maxEntries: Number(process.env.TTS_CACHE_MAX_ENTRIES || 5000),
+});
+
+// Un seul nettoyage à la fois pour toutes les routes
+const globalForSpeechCache = globalThis as unknown as { foodvoiceSpeechCachePruning?: boolean };
+
+const pruneCache = async () => {
+  if (globalForSpeechCache.foodvoiceSpeechCachePruning) return;
+  globalForSpeechCache.foodvoiceSpeechCachePruning = true;
+
+  try {
+    const cacheDir = getCacheDir();
+    const extensions = Object.values(EXTENSIONS).map(extension => `.${extension}`);
+    const names = (await fs.promises.readdir(cacheDir)).filter(name => extensions.includes(path.extname(name)));
+    const entries = await Promise.all(names.map(async name => {
+      const filePath = path.join(cacheDir, name);
+      const stats = await fs.promises.stat(filePath).catch(() => null);
+      return stats ? { filePath, size: stats.size, mtimeMs: stats.mtimeMs } : null;
+    }));
+
+    // Les plus anciennes d'abord
+    const files = entries
+      .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry))
+      .sort((a, b) => a.mtimeMs - b.mtimeMs);
+    const { maxBytes, maxEntries } = getCacheLimits();
+    let totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    let count = files.length;
+
+    for (const file of files) {
+      if (totalBytes <= maxBytes && count <= maxEntries) break;
+      await fs.promises.unlink(file.filePath).catch(() => undefined);
+      totalBytes -= file.size;
+      count -= 1;
+    }
+  } finally {
+    globalForSpeechCache.foodvoiceSpeechCachePruning = false;
+  }
+};
+
+// Même moteur, même voix, même langue, même texte : même audio
+export const getSpeechCacheKey = (backend: SpeechBackend, request: SpeechRequest) =>
+  createHash('sha256')
+    .update(JSON.stringify([backend.name, backend.voice, request.language, request.text]))
+    .digest('hex');
+
+const findCachedFile = async (key: string) => {
+  for (const [contentType, extension] of Object.entries(EXTENSIONS)) {
+    const filePath = path.join(getCacheDir(), `${key}.${extension}`);
+    try {
+      const audio = await fs.promises.readFile(filePath);
+      // Phrase lue : elle passe en dernier dans l'ordre de suppression
+      const now = new Date();
+      await fs.promises.utimes(filePath, now, now).catch(() => undefined);
+      return { audio, contentType };
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+  }
+  return null;
+};
+
+// Audio en cache, sinon synthétisé puis mis en cache
+export const synthesizeWithCache = async (
+  backend: SpeechBackend,
+  request: SpeechRequest
+): Promise<SpeechResult & { key: string; cached: boolean }> => {
+  const key = getSpeechCacheKey(backend, request);
+  const cached = await findCachedFile(key);
+  if (cached) return { ...cached, key, cached: true };
+
+  const result = await backend.synthesize(request);
+  const extension = EXTENSIONS[result.contentType];
+  if (extension) {
+    try {
+      const cacheDir = getCacheDir();
+      await fs.promises.mkdir(cacheDir, { recursive: true });
+      const filePath = path.join(cacheDir, `${key}.${extension}`);
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpPath, result.audio);
+      await fs.promises.rename(tmpPath, filePath);
+      await pruneCache();
+    } catch (error) {
+      // Le cache est une optimisation : l'audio est renvoyé quand même
+      console.warn('Impossible de mettre la phrase en cache:', error);
+    }
+  }
+  return { ...result, key, cached: false };
+};
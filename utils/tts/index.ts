@@ -0,0 +1,50 @@
+import { AIProviderError } from '../ai';
+import { SpeechBackend } from './types';
+import { createOpenAISpeechBackend } from './openai';
+import { createLocalSpeechBackend } from './local';
+import { createMockSpeechBackend } from './mock';
+
+export * from './types';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Moteur de synthèse vocale choisi par TTS_PROVIDER (usage serveur uniquement) :
+// - "openai" (défaut) : API OpenAI, clé OPENAI_API_KEY, voix TTS_VOICE
+// - "local" : commande installée sur le serveur (TTS_LOCAL_COMMAND, espeak-ng par défaut)
+// - "mock" : WAV fixe, sans réseau ni moteur
+// - "none" : pas de synthèse serveur, le navigateur parle lui-même
+// Une voix par langue peut remplacer TTS_VOICE : TTS_VOICE_EN, TTS_VOICE_DE...
+export const getSpeechBackend = (language?: string): SpeechBackend => {
+  const backendName = process.env.TTS_PROVIDER || 'openai';
+  const voice = (language && process.env[`TTS_VOICE_${language.toUpperCase()}`]) || process.env.TTS_VOICE;
+
+  switch (backendName) {
+    case 'mock':
+      return createMockSpeechBackend();
+
+    case 'local':
+      return createLocalSpeechBackend({
+        command: process.env.TTS_LOCAL_COMMAND || 'espeak-ng',
+        voice,
+      });
+
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new AIProviderError(503, 'Synthèse vocale indisponible', 'Clé API OpenAI non configurée');
+      }
+      return createOpenAISpeechBackend({
+        baseUrl: process.env.TTS_BASE_URL || OPENAI_BASE_URL,
+        apiKey,
+        model: process.env.TTS_MODEL || 'tts-1',
+        voice: voice || 'onyx',
+      });
+    }
+
+    case 'none':
+      throw new AIProviderError(503, 'Synthèse vocale indisponible', 'Synthèse serveur désactivée (TTS_PROVIDER=none)');
+
+    default:
+      throw new AIProviderError(500, 'Configuration serveur manquante', `Moteur de synthèse vocale inconnu: ${backendName}`);
+  }
+};
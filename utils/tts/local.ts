@@ -0,0 +1,38 @@
+import { execFile } from 'child_process';
+import { AIProviderError } from '../ai';
+import { SpeechBackend, SpeechRequest, SpeechResult } from './types';
+
+export interface LocalSpeechConfig {
+  // Commande compatible espeak-ng : <commande> -v <voix> --stdout -- <texte> écrit un WAV
+  command: string;
+  voice?: string;
+}
+
+// Délai maximal d'une synthèse locale
+const LOCAL_SPEECH_TIMEOUT_MS = 15000;
+
+// Moteur installé sur le serveur (espeak-ng par défaut), sans réseau
+export const createLocalSpeechBackend = (config: LocalSpeechConfig): SpeechBackend => {
+  const synthesize = (request: SpeechRequest): Promise<SpeechResult> => new Promise((resolve, reject) => {
+    execFile(
+      config.command,
+      // "--" : un texte qui commence par "-" n'est jamais lu comme une option (ex: "-w fichier")
+      ['-v', config.voice || request.language, '--stdout', '--', request.text],
+      { encoding: 'buffer', maxBuffer: 20 * 1024 * 1024, timeout: LOCAL_SPEECH_TIMEOUT_MS },
+      (error, stdout, stderr) => {
+        if (error) {
+          console.error('Erreur du moteur vocal local:', stderr?.toString() || error.message);
+          reject(new AIProviderError(503, 'Synthèse vocale indisponible', `${config.command}: ${error.message}`));
+          return;
+        }
+        resolve({ audio: stdout, contentType: 'audio/wav' });
+      }
+    );
+  });
+
+  return {
+    name: 'local',
+    voice: config.voice || 'langue',
+    synthesize,
+  };
+};
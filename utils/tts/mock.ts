@@ -0,0 +1,48 @@
+import { SpeechBackend, SpeechResult } from './types';
+
+// WAV fixe (bip de 0,3 s), pour développer et tester sans moteur ni réseau
+const SAMPLE_RATE = 16000;
+const DURATION_S = 0.3;
+const FREQUENCY_HZ = 440;
+
+const buildMockWav = (): Buffer => {
+  const sampleCount = Math.round(SAMPLE_RATE * DURATION_S);
+  const dataSize = sampleCount * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  // En-tête RIFF / WAVE, PCM 16 bits mono
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = Math.sin((2 * Math.PI * FREQUENCY_HZ * i) / SAMPLE_RATE) * 0.2;
+    buffer.writeInt16LE(Math.round(sample * 32767), 44 + i * 2);
+  }
+  return buffer;
+};
+
+export const createMockSpeechBackend = (): SpeechBackend => {
+  const audio = buildMockWav();
+
+  const synthesize = async (): Promise<SpeechResult> => ({
+    audio,
+    contentType: 'audio/wav',
+  });
+
+  return {
+    name: 'mock',
+    voice: 'bip',
+    synthesize,
+  };
+};
@@ -0,0 +1,50 @@
+import fetch from 'node-fetch';
+import { AIProviderError } from '../ai';
+import { SpeechBackend, SpeechRequest, SpeechResult } from './types';
+
+export interface OpenAISpeechConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  voice: string;
+}
+
+// API audio/speech d'OpenAI (la langue est déduite du texte)
+export const createOpenAISpeechBackend = (config: OpenAISpeechConfig): SpeechBackend => {
+  const synthesize = async (request: SpeechRequest): Promise<SpeechResult> => {
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/audio/speech`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: config.model,
+        voice: config.voice,
+        input: request.text,
+        response_format: 'mp3',
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Erreur OpenAI (synthèse vocale):', errorText);
+      throw new AIProviderError(
+        response.status,
+        'Erreur lors de la synthèse vocale',
+        `OpenAI: ${response.status} - ${errorText}`
+      );
+    }
+
+    return {
+      audio: Buffer.from(await response.arrayBuffer()),
+      contentType: 'audio/mpeg',
+    };
+  };
+
+  return {
+    name: 'openai',
+    voice: config.voice,
+    synthesize,
+  };
+};
@@ -0,0 +1,40 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { takeSentences } from '../chatStream';
+import { SignedSpeech } from './types';
+
+// Signature des phrases de Fred (usage serveur uniquement) : /api/speak ne synthétise que du texte
+// produit par le serveur, jamais un texte choisi par l'appelant (coût de l'API, cache disque)
+
+const SIGNATURE_LENGTH = 22;
+
+// SPEECH_SIGNING_SECRET à partager entre plusieurs instances ; sinon un secret tiré au démarrage
+// (après un redémarrage, les anciennes phrases sont lues par la voix du navigateur)
+const globalForSpeech = globalThis as unknown as { foodvoiceSpeechSecret?: string };
+
+const getSigningSecret = () => {
+  if (process.env.SPEECH_SIGNING_SECRET) return process.env.SPEECH_SIGNING_SECRET;
+  if (!globalForSpeech.foodvoiceSpeechSecret) {
+    globalForSpeech.foodvoiceSpeechSecret = randomBytes(32).toString('hex');
+  }
+  return globalForSpeech.foodvoiceSpeechSecret;
+};
+
+export const signSpeech = (text: string) =>
+  createHmac('sha256', getSigningSecret())
+    .update(`speech:${text}`)
+    .digest('base64url')
+    .slice(0, SIGNATURE_LENGTH);
+
+export const isValidSpeechSignature = (text: string, sig: string) => {
+  const expected = Buffer.from(signSpeech(text));
+  const provided = Buffer.from(sig);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+};
+
+// Une réponse complète, phrase par phrase (réécoute, réponse arrivée sans flux de texte)
+export const signSpeechSentences = (text: string): SignedSpeech[] => {
+  const { sentences, rest } = takeSentences(`${text} `);
+  return [...sentences, rest.trim()]
+    .filter(Boolean)
+    .map(sentence => ({ text: sentence, sig: signSpeech(sentence) }));
+};
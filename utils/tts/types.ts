@@ -0,0 +1,29 @@
+// Contrat commun des moteurs de synthèse vocale (voix de Fred)
+
+export interface SpeechRequest {
+  text: string;
+  // Code langue ISO 639-1 (ex: "fr")
+  language: string;
+}
+
+export interface SpeechResult {
+  audio: Buffer;
+  contentType: string;
+}
+
+export interface SpeechBackend {
+  name: string;
+  // Voix utilisée, prise en compte dans la clé de cache
+  voice: string;
+  synthesize: (request: SpeechRequest) => Promise<SpeechResult>;
+}
+
+// Phrase de Fred signée par le serveur : seul un texte produit par le serveur passe par la voix serveur
+export interface SignedSpeech {
+  text: string;
+  sig: string;
+}
+
+// Messages fixes du catalogue que la page peut faire dire par la voix serveur, désignés par leur clé
+export const SPOKEN_MESSAGE_KEYS = ['assistant.welcome', 'assistant.fallback'] as const;
+export type SpokenMessageKey = typeof SPOKEN_MESSAGE_KEYS[number];
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { AvailabilityMap, ItemAvailability } from './availability';
+
+// Disponibilités des plats, tenues à jour en direct (Server-Sent Events)
+export const useAvailability = (): AvailabilityMap => {
+  const [availability, setAvailability] = useState<AvailabilityMap>({});
+
+  useEffect(() => {
+    const source = new EventSource('/api/availability/events');
+
+    source.addEventListener('snapshot', (event) => {
+      setAvailability(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.addEventListener('availability', (event) => {
+      const entry: ItemAvailability = JSON.parse((event as MessageEvent).data);
+      setAvailability(prev => ({ ...prev, [entry.itemId]: entry }));
+    });
+
+    return () => source.close();
+  }, []);
+
+  return availability;
+};
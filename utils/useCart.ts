@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ModifiableItem, withDefaultOptions, resolveModifiers, getUnitPrice, describeModifiers, selectionKey } from './modifiers';
+
+// Clé de stockage local du panier
+const CART_STORAGE_KEY = 'foodvoice-cart';
+
+export interface CartLine {
+  lineId: string;
+  itemId: number;
+  name: string;
+  // Prix unitaire, options comprises
+  price: number;
+  quantity: number;
+  note: string;
+  // Identifiants des options retenues et leur résumé ("Grande, Sans basilic")
+  options: string[];
+  optionsLabel: string;
+}
+
+export interface CartState {
+  lines: CartLine[];
+  itemCount: number;
+  total: number;
+}
+
+// Informations minimales d'un plat pour l'ajouter au panier
+export interface CartItemInput extends ModifiableItem {
+  id: number;
+  name: string;
+}
+
+export interface CartControls {
+  addItem: (item: CartItemInput, quantity?: number, note?: string, options?: string[]) => void;
+  removeItem: (itemId: number, quantity?: number) => void;
+  updateQuantity: (lineId: string, quantity: number) => void;
+  updateNote: (lineId: string, note: string) => void;
+  clearCart: () => void;
+}
+
+export interface UseCartReturn {
+  state: CartState;
+  controls: CartControls;
+}
+
+// Formater un prix avec la devise du restaurant
+export const formatPrice = (amount: number, currency: string) => {
+  const rounded = Math.round(amount * 100) / 100;
+  return `${Number.isInteger(rounded) ? rounded : rounded.toFixed(2)}${currency}`;
+};
+
+export const useCart = (): UseCartReturn => {
+  const [lines, setLines] = useState<CartLine[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  // Restaurer le panier sauvegardé (côté client uniquement)
+  useEffect(() => {
+    try {
+      const saved = window.localStorage.getItem(CART_STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        if (Array.isArray(parsed)) {
+          // Les paniers sauvegardés avant les options n'en ont pas
+          setLines(parsed.map(line => ({ options: [], optionsLabel: '', ...line })));
+        }
+      }
+    } catch (error) {
+      console.warn('Impossible de restaurer le panier:', error);
+    }
+    setIsHydrated(true);
+  }, []);
+
+  // Sauvegarder le panier à chaque modification
+  useEffect(() => {
+    if (!isHydrated) return;
+    try {
+      window.localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(lines));
+    } catch (error) {
+      console.warn('Impossible de sauvegarder le panier:', error);
+    }
+  }, [lines, isHydrated]);
+
+  // Ajouter un plat (fusionne avec la ligne existante du même plat et des mêmes options)
+  const addItem = useCallback((item: CartItemInput, quantity: number = 1, note?: string, options: string[] = []) => {
+    if (quantity <= 0) return;
+
+    const selected = withDefaultOptions(item, options);
+    const nonDefault = resolveModifiers(item, selected).filter(modifier => !modifier.isDefault);
+
+    setLines(prev => {
+      const lineId = nonDefault.length > 0
+        ? `${item.id}:${selectionKey(nonDefault.map(modifier => modifier.optionId))}`
+        : String(item.id);
+      const existing = prev.find(line => line.lineId === lineId);
+
+      if (existing) {
+        return prev.map(line =>
+          line.lineId === lineId
+            ? { ...line, quantity: line.quantity + quantity, note: note ?? line.note }
+            : line
+        );
+      }
+
+      return [
+        ...prev,
+        {
+          lineId,
+          itemId: item.id,
+          name: item.name,
+          price: getUnitPrice(item, selected),
+          quantity,
+          note: note || '',
+          options: selected,
+          optionsLabel: describeModifiers(resolveModifiers(item, selected)),
+        },
+      ];
+    });
+  }, []);
+
+  // Retirer un plat : toute la ligne si aucune quantité n'est précisée
+  const removeItem = useCallback((itemId: number, quantity?: number) => {
+    setLines(prev => prev
+      .map(line => {
+        if (line.itemId !== itemId) return line;
+        if (quantity === undefined) return null;
+        return { ...line, quantity: line.quantity - quantity };
+      })
+      .filter((line): line is CartLine => line !== null && line.quantity > 0)
+    );
+  }, []);
+
+  // Changer la quantité d'une ligne (0 ou moins supprime la ligne)
+  const updateQuantity = useCallback((lineId: string, quantity: number) => {
+    setLines(prev => quantity <= 0
+      ? prev.filter(line => line.lineId !== lineId)
+      : prev.map(line => line.lineId === lineId ? { ...line, quantity } : line)
+    );
+  }, []);
+
+  // Modifier la note d'une ligne (ex: "bien cuit")
+  const updateNote = useCallback((lineId: string, note: string) => {
+    setLines(prev => prev.map(line => line.lineId === lineId ? { ...line, note } : line));
+  }, []);
+
+  // Vider le panier
+  const clearCart = useCallback(() => {
+    setLines([]);
+  }, []);
+
+  const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const total = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+
+  return {
+    state: {
+      lines,
+      itemCount,
+      total,
+    },
+    controls: {
+      addItem,
+      removeItem,
+      updateQuantity,
+      updateNote,
+      clearCart,
+    },
+  };
+};
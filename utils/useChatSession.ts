@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatSession, SessionViewState } from './session';
+
+// Délai avant d'envoyer l'état de l'écran au serveur (regroupe les changements rapprochés)
+const SYNC_DELAY_MS = 800;
+
+export interface ChatSessionHookState {
+  // Session retrouvée sur le serveur (null si nouvelle ou expirée)
+  session: ChatSession | null;
+  isLoaded: boolean;
+}
+
+export interface ChatSessionControls {
+  syncState: (state: SessionViewState) => void;
+}
+
+export interface UseChatSessionReturn {
+  state: ChatSessionHookState;
+  controls: ChatSessionControls;
+}
+
+// Session de conversation tenue par le serveur : historique, panier, filtres et catégorie
+export const useChatSession = (token: string | null): UseChatSessionReturn => {
+  const [session, setSession] = useState<ChatSession | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Retrouver la session après un rechargement de la page
+  useEffect(() => {
+    if (!token) return;
+    const restore = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${token}`);
+        if (response.ok) {
+          setSession(await response.json());
+        }
+      } catch (error) {
+        console.warn('Impossible de restaurer la session:', error);
+      }
+      setIsLoaded(true);
+    };
+    restore();
+  }, [token]);
+
+  useEffect(() => () => {
+    if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+  }, []);
+
+  // Envoyer l'état de l'écran pour que Fred sache ce que le client voit (best effort)
+  const syncState = useCallback((state: SessionViewState) => {
+    if (!token) return;
+    if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = setTimeout(async () => {
+      try {
+        await fetch(`/api/sessions/${token}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(state),
+        });
+      } catch (error) {
+        console.warn('Impossible de synchroniser la session:', error);
+      }
+    }, SYNC_DELAY_MS);
+  }, [token]);
+
+  return {
+    state: {
+      session,
+      isLoaded,
+    },
+    controls: {
+      syncState,
+    },
+  };
+};
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GuestProfile, DEFAULT_GUEST_PROFILE, GUEST_LANGUAGES, isGuestToken } from './guestProfile';
+
+// Clés de stockage local du profil et du jeton client
+const PROFILE_STORAGE_KEY = 'foodvoice-guest-profile';
+const TOKEN_STORAGE_KEY = 'foodvoice-guest-token';
+
+export interface GuestProfileState {
+  profile: GuestProfile;
+  token: string | null;
+  isLoaded: boolean;
+}
+
+export interface GuestProfileControls {
+  updateProfile: (changes: Partial<GuestProfile>) => void;
+  resetProfile: () => void;
+}
+
+export interface UseGuestProfileReturn {
+  state: GuestProfileState;
+  controls: GuestProfileControls;
+}
+
+// UUID v4 ; crypto.randomUUID n'existe qu'en contexte sécurisé (HTTPS)
+const createGuestToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// Profil par défaut dans la langue du navigateur, si elle est proposée
+const getDefaultProfile = (): GuestProfile => {
+  const browserLanguage = navigator.language.split('-')[0];
+  return GUEST_LANGUAGES.some(language => language.value === browserLanguage)
+    ? { ...DEFAULT_GUEST_PROFILE, language: browserLanguage }
+    : DEFAULT_GUEST_PROFILE;
+};
+
+// Sauvegarder le profil côté serveur (best effort : le stockage local fait foi hors ligne)
+const syncProfile = async (token: string, profile: GuestProfile | null) => {
+  try {
+    await fetch(`/api/guests/${token}`, profile
+      ? { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(profile) }
+      : { method: 'DELETE' });
+  } catch (error) {
+    console.warn('Impossible de synchroniser le profil:', error);
+  }
+};
+
+export const useGuestProfile = (): UseGuestProfileReturn => {
+  const [profile, setProfile] = useState<GuestProfile>(DEFAULT_GUEST_PROFILE);
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Restaurer le jeton et le profil (local d'abord, sinon serveur)
+  useEffect(() => {
+    const restore = async () => {
+      let guestToken = window.localStorage.getItem(TOKEN_STORAGE_KEY);
+      if (!isGuestToken(guestToken)) {
+        guestToken = createGuestToken();
+        window.localStorage.setItem(TOKEN_STORAGE_KEY, guestToken);
+      }
+      setToken(guestToken);
+
+      setProfile(getDefaultProfile());
+      try {
+        const saved = window.localStorage.getItem(PROFILE_STORAGE_KEY);
+        if (saved) {
+          const restored = { ...getDefaultProfile(), ...JSON.parse(saved) };
+          setProfile(restored);
+          // Le serveur a pu perdre le profil : Fred doit le connaître aussi
+          syncProfile(guestToken, restored);
+        } else {
+          const response = await fetch(`/api/guests/${guestToken}`);
+          if (response.ok) {
+            setProfile({ ...getDefaultProfile(), ...(await response.json()) });
+          }
+        }
+      } catch (error) {
+        console.warn('Impossible de restaurer le profil:', error);
+      }
+      setIsLoaded(true);
+    };
+    restore();
+  }, []);
+
+  // Modifier le profil : sauvegarde locale immédiate puis synchronisation serveur
+  const updateProfile = useCallback((changes: Partial<GuestProfile>) => {
+    const next = { ...profile, ...changes };
+    setProfile(next);
+    try {
+      window.localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(next));
+    } catch (error) {
+      console.warn('Impossible de sauvegarder le profil:', error);
+    }
+    if (token) syncProfile(token, next);
+  }, [profile, token]);
+
+  // Oublier le profil (ici et sur le serveur)
+  const resetProfile = useCallback(() => {
+    setProfile(getDefaultProfile());
+    window.localStorage.removeItem(PROFILE_STORAGE_KEY);
+    if (token) syncProfile(token, null);
+  }, [token]);
+
+  return {
+    state: {
+      profile,
+      token,
+      isLoaded,
+    },
+    controls: {
+      updateProfile,
+      resetProfile,
+    },
+  };
+};
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useRouter } from 'next/router';
+import {
+  MenuViewState,
+  DEFAULT_MENU_VIEW,
+  MENU_VIEW_PARAMS,
+  queryToMenuView,
+  menuViewToQuery,
+  serializeMenuView,
+  hasMenuViewParams,
+} from './menuView';
+
+// push : nouvelle étape de l'historique (le retour du navigateur l'annule) ; replace : même étape
+export type MenuViewHistoryMode = 'push' | 'replace';
+
+export type MenuViewChange = Partial<MenuViewState> | ((view: MenuViewState) => Partial<MenuViewState>);
+
+export interface MenuViewHookState {
+  view: MenuViewState;
+  // URL lue (la vue initiale est connue)
+  isRestored: boolean;
+  // La page a été ouverte sur une vue précise (lien partagé)
+  isFromLink: boolean;
+}
+
+export interface MenuViewControls {
+  updateView: (change: MenuViewChange, mode?: MenuViewHistoryMode) => void;
+}
+
+export interface UseMenuViewReturn {
+  state: MenuViewHookState;
+  controls: MenuViewControls;
+}
+
+// Vue du menu synchronisée avec l'URL : partageable, et parcourue par les boutons précédent / suivant
+export const useMenuView = (): UseMenuViewReturn => {
+  const router = useRouter();
+  const [view, setView] = useState<MenuViewState>(DEFAULT_MENU_VIEW);
+  const [isRestored, setIsRestored] = useState(false);
+  const [isFromLink, setIsFromLink] = useState(false);
+  // Mode d'écriture de la prochaine mise à jour ; null : la vue vient de l'URL, rien à écrire
+  const pendingModeRef = useRef<MenuViewHistoryMode | null>(null);
+  // Dernière vue lue ou écrite dans l'URL
+  const urlViewRef = useRef<string | null>(null);
+  // Vues écrites dont la navigation n'est pas encore revenue : ce ne sont pas des retours en arrière
+  // (pendant une saisie rapide, une ancienne navigation peut arriver après la suivante)
+  const ownWritesRef = useRef<string[]>([]);
+
+  // Lire l'URL à l'ouverture puis à chaque navigation précédent / suivant
+  useEffect(() => {
+    if (!router.isReady) return;
+    const urlView = queryToMenuView(router.query);
+    const serialized = serializeMenuView(urlView);
+    const ownWrite = ownWritesRef.current.indexOf(serialized);
+    if (ownWrite >= 0) {
+      ownWritesRef.current = ownWritesRef.current.slice(ownWrite + 1);
+      return;
+    }
+    if (serialized === urlViewRef.current) return;
+    if (urlViewRef.current === null) setIsFromLink(hasMenuViewParams(router.query));
+    urlViewRef.current = serialized;
+    ownWritesRef.current = [];
+    pendingModeRef.current = null;
+    setView(urlView);
+    setIsRestored(true);
+  }, [router.isReady, router.query]);
+
+  // Écrire la vue dans l'URL après un changement de l'interface ou de Fred
+  useEffect(() => {
+    const mode = pendingModeRef.current;
+    pendingModeRef.current = null;
+    if (!isRestored || !mode) return;
+
+    const serialized = serializeMenuView(view);
+    if (serialized === urlViewRef.current) return;
+    urlViewRef.current = serialized;
+    ownWritesRef.current.push(serialized);
+
+    // Garder les autres paramètres (ex: table ouverte par QR code)
+    const otherParams = Object.fromEntries(
+      Object.entries(router.query).filter(([key]) => !MENU_VIEW_PARAMS.includes(key))
+    );
+    router[mode](
+      { pathname: router.pathname, query: { ...otherParams, ...menuViewToQuery(view) } },
+      undefined,
+      { shallow: true, scroll: false }
+    );
+  }, [view, isRestored, router]);
+
+  // Une étape "push" l'emporte sur les "replace" regroupés avec elle
+  const updateView = useCallback((change: MenuViewChange, mode: MenuViewHistoryMode = 'replace') => {
+    pendingModeRef.current = mode === 'push' || pendingModeRef.current === 'push' ? 'push' : 'replace';
+    setView(prev => ({ ...prev, ...(typeof change === 'function' ? change(prev) : change) }));
+  }, []);
+
+  return {
+    state: {
+      view,
+      isRestored,
+      isFromLink,
+    },
+    controls: {
+      updateView,
+    },
+  };
+};
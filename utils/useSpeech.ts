@@ -0,0 +1,158 @@
+import { useState, useRef, useCallback } from 'react';
+import type { SpokenMessageKey } from './tts/types';
+
+// Voix de Fred : audio de /api/speak (même voix sur tous les appareils),
+// sinon synthèse vocale du navigateur
+
+// Ce qui autorise la voix serveur : signature d'une phrase de Fred, ou clé d'un message du catalogue.
+// Un texte sans autorisation (ex: ancienne réponse retrouvée avec la session) est dit par le navigateur.
+export type SpeechGrant = { sig: string } | { key: SpokenMessageKey };
+
+export interface SpeechState {
+  // Fred est en train de parler (phrase en cours ou en file)
+  isSpeaking: boolean;
+  // La voix serveur répond ; passe à false après un échec (repli sur le navigateur)
+  isServerVoiceAvailable: boolean;
+}
+
+export interface SpeechControls {
+  // "queue" : à la suite de la phrase en cours, sinon coupe ce qui est en cours
+  speak: (message: string, queue?: boolean, grant?: SpeechGrant) => void;
+  // Couper Fred ; les phrases encore ajoutées à la file sont ignorées jusqu'au prochain speak()
+  stop: () => void;
+}
+
+export interface UseSpeechReturn {
+  state: SpeechState;
+  controls: SpeechControls;
+}
+
+interface QueuedSpeech {
+  text: string;
+  audio: HTMLAudioElement;
+  onFinished: () => void;
+}
+
+export const useSpeech = (language: string): UseSpeechReturn => {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isServerVoiceAvailable, setIsServerVoiceAvailable] = useState(true);
+
+  const languageRef = useRef(language);
+  languageRef.current = language;
+  const serverVoiceRef = useRef(true);
+  const queueRef = useRef<QueuedSpeech[]>([]);
+  const currentRef = useRef<QueuedSpeech | null>(null);
+  const pendingRef = useRef(0);
+  // Génération (les fins de phrases annulées sont ignorées) et interruption par le client
+  const generationRef = useRef(0);
+  const isInterruptedRef = useRef(false);
+
+  // Synthèse vocale du navigateur (Web Speech API)
+  const speakWithBrowser = useCallback((text: string, onFinished: () => void) => {
+    if (!('speechSynthesis' in window)) {
+      onFinished();
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = languageRef.current;
+    utterance.rate = 0.9;
+    utterance.pitch = 1;
+    utterance.volume = 0.8;
+    utterance.onend = onFinished;
+    utterance.onerror = onFinished;
+    window.speechSynthesis.speak(utterance);
+  }, []);
+
+  // Jouer la prochaine phrase de la file audio
+  const playNext = useCallback(() => {
+    if (currentRef.current || queueRef.current.length === 0) return;
+    const entry = queueRef.current.shift() as QueuedSpeech;
+    currentRef.current = entry;
+
+    // Voix serveur indisponible : cette phrase et les suivantes passent par le navigateur
+    const fallBack = () => {
+      if (currentRef.current !== entry) return;
+      console.warn('Voix serveur indisponible, synthèse du navigateur utilisée');
+      serverVoiceRef.current = false;
+      setIsServerVoiceAvailable(false);
+      currentRef.current = null;
+      [entry, ...queueRef.current].forEach(queued => speakWithBrowser(queued.text, queued.onFinished));
+      queueRef.current = [];
+    };
+
+    entry.audio.onended = () => {
+      if (currentRef.current !== entry) return;
+      currentRef.current = null;
+      entry.onFinished();
+      playNext();
+    };
+    entry.audio.onerror = fallBack;
+    entry.audio.play().catch(fallBack);
+  }, [speakWithBrowser]);
+
+  // Tout arrêter, voix serveur et navigateur
+  const cancelAll = useCallback(() => {
+    if ('speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+    }
+    currentRef.current?.audio.pause();
+    currentRef.current = null;
+    queueRef.current = [];
+  }, []);
+
+  const speak = useCallback((message: string, queue = false, grant?: SpeechGrant) => {
+    // Le client a interrompu Fred : ne pas reprendre la suite de la réponse
+    if (queue && isInterruptedRef.current) return;
+
+    if (!queue) {
+      cancelAll();
+      generationRef.current += 1;
+      pendingRef.current = 0;
+      isInterruptedRef.current = false;
+    }
+
+    // Compter les phrases restant à dire (le mode mains libres attend la fin)
+    const generation = generationRef.current;
+    const onFinished = () => {
+      if (generation !== generationRef.current) return;
+      pendingRef.current = Math.max(0, pendingRef.current - 1);
+      setIsSpeaking(pendingRef.current > 0);
+    };
+    pendingRef.current += 1;
+    setIsSpeaking(true);
+
+    if (!serverVoiceRef.current || !grant) {
+      speakWithBrowser(message, onFinished);
+      return;
+    }
+
+    // L'audio est demandé tout de suite (préchargé pendant la phrase précédente)
+    const params = new URLSearchParams({
+      ...('key' in grant ? { key: grant.key } : { text: message, sig: grant.sig }),
+      lang: languageRef.current,
+    });
+    const audio = new Audio(`/api/speak?${params.toString()}`);
+    audio.preload = 'auto';
+    queueRef.current.push({ text: message, audio, onFinished });
+    playNext();
+  }, [cancelAll, playNext, speakWithBrowser]);
+
+  const stop = useCallback(() => {
+    cancelAll();
+    generationRef.current += 1;
+    pendingRef.current = 0;
+    isInterruptedRef.current = true;
+    setIsSpeaking(false);
+  }, [cancelAll]);
+
+  return {
+    state: {
+      isSpeaking,
+      isServerVoiceAvailable,
+    },
+    controls: {
+      speak,
+      stop,
+    },
+  };
+};
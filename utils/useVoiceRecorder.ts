@@ -1,17 +1,64 @@
 import { useState, useRef, useCallback } from 'react';
+import { DEFAULT_LOCALE, translate } from './i18n';
 
 export interface VoiceRecorderState {
   isRecording: boolean;
   isProcessing: boolean;
   audioLevel: number;
+  // Le niveau audio dépasse le seuil de parole
+  isSpeaking: boolean;
+  // Micro ouvert pendant que Fred parle, prêt à l'interrompre
+  isListeningForBargeIn: boolean;
   error: string | null;
   transcript: string | null;
+  // Langue reconnue dans la voix du client (code ISO), null si elle n'a pas été reconnue
+  transcriptLanguage: string | null;
+}
+
+// Détection de parole à partir de l'analyseur audio
+export interface VoiceActivityOptions {
+  // Mode mains libres : arrêt et envoi automatiques à la fin de la phrase
+  handsFree?: boolean;
+  // Silence (ms) après la parole qui marque la fin de la phrase
+  silenceDurationMs?: number;
+  // Niveau (0 à 1) au-dessus duquel le client parle
+  speechThreshold?: number;
+  // Parole minimale (ms) pour envoyer l'enregistrement à la transcription
+  minSpeechMs?: number;
+  // Mains libres : abandon si personne ne parle pendant ce délai (ms)
+  noSpeechTimeoutMs?: number;
+  // Durée maximale d'un enregistrement (ms)
+  maxRecordingMs?: number;
+  // Interruption de Fred : seuil plus haut que speechThreshold, sa propre voix revient dans le micro
+  bargeInThreshold?: number;
+  // Parole continue (ms) nécessaire pour interrompre Fred
+  bargeInMinSpeechMs?: number;
+}
+
+export const DEFAULT_VOICE_ACTIVITY: Required<VoiceActivityOptions> = {
+  handsFree: false,
+  silenceDurationMs: 1200,
+  speechThreshold: 0.12,
+  minSpeechMs: 250,
+  noSpeechTimeoutMs: 8000,
+  maxRecordingMs: 30000,
+  bargeInThreshold: 0.3,
+  bargeInMinSpeechMs: 300,
+};
+
+export interface VoiceRecorderOptions extends VoiceActivityOptions {
+  // Langue des messages d'erreur affichés au client
+  language?: string;
 }
 
 export interface VoiceRecorderControls {
   startRecording: () => Promise<void>;
   stopRecording: () => Promise<void>;
   clearTranscript: () => void;
+  // Écouter le client pendant que Fred parle : dès qu'il parle, "onBargeIn" coupe Fred
+  // et l'enregistrement démarre sur le même micro
+  listenForBargeIn: (onBargeIn: () => void) => Promise<void>;
+  stopListeningForBargeIn: () => void;
 }
 
 export interface UseVoiceRecorderReturn {
@@ -19,61 +66,146 @@ export interface UseVoiceRecorderReturn {
   controls: VoiceRecorderControls;
 }
 
-export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
+export const useVoiceRecorder = ({ language = DEFAULT_LOCALE, ...options }: VoiceRecorderOptions = {}): UseVoiceRecorderReturn => {
   const [state, setState] = useState<VoiceRecorderState>({
     isRecording: false,
     isProcessing: false,
     audioLevel: 0,
+    isSpeaking: false,
+    isListeningForBargeIn: false,
     error: null,
     transcript: null,
+    transcriptLanguage: null,
   });
 
+  // Options lues à chaque image par la boucle d'analyse (toujours les plus récentes)
+  const voiceActivityRef = useRef(DEFAULT_VOICE_ACTIVITY);
+  voiceActivityRef.current = { ...DEFAULT_VOICE_ACTIVITY, ...options };
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  // Suivi de la parole pendant l'enregistrement en cours
+  const isRecordingRef = useRef(false);
+  const recordingStartedAtRef = useRef(0);
+  const lastFrameAtRef = useRef(0);
+  const lastVoiceAtRef = useRef(0);
+  const speechMsRef = useRef(0);
+  // Écoute pendant que Fred parle
+  const isListeningForBargeInRef = useRef(false);
+  const bargeInSpeechMsRef = useRef(0);
+  const onBargeInRef = useRef<(() => void) | null>(null);
+
+  // Ouvrir le micro et l'analyseur (réutilisés s'ils sont déjà ouverts)
+  const openMicrophone = useCallback(async () => {
+    if (streamRef.current) return streamRef.current;
+
+    // Demander l'accès au microphone
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: true,
+        noiseSuppression: true,
+        sampleRate: 44100,
+      }
+    });
 
-  // Fonction pour analyser le niveau audio (visualisation)
-  const analyzeAudioLevel = useCallback(() => {
-    if (!analyserRef.current) return;
+    // Créer le contexte audio pour l'analyse
+    audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const source = audioContextRef.current.createMediaStreamSource(stream);
+    analyserRef.current = audioContextRef.current.createAnalyser();
+    analyserRef.current.fftSize = 256;
+    source.connect(analyserRef.current);
+
+    streamRef.current = stream;
+    return stream;
+  }, []);
+
+  // Fermer le micro, le contexte audio et l'analyse en cours
+  const closeMicrophone = useCallback(() => {
+    // Arrêter le stream
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+
+    // Nettoyer le contexte audio
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+    }
+    analyserRef.current = null;
+
+    // Arrêter l'animation
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+  }, []);
 
-    const bufferLength = analyserRef.current.frequencyBinCount;
+  // Niveau audio moyen du micro, entre 0 et 1
+  const measureLevel = (analyser: AnalyserNode) => {
+    const bufferLength = analyser.frequencyBinCount;
     const dataArray = new Uint8Array(bufferLength);
-    analyserRef.current.getByteFrequencyData(dataArray);
+    analyser.getByteFrequencyData(dataArray);
 
-    // Calculer le niveau audio moyen
     const average = dataArray.reduce((sum, value) => sum + value, 0) / bufferLength;
-    const normalizedLevel = Math.min(average / 128, 1); // Normaliser entre 0 et 1
+    return Math.min(average / 128, 1);
+  };
+
+  // Arrêter le MediaRecorder (manuellement ou sur fin de parole détectée)
+  const stopMediaRecorder = useCallback(() => {
+    isRecordingRef.current = false;
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
+      mediaRecorderRef.current.stop();
+    }
+  }, []);
 
-    setState(prev => ({ ...prev, audioLevel: normalizedLevel }));
+  // Analyser le niveau audio : visualisation et détection de fin de parole
+  const analyzeAudioLevel = useCallback(() => {
+    if (!analyserRef.current || !isRecordingRef.current) return;
+
+    const normalizedLevel = measureLevel(analyserRef.current);
 
-    // Continuer l'animation si on enregistre
-    if (state.isRecording) {
-      animationFrameRef.current = requestAnimationFrame(analyzeAudioLevel);
+    const vad = voiceActivityRef.current;
+    const now = performance.now();
+    const isSpeaking = normalizedLevel >= vad.speechThreshold;
+    if (isSpeaking) {
+      speechMsRef.current += now - lastFrameAtRef.current;
+      lastVoiceAtRef.current = now;
+    }
+    lastFrameAtRef.current = now;
+
+    setState(prev => ({ ...prev, audioLevel: normalizedLevel, isSpeaking }));
+
+    // Mains libres : fin de phrase après un silence, ou abandon si personne ne parle
+    const hasSpoken = speechMsRef.current >= vad.minSpeechMs;
+    const isSentenceOver = hasSpoken && now - lastVoiceAtRef.current >= vad.silenceDurationMs;
+    const isNobodySpeaking = !hasSpoken && now - recordingStartedAtRef.current >= vad.noSpeechTimeoutMs;
+    if ((vad.handsFree && (isSentenceOver || isNobodySpeaking)) || now - recordingStartedAtRef.current >= vad.maxRecordingMs) {
+      stopMediaRecorder();
+      return;
     }
-  }, [state.isRecording]);
+
+    // Continuer l'analyse tant qu'on enregistre
+    animationFrameRef.current = requestAnimationFrame(analyzeAudioLevel);
+  }, [stopMediaRecorder]);
 
   // Démarrer l'enregistrement
   const startRecording = useCallback(async () => {
+    if (isRecordingRef.current) return;
     try {
-      setState(prev => ({ ...prev, error: null, transcript: null }));
-
-      // Demander l'accès au microphone
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 44100,
-        }
-      });
-
-      // Créer le contexte audio pour l'analyse
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const source = audioContextRef.current.createMediaStreamSource(stream);
-      analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = 256;
-      source.connect(analyserRef.current);
+      setState(prev => ({ ...prev, error: null, transcript: null, transcriptLanguage: null }));
+
+      // Le micro est peut-être déjà ouvert (écoute pendant que Fred parlait)
+      const stream = await openMicrophone();
+      if (isListeningForBargeInRef.current) {
+        isListeningForBargeInRef.current = false;
+        if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+        setState(prev => ({ ...prev, isListeningForBargeIn: false }));
+      }
 
       // Configurer MediaRecorder
       const mediaRecorder = new MediaRecorder(stream, {
@@ -92,26 +224,27 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
 
       mediaRecorder.onstop = async () => {
         const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        
-        // Arrêter le stream
-        stream.getTracks().forEach(track => track.stop());
-        
-        // Nettoyer le contexte audio
-        if (audioContextRef.current) {
-          audioContextRef.current.close();
-          audioContextRef.current = null;
-        }
-
-        // Arrêter l'animation
-        if (animationFrameRef.current) {
-          cancelAnimationFrame(animationFrameRef.current);
-          animationFrameRef.current = null;
+        closeMicrophone();
+
+        // Aucune parole détectée : inutile d'envoyer le silence à /api/transcribe
+        if (speechMsRef.current < voiceActivityRef.current.minSpeechMs) {
+          console.log('Enregistrement ignoré : aucune parole détectée');
+          setState(prev => ({
+            ...prev,
+            isRecording: false,
+            isSpeaking: false,
+            audioLevel: 0,
+            // En mains libres, l'écoute reprend simplement sans message d'erreur
+            error: voiceActivityRef.current.handsFree ? null : translate(languageRef.current, 'voice.noSpeech'),
+          }));
+          return;
         }
 
         setState(prev => ({ 
           ...prev, 
           isRecording: false,
           isProcessing: true,
+          isSpeaking: false,
           audioLevel: 0 
         }));
 
@@ -121,6 +254,12 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
 
       // Démarrer l'enregistrement
       mediaRecorder.start();
+      const startedAt = performance.now();
+      isRecordingRef.current = true;
+      recordingStartedAtRef.current = startedAt;
+      lastFrameAtRef.current = startedAt;
+      lastVoiceAtRef.current = startedAt;
+      speechMsRef.current = 0;
       setState(prev => ({ ...prev, isRecording: true }));
 
       // Démarrer l'analyse du niveau audio
@@ -128,20 +267,68 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
 
     } catch (error) {
       console.error('Erreur lors du démarrage de l\'enregistrement:', error);
+      closeMicrophone();
       setState(prev => ({ 
         ...prev, 
-        error: 'Impossible d\'accéder au microphone. Vérifiez les permissions.',
+        error: translate(languageRef.current, 'voice.microphoneError'),
         isRecording: false 
       }));
     }
-  }, [analyzeAudioLevel]);
+  }, [analyzeAudioLevel, openMicrophone, closeMicrophone]);
 
   // Arrêter l'enregistrement
   const stopRecording = useCallback(async () => {
-    if (mediaRecorderRef.current && state.isRecording) {
-      mediaRecorderRef.current.stop();
+    stopMediaRecorder();
+  }, [stopMediaRecorder]);
+
+  // Surveiller le micro pendant que Fred parle ; une parole soutenue l'interrompt
+  const analyzeBargeIn = useCallback(() => {
+    if (!analyserRef.current || !isListeningForBargeInRef.current) return;
+
+    const vad = voiceActivityRef.current;
+    const now = performance.now();
+    // Parole continue uniquement : un bruit bref ou un écho de Fred remet le compteur à zéro
+    if (measureLevel(analyserRef.current) >= vad.bargeInThreshold) {
+      bargeInSpeechMsRef.current += now - lastFrameAtRef.current;
+    } else {
+      bargeInSpeechMsRef.current = 0;
     }
-  }, [state.isRecording]);
+    lastFrameAtRef.current = now;
+
+    if (bargeInSpeechMsRef.current >= vad.bargeInMinSpeechMs) {
+      console.log('Le client interrompt Fred');
+      onBargeInRef.current?.();
+      startRecording();
+      return;
+    }
+
+    animationFrameRef.current = requestAnimationFrame(analyzeBargeIn);
+  }, [startRecording]);
+
+  const listenForBargeIn = useCallback(async (onBargeIn: () => void) => {
+    onBargeInRef.current = onBargeIn;
+    if (isRecordingRef.current || isListeningForBargeInRef.current) return;
+
+    try {
+      await openMicrophone();
+    } catch (error) {
+      console.warn('Écoute pendant la réponse de Fred impossible:', error);
+      return;
+    }
+    isListeningForBargeInRef.current = true;
+    bargeInSpeechMsRef.current = 0;
+    lastFrameAtRef.current = performance.now();
+    setState(prev => ({ ...prev, isListeningForBargeIn: true }));
+    analyzeBargeIn();
+  }, [openMicrophone, analyzeBargeIn]);
+
+  const stopListeningForBargeIn = useCallback(() => {
+    if (!isListeningForBargeInRef.current) return;
+    isListeningForBargeInRef.current = false;
+    onBargeInRef.current = null;
+    if (!isRecordingRef.current) closeMicrophone();
+    setState(prev => ({ ...prev, isListeningForBargeIn: false }));
+  }, [closeMicrophone]);
 
   // Transcrire l'audio avec l'API Whisper
   const transcribeAudio = useCallback(async (audioBlob: Blob) => {
@@ -163,6 +350,8 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
       setState(prev => ({ 
         ...prev, 
         transcript: data.text,
+        // Langue reconnue dans la voix, pas celle du navigateur
+        transcriptLanguage: data.isLanguageDetected ? data.language : null,
         isProcessing: false 
       }));
 
@@ -170,7 +359,7 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
       console.error('Erreur lors de la transcription:', error);
       setState(prev => ({ 
         ...prev, 
-        error: 'Erreur lors de la transcription audio',
+        error: translate(languageRef.current, 'voice.transcriptionError'),
         isProcessing: false 
       }));
     }
@@ -178,7 +367,7 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
 
   // Effacer la transcription
   const clearTranscript = useCallback(() => {
-    setState(prev => ({ ...prev, transcript: null, error: null }));
+    setState(prev => ({ ...prev, transcript: null, transcriptLanguage: null, error: null }));
   }, []);
 
   // Nettoyage lors du démontage
@@ -200,6 +389,8 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
       startRecording,
       stopRecording,
       clearTranscript,
+      listenForBargeIn,
+      stopListeningForBargeIn,
     },
   };
 };
\ No newline at end of file